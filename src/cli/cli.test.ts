@@ -0,0 +1,200 @@
+/**
+ * CLI Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, EXIT_OK, EXIT_VERIFICATION_FAILED, EXIT_USAGE } from './cli.js';
+import { sha3 } from '../crypto/sha3.js';
+import { generateKeyPair } from '../crypto/ecdsa.js';
+
+describe('causalverify CLI', () => {
+    const agentId = '0xAgent';
+    let dir: string;
+    let stdout: string[];
+    let stderr: string[];
+
+    const run = (...argv: string[]) => {
+        stdout = [];
+        stderr = [];
+        return runCli(argv, { stdout: t => stdout.push(t), stderr: t => stderr.push(t), env: {} });
+    };
+    const output = () => JSON.parse(stdout.join('\n'));
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'causal-cli-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should print usage and reject unknown commands', () => {
+        expect(run('help')).toBe(EXIT_OK);
+        expect(stdout[0]).toContain('Usage: causalverify');
+        expect(run()).toBe(EXIT_USAGE);
+        expect(run('bogus')).toBe(EXIT_USAGE);
+        expect(JSON.parse(stderr[0]!).error).toBe('Unknown command: bogus');
+    });
+
+    it('should run the keygen, register, prove and verify workflow', () => {
+        const registry = join(dir, 'agent.jsonl');
+        const keyFile = join(dir, 'key.json');
+
+        expect(run('keygen')).toBe(EXIT_OK);
+        const keys = output();
+        writeFileSync(keyFile, JSON.stringify(keys));
+
+        expect(run('register', '--registry', registry, '--agent', agentId, '--action', 'request', '--payload', 'hello')).toBe(EXIT_OK);
+        const first = output();
+        expect(first.payloadHash).toBe(sha3('hello'));
+        expect(first.predecessorHash).toBeNull();
+
+        expect(run('register', '--registry', registry, '--agent', agentId, '--action=response', '--payload-hash', sha3('world'))).toBe(EXIT_OK);
+        const second = output();
+        expect(second.predecessorHash).toBe(first.eventHash);
+
+        expect(run('prove', second.causalEventId, '--registry', registry, '--key-file', keyFile, '--nonce', '0x01')).toBe(EXIT_OK);
+        const proofFile = join(dir, 'proof.json');
+        writeFileSync(proofFile, stdout.join('\n'));
+
+        expect(run('verify', proofFile, '--agent', agentId, '--pubkey', keys.publicKey, '--nonce', '0x01')).toBe(EXIT_OK);
+        expect(output().isValid).toBe(true);
+
+        expect(run('verify', proofFile, '--agent', '0xOther', '--pubkey', keys.publicKey)).toBe(EXIT_VERIFICATION_FAILED);
+        expect(output().isValid).toBe(false);
+
+        const rulesFile = join(dir, 'rules.json');
+        writeFileSync(rulesFile, JSON.stringify({ minVerificationDepth: 5 }));
+        expect(run('verify', proofFile, '--agent', agentId, '--pubkey', keys.publicKey, '--rules', rulesFile)).toBe(EXIT_VERIFICATION_FAILED);
+    });
+
+    it('should include and require full chain event data', () => {
+        const registry = join(dir, 'agent.jsonl');
+        const keys = generateKeyPair();
+        run('register', '--registry', registry, '--agent', agentId, '--action', 'request', '--payload', 'hello');
+        const event = output();
+
+        const proofFile = join(dir, 'proof.json');
+        run('prove', event.causalEventId, '--registry', registry, '--key', keys.privateKey);
+        writeFileSync(proofFile, stdout.join('\n'));
+        expect(run('verify', proofFile, '--agent', agentId, '--pubkey', keys.publicKey, '--require-full-chain')).toBe(EXIT_VERIFICATION_FAILED);
+
+        expect(run('prove', event.causalEventId, '--registry', registry, '--key', keys.privateKey, '--full-chain')).toBe(EXIT_OK);
+        expect(output().causalChain[0]).toMatchObject({ payloadHash: sha3('hello'), positionInTree: 0 });
+        writeFileSync(proofFile, stdout.join('\n'));
+        expect(run('verify', proofFile, '--agent', agentId, '--pubkey', keys.publicKey, '--require-full-chain')).toBe(EXIT_OK);
+    });
+
+    it('should generate and prove with Ed25519 keys', () => {
+        const registry = join(dir, 'agent.jsonl');
+
+        expect(run('keygen', '--scheme', 'ed25519')).toBe(EXIT_OK);
+        const keys = output();
+        expect(keys.scheme).toBe('ed25519');
+        expect(keys.publicKey).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(keys.address).toBeUndefined();
+
+        run('register', '--registry', registry, '--agent', agentId, '--action', 'request', '--payload', 'hello');
+        const event = output();
+        expect(run('prove', event.causalEventId, '--registry', registry, '--key', keys.privateKey, '--scheme', 'ed25519')).toBe(EXIT_OK);
+        const proofFile = join(dir, 'proof.json');
+        writeFileSync(proofFile, stdout.join('\n'));
+        expect(output().signatureScheme).toBe('ed25519');
+
+        const rulesFile = join(dir, 'rules.json');
+        writeFileSync(rulesFile, JSON.stringify({ minVerificationDepth: 1 }));
+        expect(run('verify', proofFile, '--agent', agentId, '--pubkey', keys.publicKey, '--rules', rulesFile)).toBe(EXIT_OK);
+
+        expect(run('keygen', '--scheme', 'rsa')).toBe(EXIT_USAGE);
+        expect(JSON.parse(stderr[0]!).error).toBe('--scheme must be one of: secp256k1, ed25519');
+    });
+
+    it('should verify address agents by recovering the signer', () => {
+        const registry = join(dir, 'agent.jsonl');
+        const keyFile = join(dir, 'key.json');
+        run('keygen');
+        const keys = output();
+        expect(keys.address).toMatch(/^0x[0-9a-fA-F]{40}$/);
+        writeFileSync(keyFile, JSON.stringify(keys));
+
+        run('register', '--registry', registry, '--agent', keys.address, '--action', 'request', '--payload', 'x');
+        const event = output();
+        run('prove', event.causalEventId, '--registry', registry, '--key-file', keyFile, '--recoverable');
+        const proofFile = join(dir, 'proof.json');
+        writeFileSync(proofFile, stdout.join('\n'));
+
+        expect(run('verify', proofFile, '--agent', keys.address.toLowerCase())).toBe(EXIT_OK);
+        expect(output().isValid).toBe(true);
+        expect(run('verify', proofFile, '--agent', agentId)).toBe(EXIT_USAGE);
+    });
+
+    it('should produce and decode header values', () => {
+        const registry = join(dir, 'agent.jsonl');
+        run('keygen');
+        const { privateKey } = output();
+        run('register', '--registry', registry, '--agent', agentId, '--action', 'request', '--payload', 'x');
+        const event = output();
+
+        stdout = [];
+        const code = runCli(['prove', event.causalEventId, '--registry', registry, '--header'], {
+            stdout: t => stdout.push(t), stderr: t => stderr.push(t), env: { CAUSALVERIFY_PRIVATE_KEY: privateKey }
+        });
+        expect(code).toBe(EXIT_OK);
+        const headers = output();
+        expect(headers['X-Causal-Proof-Schema']).toBe('causal-v1');
+
+        expect(run('decode-header', headers['X-Causal-Proof'])).toBe(EXIT_OK);
+        expect(output().targetEvent.eventHash).toBe(event.eventHash);
+        expect(run('decode-header', 'not-a-header')).toBe(EXIT_USAGE);
+
+        const env = { CAUSALVERIFY_PRIVATE_KEY: privateKey };
+        stdout = [];
+        runCli(['prove', event.causalEventId, '--registry', registry, '--header', '--proof-schema', 'causal-v1+cbor'], {
+            stdout: t => stdout.push(t), stderr: t => stderr.push(t), env
+        });
+        const compact = output();
+        expect(compact['X-Causal-Proof-Schema']).toBe('causal-v1+cbor');
+        expect(compact['X-Causal-Proof'].length).toBeLessThan(headers['X-Causal-Proof'].length);
+        expect(run('decode-header', compact['X-Causal-Proof'], '--proof-schema', 'causal-v1+cbor')).toBe(EXIT_OK);
+        expect(output().targetEvent.eventHash).toBe(event.eventHash);
+        expect(run('decode-header', compact['X-Causal-Proof'], '--proof-schema', 'causal-v2')).toBe(EXIT_USAGE);
+    });
+
+    it('should inspect registry files and validated exports', () => {
+        const registryFile = join(dir, 'agent.jsonl');
+        run('register', '--registry', registryFile, '--agent', agentId, '--action', 'request', '--payload', 'x');
+
+        expect(run('inspect', '--registry', registryFile)).toBe(EXIT_OK);
+        const exported = output();
+        expect(exported.agentId).toBe(agentId);
+        expect(stdout[0]).toContain('\n  "events"');
+
+        const exportFile = join(dir, 'export.json');
+        writeFileSync(exportFile, JSON.stringify(exported));
+        expect(run('inspect', exportFile)).toBe(EXIT_OK);
+        expect(output().tree.rootHash).toBe(exported.tree.rootHash);
+
+        exported.events[0].payloadHash = sha3('forged');
+        writeFileSync(exportFile, JSON.stringify(exported));
+        expect(run('inspect', exportFile)).toBe(EXIT_USAGE);
+        expect(JSON.parse(stderr[0]!).error).toContain('Event hash mismatch');
+    });
+
+    it('should report usage errors', () => {
+        const registry = join(dir, 'agent.jsonl');
+        expect(run('register', '--registry', registry, '--agent', agentId, '--action', 'bogus', '--payload', 'x')).toBe(EXIT_USAGE);
+        expect(run('register', '--registry', registry, '--agent', agentId, '--action', 'request')).toBe(EXIT_USAGE);
+        expect(run('register', '--registry', registry, '--action', 'request', '--payload', 'x')).toBe(EXIT_USAGE);
+        expect(run('prove', 'id', '--registry', registry, '--key', '0x01')).toBe(EXIT_USAGE);
+        expect(JSON.parse(stderr[0]!).error).toContain('is empty');
+
+        expect(run('verify', join(dir, 'missing.json'), '--agent', agentId, '--pubkey', '0x04')).toBe(EXIT_USAGE);
+        writeFileSync(join(dir, 'bad.json'), '{}');
+        expect(run('verify', join(dir, 'bad.json'), '--agent', agentId, '--pubkey', '0x04')).toBe(EXIT_USAGE);
+        expect(run('verify')).toBe(EXIT_USAGE);
+        expect(run('prove', 'id', '--registry')).toBe(EXIT_USAGE);
+    });
+});
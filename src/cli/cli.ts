@@ -0,0 +1,406 @@
+/**
+ * Command-Line Interface
+ * Operator tooling for keys, registries, proofs and verification (Node.js only)
+ * @module cli/cli
+ */
+
+import { readFileSync } from 'node:fs';
+import {
+    ActionType,
+    CausalProof,
+    RegistryExport,
+    SemanticRules,
+    SignatureSchemeId,
+    VerificationResult
+} from '../types/index.js';
+import {
+    CausalEventRegistry,
+    ProofGenerator,
+    verifyPrePayment,
+    verifyPrePaymentByAddress,
+    decodeCausalHeader,
+    encodeCausalHeader,
+    upgradeProof,
+    getSignatureScheme,
+    isSignatureSchemeId,
+    publicKeyToAddress,
+    addressesEqual,
+    sha3,
+    CAUSAL_PROOF_HEADER,
+    CAUSAL_PROOF_SCHEMA_HEADER,
+    CAUSAL_PROOF_SCHEMA_VERSION,
+    SUPPORTED_CAUSAL_PROOF_SCHEMAS,
+    isSupportedCausalProofSchema
+} from '../index.js';
+import type { CausalProofSchema } from '../index.js';
+import { FileStorageAdapter } from '../node.js';
+
+/**
+ * Exit codes returned by runCli
+ */
+export const EXIT_OK = 0;
+export const EXIT_VERIFICATION_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Output sinks used by the CLI (injectable for tests)
+ */
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    env?: Record<string, string | undefined>;
+}
+
+/**
+ * Parsed command line: positional arguments and --flags
+ */
+interface ParsedArgs {
+    positional: string[];
+    flags: Map<string, string | true>;
+}
+
+/**
+ * Error raised for invalid invocations or unreadable input
+ */
+class UsageError extends Error {}
+
+const USAGE = `Usage: causalverify <command> [options]
+
+Commands:
+  keygen [--scheme <secp256k1|ed25519>]    Generate a key pair (and, for secp256k1, its address)
+  register --registry <file> --agent <id> --action <type>
+           (--payload <text> | --payload-hash <hash>)
+           [--predecessor <hash> | --root]  Append an event to a persisted registry
+  prove <eventId> --registry <file> (--key <hex> | --key-file <file>)
+           [--depth <n>] [--nonce <nonce>] [--header] [--recoverable]
+           [--scheme <secp256k1|ed25519>] [--full-chain]
+           [--proof-schema <causal-v2|causal-v1>[+cbor]]
+                                           Generate a signed proof for an event
+  verify <proof.json> --agent <id> [--pubkey <hex>]
+           [--rules <rules.json>] [--nonce <nonce>] [--allow-legacy]
+           [--require-full-chain]
+                                           Verify a proof (exit 1 if invalid); without
+                                           --pubkey the signer is recovered and must
+                                           match an address agent ID
+  inspect (<export.json> | --registry <file>)
+                                           Pretty-print a registry export
+  decode-header <value> [--proof-schema <causal-v2|causal-v1>[+cbor]]
+                                           Decode an X-Causal-Proof header value
+
+The private key may also be supplied through CAUSALVERIFY_PRIVATE_KEY.`;
+
+const ACTION_TYPES: ActionType[] = ['request', 'response', 'error', 'state_transition'];
+
+/**
+ * Run the CLI
+ * @param argv - Arguments after the executable (e.g. process.argv.slice(2))
+ * @param io - Output sinks and environment
+ * @returns Process exit code
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO()): number {
+    const [command, ...rest] = argv;
+    const args = parseArgs(rest);
+
+    try {
+        switch (command) {
+            case 'keygen':
+                return keygen(args, io);
+            case 'register':
+                return register(args, io);
+            case 'prove':
+                return prove(args, io);
+            case 'verify':
+                return verifyCommand(args, io);
+            case 'inspect':
+                return inspect(args, io);
+            case 'decode-header':
+                return decodeHeader(args, io);
+            case undefined:
+            case 'help':
+            case '--help':
+                io.stdout(USAGE);
+                return command === undefined ? EXIT_USAGE : EXIT_OK;
+            default:
+                throw new UsageError(`Unknown command: ${command}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        io.stderr(JSON.stringify({ error: message }, null, 2));
+        if (error instanceof UsageError) {
+            io.stderr(USAGE);
+        }
+        return EXIT_USAGE;
+    }
+}
+
+function defaultIO(): CliIO {
+    return {
+        stdout: text => process.stdout.write(text + '\n'),
+        stderr: text => process.stderr.write(text + '\n'),
+        env: process.env
+    };
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+    const positional: string[] = [];
+    const flags = new Map<string, string | true>();
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+
+        const eq = arg.indexOf('=');
+        if (eq !== -1) {
+            flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+            continue;
+        }
+
+        const next = argv[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+            flags.set(arg.slice(2), next);
+            i++;
+        } else {
+            flags.set(arg.slice(2), true);
+        }
+    }
+
+    return { positional, flags };
+}
+
+function flag(args: ParsedArgs, name: string): string | undefined {
+    const value = args.flags.get(name);
+    if (value === true) {
+        throw new UsageError(`--${name} requires a value`);
+    }
+    return value;
+}
+
+function requireFlag(args: ParsedArgs, name: string): string {
+    const value = flag(args, name);
+    if (value === undefined) {
+        throw new UsageError(`Missing required option --${name}`);
+    }
+    return value;
+}
+
+function requirePositional(args: ParsedArgs, index: number, name: string): string {
+    const value = args.positional[index];
+    if (value === undefined) {
+        throw new UsageError(`Missing required argument <${name}>`);
+    }
+    return value;
+}
+
+function readJson(path: string): unknown {
+    let text: string;
+    try {
+        text = readFileSync(path, 'utf8');
+    } catch {
+        throw new UsageError(`Cannot read file: ${path}`);
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new UsageError(`File is not valid JSON: ${path}`);
+    }
+}
+
+function print(io: CliIO, value: unknown): void {
+    io.stdout(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Open a file-backed registry, inferring the agent from stored events if not given
+ */
+function openRegistry(path: string, agentId?: string): CausalEventRegistry {
+    const storage = new FileStorageAdapter(path);
+    const resolvedAgent = agentId ?? storage.load().events[0]?.agentId;
+    if (!resolvedAgent) {
+        throw new UsageError(`Registry ${path} is empty; pass --agent`);
+    }
+    return new CausalEventRegistry(resolvedAgent, { storage });
+}
+
+/**
+ * Resolve the header encoding from --proof-schema (default: causal-v1)
+ */
+function resolveProofSchema(args: ParsedArgs): CausalProofSchema {
+    const schema = flag(args, 'proof-schema') ?? CAUSAL_PROOF_SCHEMA_VERSION;
+    if (!isSupportedCausalProofSchema(schema)) {
+        throw new UsageError(`--proof-schema must be one of: ${SUPPORTED_CAUSAL_PROOF_SCHEMAS.join(', ')}`);
+    }
+    return schema;
+}
+
+/**
+ * Resolve the signature scheme from --scheme (default: secp256k1)
+ */
+function resolveScheme(args: ParsedArgs): SignatureSchemeId {
+    const scheme = flag(args, 'scheme') ?? 'secp256k1';
+    if (!isSignatureSchemeId(scheme)) {
+        throw new UsageError('--scheme must be one of: secp256k1, ed25519');
+    }
+    return scheme;
+}
+
+/**
+ * Resolve the private key from --key, --key-file or the environment
+ */
+function resolvePrivateKey(args: ParsedArgs, io: CliIO, scheme: SignatureSchemeId): string {
+    let key = flag(args, 'key') ?? io.env?.CAUSALVERIFY_PRIVATE_KEY;
+
+    const keyFile = flag(args, 'key-file');
+    if (keyFile !== undefined) {
+        let text: string;
+        try {
+            text = readFileSync(keyFile, 'utf8').trim();
+        } catch {
+            throw new UsageError(`Cannot read file: ${keyFile}`);
+        }
+        // Accept raw hex or the JSON written by `keygen`
+        key = text.startsWith('{') ? (JSON.parse(text) as { privateKey?: string }).privateKey : text;
+    }
+
+    if (!key || !getSignatureScheme(scheme).isValidPrivateKey(key)) {
+        throw new UsageError('A valid private key is required (--key, --key-file or CAUSALVERIFY_PRIVATE_KEY)');
+    }
+    return key;
+}
+
+function keygen(args: ParsedArgs, io: CliIO): number {
+    const scheme = resolveScheme(args);
+    const { privateKey, publicKey } = getSignatureScheme(scheme).generateKeyPair();
+    if (scheme === 'secp256k1') {
+        print(io, { privateKey, publicKey, address: publicKeyToAddress(publicKey) });
+    } else {
+        print(io, { scheme, privateKey, publicKey });
+    }
+    return EXIT_OK;
+}
+
+function register(args: ParsedArgs, io: CliIO): number {
+    const path = requireFlag(args, 'registry');
+    const agentId = requireFlag(args, 'agent');
+    const actionType = requireFlag(args, 'action') as ActionType;
+    if (!ACTION_TYPES.includes(actionType)) {
+        throw new UsageError(`--action must be one of: ${ACTION_TYPES.join(', ')}`);
+    }
+
+    const payload = flag(args, 'payload');
+    const payloadHash = flag(args, 'payload-hash') ?? (payload !== undefined ? sha3(payload) : undefined);
+    if (payloadHash === undefined) {
+        throw new UsageError('Missing required option --payload or --payload-hash');
+    }
+
+    const registry = openRegistry(path, agentId);
+    const predecessorHash = args.flags.has('root')
+        ? null
+        : (flag(args, 'predecessor') ?? registry.getLastEventHash());
+
+    const event = registry.registerEvent({
+        agentId,
+        actionType,
+        payloadHash,
+        predecessorHash,
+        timestamp: Date.now()
+    });
+
+    print(io, event);
+    return EXIT_OK;
+}
+
+function prove(args: ParsedArgs, io: CliIO): number {
+    const eventId = requirePositional(args, 0, 'eventId');
+    const registry = openRegistry(requireFlag(args, 'registry'), flag(args, 'agent'));
+    const scheme = resolveScheme(args);
+    const privateKey = resolvePrivateKey(args, io, scheme);
+
+    const depthFlag = flag(args, 'depth');
+    const depth = depthFlag !== undefined ? Number(depthFlag) : undefined;
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new UsageError('--depth must be a positive integer');
+    }
+
+    const proof = new ProofGenerator(registry).generateProof(eventId, privateKey, depth, {
+        nonce: flag(args, 'nonce'),
+        recoverable: args.flags.has('recoverable'),
+        scheme,
+        includeEventData: args.flags.has('full-chain'),
+        includeInclusionProofs: args.flags.has('full-chain')
+    });
+
+    if (args.flags.has('header')) {
+        const schema = resolveProofSchema(args);
+        print(io, {
+            [CAUSAL_PROOF_HEADER]: encodeCausalHeader(proof, schema),
+            [CAUSAL_PROOF_SCHEMA_HEADER]: schema
+        });
+    } else {
+        print(io, proof);
+    }
+    return EXIT_OK;
+}
+
+function verifyCommand(args: ParsedArgs, io: CliIO): number {
+    const data = readJson(requirePositional(args, 0, 'proof.json'));
+    let proof: CausalProof;
+    try {
+        // Proofs saved by older versions are upgraded to the current schema
+        proof = upgradeProof(data);
+    } catch {
+        throw new UsageError('File does not contain a valid CausalProof');
+    }
+
+    const agentId = requireFlag(args, 'agent');
+    const publicKey = flag(args, 'pubkey');
+    const rulesPath = flag(args, 'rules');
+    const rules = rulesPath !== undefined ? readJson(rulesPath) as SemanticRules : undefined;
+    const options = {
+        expectedNonce: flag(args, 'nonce'),
+        allowUnsignedTreeHead: args.flags.has('allow-legacy'),
+        requireChainEventData: args.flags.has('require-full-chain'),
+        requireChainInclusion: args.flags.has('require-full-chain')
+    };
+
+    let result: VerificationResult;
+    if (publicKey !== undefined) {
+        result = verifyPrePayment(proof, agentId, publicKey, rules, options);
+    } else if (!addressesEqual(agentId, proof.targetEvent.agentId)) {
+        throw new UsageError('--pubkey is required unless --agent is the address the proof was issued for');
+    } else {
+        result = verifyPrePaymentByAddress(proof, rules, options);
+    }
+
+    print(io, result);
+    return result.isValid ? EXIT_OK : EXIT_VERIFICATION_FAILED;
+}
+
+function inspect(args: ParsedArgs, io: CliIO): number {
+    const registryPath = flag(args, 'registry');
+    let exported: RegistryExport;
+
+    if (registryPath !== undefined) {
+        exported = openRegistry(registryPath, flag(args, 'agent')).export();
+    } else {
+        const data = readJson(requirePositional(args, 0, 'export.json')) as RegistryExport;
+        // Rebuilding validates every hash, link and root before printing
+        exported = CausalEventRegistry.fromExport(data).export();
+    }
+
+    print(io, exported);
+    return EXIT_OK;
+}
+
+function decodeHeader(args: ParsedArgs, io: CliIO): number {
+    const value = requirePositional(args, 0, 'value');
+    const schema = resolveProofSchema(args);
+    try {
+        print(io, decodeCausalHeader(value, { schema }));
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : 'Invalid header');
+    }
+    return EXIT_OK;
+}
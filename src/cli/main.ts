@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * causalverify executable entry point
+ * @module cli/main
+ */
+
+import { runCli } from './cli.js';
+
+process.exitCode = runCli(process.argv.slice(2));
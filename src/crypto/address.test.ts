@@ -0,0 +1,41 @@
+/**
+ * Ethereum Address Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isAddress, toChecksumAddress, publicKeyToAddress, addressesEqual } from './address.js';
+import { getPublicKey } from './ecdsa.js';
+
+describe('Ethereum addresses', () => {
+    it('should derive the address of a known key', () => {
+        const publicKey = getPublicKey('0x' + '1'.padStart(64, '0'));
+        expect(publicKeyToAddress(publicKey)).toBe('0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf');
+    });
+
+    it('should apply EIP-55 checksums', () => {
+        for (const address of [
+            '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+            '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+            '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb'
+        ]) {
+            expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+        }
+    });
+
+    it('should validate and compare addresses', () => {
+        expect(isAddress('0x7e5f4552091a69125d5dfcb7b8c2659029395bdf')).toBe(true);
+        expect(isAddress('0x7e5f')).toBe(false);
+        expect(isAddress('7e5f4552091a69125d5dfcb7b8c2659029395bdf')).toBe(false);
+        expect(addressesEqual(
+            '0x7e5f4552091a69125d5dfcb7b8c2659029395bdf',
+            '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf'
+        )).toBe(true);
+        expect(addressesEqual('0xAgent', '0xagent')).toBe(false);
+    });
+
+    it('should reject malformed input', () => {
+        expect(() => toChecksumAddress('0x123')).toThrow('Invalid address');
+        expect(() => publicKeyToAddress('0x02' + '0'.repeat(64))).toThrow('Invalid public key format');
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * Ethereum Address Derivation
+ * Keccak-256 based addresses with EIP-55 checksums
+ * @module crypto/address
+ */
+
+import { keccak256 } from './sha3.js';
+
+/**
+ * Check whether a string is a 20-byte hex address (any letter case)
+ */
+export function isAddress(value: string): boolean {
+    return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Apply the EIP-55 mixed-case checksum to an address
+ * @param address - 20-byte hex address
+ * @returns Checksummed address
+ * @throws Error if the input is not an address
+ */
+export function toChecksumAddress(address: string): string {
+    if (!isAddress(address)) {
+        throw new Error(`Invalid address: ${address}`);
+    }
+    const lower = address.slice(2).toLowerCase();
+    const hash = keccak256(lower).slice(2);
+
+    let result = '0x';
+    for (let i = 0; i < lower.length; i++) {
+        result += parseInt(hash[i]!, 16) >= 8 ? lower[i]!.toUpperCase() : lower[i]!;
+    }
+    return result;
+}
+
+/**
+ * Derive the Ethereum address of a secp256k1 public key
+ * (last 20 bytes of the Keccak-256 hash of the uncompressed point, without its 0x04 prefix)
+ * @param publicKey - Uncompressed public key (0x04 + x + y)
+ * @returns EIP-55 checksummed address
+ * @throws Error if the public key is malformed
+ */
+export function publicKeyToAddress(publicKey: string): string {
+    const key = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
+    if (key.length !== 130 || !key.startsWith('04') || !/^[0-9a-fA-F]+$/.test(key)) {
+        throw new Error('Invalid public key format');
+    }
+
+    const bytes = new Uint8Array(64);
+    for (let i = 0; i < 64; i++) {
+        bytes[i] = parseInt(key.slice(2 + i * 2, 4 + i * 2), 16);
+    }
+    return toChecksumAddress('0x' + keccak256(bytes).slice(-40));
+}
+
+/**
+ * Compare two addresses ignoring checksum letter case
+ */
+export function addressesEqual(a: string, b: string): boolean {
+    return isAddress(a) && isAddress(b) && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,105 @@
+/**
+ * ECDSA secp256k1 Benchmarks
+ * Compares the Jacobian/table/Shamir implementation with the previous
+ * affine double-and-add arithmetic (kept here as a reference)
+ * Run with: npm run bench
+ */
+
+import { bench, describe } from 'vitest';
+import { getPublicKey, sign, verify } from './ecdsa.js';
+import { sha3 } from './sha3.js';
+
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const G = {
+    x: BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+    y: BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8')
+};
+
+type Point = { x: bigint; y: bigint };
+const INFINITY: Point = { x: 0n, y: 0n };
+
+function modPow(base: bigint, exp: bigint, mod: bigint): bigint {
+    let res = 1n;
+    base %= mod;
+    while (exp > 0n) {
+        if (exp & 1n) res = (res * base) % mod;
+        base = (base * base) % mod;
+        exp >>= 1n;
+    }
+    return res;
+}
+
+const inv = (a: bigint, m: bigint) => modPow(((a % m) + m) % m, m - 2n, m);
+
+function affineAdd(p1: Point, p2: Point): Point {
+    if (p1.x === 0n && p1.y === 0n) return p2;
+    if (p2.x === 0n && p2.y === 0n) return p1;
+    let s: bigint;
+    if (p1.x === p2.x) {
+        if (p1.y !== p2.y) return INFINITY;
+        s = (3n * p1.x * p1.x * inv(2n * p1.y, P)) % P;
+    } else {
+        s = ((p2.y - p1.y) * inv(p2.x - p1.x, P)) % P;
+    }
+    const x3 = (((s * s - p1.x - p2.x) % P) + P) % P;
+    const y3 = (((s * (p1.x - x3) - p1.y) % P) + P) % P;
+    return { x: x3, y: y3 };
+}
+
+function affineMul(k: bigint, point: Point): Point {
+    let result = INFINITY;
+    let base = point;
+    while (k > 0n) {
+        if (k & 1n) result = affineAdd(result, base);
+        base = affineAdd(base, base);
+        k >>= 1n;
+    }
+    return result;
+}
+
+function parse(publicKey: string): Point {
+    return { x: BigInt('0x' + publicKey.slice(4, 68)), y: BigInt('0x' + publicKey.slice(68)) };
+}
+
+function legacyVerify(messageHash: string, signature: string, publicKey: string): boolean {
+    const z = BigInt(messageHash);
+    const r = BigInt('0x' + signature.slice(2, 66));
+    const s = BigInt('0x' + signature.slice(66, 130));
+    const sInv = inv(s, N);
+    const R = affineAdd(affineMul((z * sInv) % N, G), affineMul((r * sInv) % N, parse(publicKey)));
+    return R.x % N === r;
+}
+
+const privateKey = '0x' + 'c0ffee'.repeat(10) + 'abcd';
+const publicKey = getPublicKey(privateKey);
+const message = sha3('benchmark message');
+const signature = sign(message, privateKey);
+const scalar = BigInt(privateKey);
+
+describe('public key derivation', () => {
+    bench('affine double-and-add (previous)', () => {
+        affineMul(scalar, G);
+    });
+    bench('Montgomery ladder, Jacobian', () => {
+        getPublicKey(privateKey);
+    });
+});
+
+describe('sign', () => {
+    bench('affine k*G (previous)', () => {
+        affineMul(scalar, G);
+    });
+    bench('precomputed generator table', () => {
+        sign(message, privateKey);
+    });
+});
+
+describe('verify', () => {
+    bench('two affine multiplications (previous)', () => {
+        legacyVerify(message, signature, publicKey);
+    });
+    bench("Shamir's trick, Jacobian", () => {
+        verify(message, signature, publicKey);
+    });
+});
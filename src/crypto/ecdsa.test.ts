@@ -8,11 +8,16 @@ import {
     sign,
     verify,
     recoverPublicKey,
+    recoverSigner,
+    signRecoverable,
+    isRecoverableSignature,
+    getPublicKey,
     isValidPrivateKey,
     isValidPublicKey,
     generatePrivateKey
 } from './ecdsa.js';
 import { sha3 } from './sha3.js';
+import { sha256 } from './sha256.js';
 
 describe('ECDSA secp256k1', () => {
     describe('comprehensive coverage', () => {
@@ -89,4 +94,122 @@ describe('ECDSA secp256k1', () => {
             expect(verify(msg, highSig, publicKey)).toBe(false);
         });
     });
+
+    describe('recoverable signatures', () => {
+        it('should recover exactly the signing key from r||s||v', () => {
+            for (let i = 0; i < 4; i++) {
+                const { privateKey, publicKey } = generateKeyPair();
+                const msg = sha3(`message ${i}`);
+                const sig = signRecoverable(msg, privateKey);
+
+                expect(sig).toMatch(/^0x[0-9a-f]{128}(1b|1c)$/);
+                expect(isRecoverableSignature(sig)).toBe(true);
+                expect(recoverSigner(msg, sig)).toBe(publicKey);
+                expect(verify(msg, sig, publicKey)).toBe(true);
+            }
+        });
+
+        it('should accept raw recovery ids and reject malformed recovery bytes', () => {
+            const privateKey = '0x' + '1'.padStart(64, '0');
+            const msg = sha3('v');
+            const sig = signRecoverable(msg, privateKey);
+            const v = parseInt(sig.slice(-2), 16);
+            const raw = sig.slice(0, -2) + (v - 27).toString(16).padStart(2, '0');
+
+            expect(recoverSigner(msg, raw)).toBe(getPublicKey(privateKey));
+            expect(recoverSigner(msg, sig.slice(0, -2) + '05')).toBeNull();
+            expect(recoverSigner(msg, sign(msg, privateKey))).toBeNull();
+            expect(isRecoverableSignature(sign(msg, privateKey))).toBe(false);
+        });
+
+        it('should reject high-S recoverable signatures', () => {
+            const { privateKey } = generateKeyPair();
+            const msg = sha3('high-s');
+            const sig = signRecoverable(msg, privateKey);
+            const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+            const s = BigInt('0x' + sig.slice(66, 130));
+            const highSig = sig.slice(0, 66) + (N - s).toString(16).padStart(64, '0') + sig.slice(-2);
+            expect(recoverSigner(msg, highSig)).toBeNull();
+        });
+    });
+
+    describe('RFC 6979 deterministic signing', () => {
+        // Published secp256k1 / SHA-256 known-answer vectors (message hashed with SHA-256)
+        const vectors = [
+            {
+                privateKey: '0x' + '1'.padStart(64, '0'),
+                message: 'Satoshi Nakamoto',
+                signature: '0x934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8' +
+                    '2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5'
+            },
+            {
+                privateKey: '0x' + '1'.padStart(64, '0'),
+                message: 'All those moments will be lost in time, like tears in rain. Time to die...',
+                signature: '0x8600dbd41e348fe5c9465ab92d23e3db8b98b873beecd930736488696438cb6b' +
+                    '547fe64427496db33bf66019dacbf0039c04199abb0122918601db38a72cfc21'
+            }
+        ];
+
+        it('should match the known-answer vectors', () => {
+            for (const { privateKey, message, signature } of vectors) {
+                const hash = sha256(message);
+                expect(sign(hash, privateKey)).toBe(signature);
+                expect(verify(hash, signature, getPublicKey(privateKey))).toBe(true);
+            }
+        });
+
+        it('should be reproducible without an RNG', () => {
+            const privateKey = '0x' + 'ab'.repeat(32);
+            const msg = sha3('deterministic');
+            const originalCrypto = globalThis.crypto;
+            // @ts-ignore
+            delete globalThis.crypto;
+            try {
+                expect(sign(msg, privateKey)).toBe(sign(msg, privateKey));
+                expect(signRecoverable(msg, privateKey).slice(0, 130)).toBe(sign(msg, privateKey));
+            } finally {
+                globalThis.crypto = originalCrypto;
+            }
+        });
+
+        it('should still support random nonces', () => {
+            const { privateKey, publicKey } = generateKeyPair();
+            const msg = sha3('random');
+            const a = sign(msg, privateKey, { nonce: 'random' });
+            const b = sign(msg, privateKey, { nonce: 'random' });
+            expect(a).not.toBe(b);
+            expect(verify(msg, a, publicKey)).toBe(true);
+            expect(recoverSigner(msg, signRecoverable(msg, privateKey, { nonce: 'random' }))).toBe(publicKey);
+        });
+    });
+
+    describe('curve arithmetic', () => {
+        const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+        const G = '0x04' +
+            '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+            '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+
+        it('should derive known multiples of the generator', () => {
+            expect(getPublicKey('0x1')).toBe(G);
+            expect(getPublicKey('0x2')).toBe('0x04' +
+                'c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5' +
+                '1ae168fea63dc339a3c58419466ceaeef7f632653266d0e1236431a950cfe52a');
+            // (n - 1) * G = -G
+            const negG = getPublicKey('0x' + (N - 1n).toString(16));
+            expect(negG.slice(0, 68)).toBe(G.slice(0, 68));
+            expect(negG).not.toBe(G);
+        });
+
+        it('should agree between signing, verification and recovery paths', () => {
+            // Signing uses the generator table, key derivation the ladder,
+            // verification and recovery Shamir's trick
+            for (const privateKey of ['0x1', '0x' + (N - 1n).toString(16), '0x' + 'f'.repeat(32)]) {
+                const publicKey = getPublicKey(privateKey);
+                const msg = sha3(privateKey);
+                const sig = signRecoverable(msg, privateKey);
+                expect(verify(msg, sig, publicKey)).toBe(true);
+                expect(recoverSigner(msg, sig)).toBe(publicKey);
+            }
+        });
+    });
 });
@@ -6,6 +6,7 @@
  */
 
 import { sha3 } from './sha3.js';
+import { hmacSha256 } from './sha256.js';
 
 // secp256k1 curve parameters
 const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
@@ -57,43 +58,216 @@ function hexToBigInt(hex: string): bigint {
 }
 
 /**
- * Point addition on secp256k1
+ * Reduce modulo p into [0, p)
  */
-function pointAdd(p1: Point, p2: Point): Point {
-    if (isInfinity(p1)) return p2;
-    if (isInfinity(p2)) return p1;
-
-    if (p1.x === p2.x) {
-        if (p1.y !== p2.y) return INFINITY;
-        // Point doubling
-        const s = (3n * p1.x * p1.x * modInverse(2n * p1.y, P)) % P;
-        const x3 = ((s * s - 2n * p1.x) % P + P) % P;
-        const y3 = ((s * (p1.x - x3) - p1.y) % P + P) % P;
-        return { x: x3, y: y3 };
+function mod(a: bigint, m: bigint = P): bigint {
+    const r = a % m;
+    return r < 0n ? r + m : r;
+}
+
+/**
+ * Point in Jacobian coordinates (x = X / Z^2, y = Y / Z^3)
+ * Additions and doublings need no modular inversion; Z = 0 is the point at infinity
+ */
+interface JacobianPoint {
+    X: bigint;
+    Y: bigint;
+    Z: bigint;
+}
+
+const J_INFINITY: JacobianPoint = { X: 1n, Y: 1n, Z: 0n };
+
+function toJacobian(p: Point): JacobianPoint {
+    return isInfinity(p) ? J_INFINITY : { X: p.x, Y: p.y, Z: 1n };
+}
+
+function toAffine(p: JacobianPoint): Point {
+    if (p.Z === 0n) return INFINITY;
+    const zInv = modInverse(p.Z, P);
+    const zInv2 = (zInv * zInv) % P;
+    return { x: (p.X * zInv2) % P, y: (((p.Y * zInv2) % P) * zInv) % P };
+}
+
+/**
+ * Point doubling (dbl-2009-l, curve parameter a = 0)
+ */
+function jacobianDouble(p: JacobianPoint): JacobianPoint {
+    if (p.Z === 0n || p.Y === 0n) return J_INFINITY;
+    const A = (p.X * p.X) % P;
+    const B = (p.Y * p.Y) % P;
+    const C = (B * B) % P;
+    const xb = p.X + B;
+    const D = mod(2n * (xb * xb - A - C));
+    const E = (3n * A) % P;
+    const F = (E * E) % P;
+    const X3 = mod(F - 2n * D);
+    const Y3 = mod(E * (D - X3) - 8n * C);
+    const Z3 = (2n * p.Y * p.Z) % P;
+    return { X: X3, Y: Y3, Z: Z3 };
+}
+
+/**
+ * Point addition (add-2007-bl)
+ */
+function jacobianAdd(p: JacobianPoint, q: JacobianPoint): JacobianPoint {
+    if (p.Z === 0n) return q;
+    if (q.Z === 0n) return p;
+
+    const Z1Z1 = (p.Z * p.Z) % P;
+    const Z2Z2 = (q.Z * q.Z) % P;
+    const U1 = (p.X * Z2Z2) % P;
+    const U2 = (q.X * Z1Z1) % P;
+    const S1 = (((p.Y * q.Z) % P) * Z2Z2) % P;
+    const S2 = (((q.Y * p.Z) % P) * Z1Z1) % P;
+    const H = mod(U2 - U1);
+    const r = mod(2n * (S2 - S1));
+
+    if (H === 0n) {
+        return r === 0n ? jacobianDouble(p) : J_INFINITY;
     }
 
-    // Point addition
-    const s = ((p2.y - p1.y) * modInverse(p2.x - p1.x, P)) % P;
-    const x3 = ((s * s - p1.x - p2.x) % P + P) % P;
-    const y3 = ((s * (p1.x - x3) - p1.y) % P + P) % P;
-    return { x: x3, y: y3 };
+    const h2 = 2n * H;
+    const I = (h2 * h2) % P;
+    const J = (H * I) % P;
+    const V = (U1 * I) % P;
+    const X3 = mod(r * r - J - 2n * V);
+    const Y3 = mod(r * (V - X3) - 2n * S1 * J);
+    const zz = p.Z + q.Z;
+    const Z3 = mod((zz * zz - Z1Z1 - Z2Z2) * H);
+    return { X: X3, Y: Y3, Z: Z3 };
 }
 
 /**
- * Point multiplication (scalar multiplication) on secp256k1
+ * Normalize many Jacobian points with a single inversion (Montgomery's trick)
  */
-function pointMul(k: bigint, P: Point): Point {
-    let result = INFINITY;
-    let base = P;
-    let scalar = k % N;
-    while (scalar > 0n) {
-        if (scalar % 2n === 1n) result = pointAdd(result, base);
-        base = pointAdd(base, base);
-        scalar = scalar / 2n;
+function batchToAffine(points: JacobianPoint[]): Point[] {
+    const prefix: bigint[] = [];
+    let acc = 1n;
+    for (const p of points) {
+        prefix.push(acc);
+        acc = (acc * p.Z) % P;
+    }
+
+    let inv = modInverse(acc, P);
+    const result: Point[] = new Array<Point>(points.length);
+    for (let i = points.length - 1; i >= 0; i--) {
+        const p = points[i]!;
+        const zInv = (inv * prefix[i]!) % P;
+        inv = (inv * p.Z) % P;
+        const zInv2 = (zInv * zInv) % P;
+        result[i] = { x: (p.X * zInv2) % P, y: (((p.Y * zInv2) % P) * zInv) % P };
     }
     return result;
 }
 
+/**
+ * Scalar multiplication with a Montgomery ladder
+ *
+ * Every one of the 256 steps performs exactly one addition and one doubling,
+ * whatever the scalar bits, so the operation sequence does not reveal the key.
+ * (BigInt arithmetic itself is not constant-time; this removes the
+ * data-dependent control flow of double-and-add.)
+ */
+function ladderMultiply(k: bigint, point: Point): Point {
+    const scalar = k % N;
+    let r0 = J_INFINITY;
+    let r1 = toJacobian(point);
+
+    for (let i = 255; i >= 0; i--) {
+        const bit = (scalar >> BigInt(i)) & 1n;
+        const sum = jacobianAdd(r0, r1);
+        if (bit === 1n) {
+            r0 = sum;
+            r1 = jacobianDouble(r1);
+        } else {
+            r1 = sum;
+            r0 = jacobianDouble(r0);
+        }
+    }
+    return toAffine(r0);
+}
+
+/** Bits per window of the generator table */
+const G_WINDOW = 4;
+const G_WINDOWS = 256 / G_WINDOW;
+const G_WINDOW_SIZE = 1 << G_WINDOW;
+
+/** table[i][j - 1] = j * 16^i * G for j in 1..15, built on first use */
+let generatorTable: JacobianPoint[][] | null = null;
+
+function getGeneratorTable(): JacobianPoint[][] {
+    if (generatorTable) return generatorTable;
+
+    const rows: JacobianPoint[][] = [];
+    let base = toJacobian(G);
+    for (let i = 0; i < G_WINDOWS; i++) {
+        const row: JacobianPoint[] = [base];
+        for (let j = 2; j < G_WINDOW_SIZE; j++) {
+            row.push(jacobianAdd(row[row.length - 1]!, base));
+        }
+        rows.push(row);
+        base = jacobianAdd(row[row.length - 1]!, base);
+    }
+
+    // Affine entries (Z = 1) keep every later addition cheap
+    const affine = batchToAffine(rows.flat());
+    generatorTable = rows.map((row, i) =>
+        row.map((_, j) => toJacobian(affine[i * (G_WINDOW_SIZE - 1) + j]!))
+    );
+    return generatorTable;
+}
+
+/**
+ * Multiply the generator by a secret scalar using the precomputed table
+ *
+ * Each 4-bit window scans its whole table row and performs one addition;
+ * zero windows add into a discarded accumulator, so the number and order
+ * of operations do not depend on the scalar.
+ */
+function multiplyGenerator(k: bigint): Point {
+    const table = getGeneratorTable();
+    const scalar = k % N;
+    let acc = J_INFINITY;
+    let dummy = J_INFINITY;
+
+    for (let i = 0; i < G_WINDOWS; i++) {
+        const digit = Number((scalar >> BigInt(i * G_WINDOW)) & BigInt(G_WINDOW_SIZE - 1));
+        const row = table[i]!;
+        let selected = row[0]!;
+        for (let j = 1; j < G_WINDOW_SIZE; j++) {
+            if (j === digit) selected = row[j - 1]!;
+        }
+        if (digit === 0) {
+            dummy = jacobianAdd(dummy, selected);
+        } else {
+            acc = jacobianAdd(acc, selected);
+        }
+    }
+    return toAffine(acc);
+}
+
+/**
+ * Compute u1 * G + u2 * Q with Shamir's trick (public scalars only)
+ * One shared doubling chain with a 4-entry table {G, Q, G + Q}
+ */
+function multiplyAddGenerator(u1: bigint, u2: bigint, point: Point): Point {
+    const g = toJacobian(G);
+    const q = toJacobian(point);
+    const table = [J_INFINITY, g, q, jacobianAdd(g, q)];
+    const a = u1 % N;
+    const b = u2 % N;
+
+    let acc = J_INFINITY;
+    for (let i = 255; i >= 0; i--) {
+        acc = jacobianDouble(acc);
+        const index = Number(((a >> BigInt(i)) & 1n) | (((b >> BigInt(i)) & 1n) << 1n));
+        if (index !== 0) {
+            acc = jacobianAdd(acc, table[index]!);
+        }
+    }
+    return toAffine(acc);
+}
+
 /**
  * Generate a cryptographically secure private key
  */
@@ -116,7 +290,7 @@ export function generatePrivateKey(): string {
  */
 export function getPublicKey(privateKey: string): string {
     const k = hexToBigInt(privateKey);
-    const pubPoint = pointMul(k, G);
+    const pubPoint = ladderMultiply(k, G);
     const xHex = pubPoint.x.toString(16).padStart(64, '0');
     const yHex = pubPoint.y.toString(16).padStart(64, '0');
     return '0x04' + xHex + yHex;
@@ -132,46 +306,169 @@ export function generateKeyPair(): { privateKey: string; publicKey: string } {
 }
 
 /**
- * Sign a message hash
- * @param messageHash - SHA3-256 hash of the message
- * @param privateKey - Private key in hex format
- * @returns 64-byte signature in hex format (r + s)
+ * Options for signing
+ */
+export interface SignOptions {
+    /**
+     * How the per-signature nonce k is chosen:
+     * 'deterministic' (default) derives it from key and hash per RFC 6979 with
+     * HMAC-SHA-256, so no RNG is needed and signatures are reproducible;
+     * 'random' draws it from crypto.getRandomValues()
+     */
+    nonce?: 'deterministic' | 'random';
+}
+
+/**
+ * Signature components with the recovery id of the nonce point R
  */
-export function sign(messageHash: string, privateKey: string): string {
+interface RawSignature {
+    r: bigint;
+    s: bigint;
+    /** Bit 0: parity of R.y; bit 1: R.x overflowed the curve order */
+    recoveryId: number;
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+    const hex = value.toString(16).padStart(64, '0');
+    const bytes = new Uint8Array(32);
+    for (let i = 0; i < 32; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+    let value = 0n;
+    for (const byte of bytes) {
+        value = (value << 8n) | BigInt(byte);
+    }
+    return value;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * RFC 6979 section 3.2 nonce candidates (HMAC-SHA-256, qlen = hlen = 256)
+ * @param d - Private key scalar
+ * @param z - Message hash as an integer
+ */
+function* deterministicNonces(d: bigint, z: bigint): Generator<bigint> {
+    const x = bigIntToBytes(d);
+    const h1 = bigIntToBytes(z % N); // bits2octets
+    let V: Uint8Array = new Uint8Array(32).fill(0x01);
+    let K: Uint8Array = new Uint8Array(32).fill(0x00);
+
+    K = hmacSha256(K, concatBytes(V, Uint8Array.of(0x00), x, h1));
+    V = hmacSha256(K, V);
+    K = hmacSha256(K, concatBytes(V, Uint8Array.of(0x01), x, h1));
+    V = hmacSha256(K, V);
+
+    while (true) {
+        V = hmacSha256(K, V);
+        const k = bytesToBigInt(V);
+        if (k > 0n && k < N) {
+            yield k;
+        }
+        K = hmacSha256(K, concatBytes(V, Uint8Array.of(0x00)));
+        V = hmacSha256(K, V);
+    }
+}
+
+function* randomNonces(): Generator<bigint> {
+    while (true) {
+        const k = hexToBigInt(generatePrivateKey());
+        if (k > 0n && k < N) {
+            yield k;
+        }
+    }
+}
+
+/**
+ * Produce a low-S signature and the recovery id matching the returned s
+ */
+function signRaw(messageHash: string, privateKey: string, options: SignOptions): RawSignature {
     const z = hexToBigInt(messageHash);
     const d = hexToBigInt(privateKey);
+    const nonces = options.nonce === 'random' ? randomNonces() : deterministicNonces(d, z);
 
     let r = 0n;
     let s = 0n;
+    let recoveryId = 0;
 
     while (r === 0n || s === 0n) {
-        const k = hexToBigInt(generatePrivateKey());
-        const R = pointMul(k, G);
+        const k = nonces.next().value as bigint;
+        const R = multiplyGenerator(k);
         r = R.x % N;
         if (r === 0n) continue;
 
         const kInv = modInverse(k, N);
         s = (kInv * (z + r * d)) % N;
+        recoveryId = Number(R.y & 1n) | (R.x >= N ? 2 : 0);
 
-        // Ensure Low-S (BIP-62)
+        // Ensure Low-S (BIP-62); negating s mirrors R, flipping its parity
         if (s > N / 2n) {
             s = N - s;
+            recoveryId ^= 1;
         }
     }
 
+    return { r, s, recoveryId };
+}
+
+/**
+ * Sign a message hash
+ * @param messageHash - SHA3-256 hash of the message
+ * @param privateKey - Private key in hex format
+ * @param options - Nonce generation mode (default: RFC 6979 deterministic)
+ * @returns 64-byte signature in hex format (r + s)
+ */
+export function sign(messageHash: string, privateKey: string, options: SignOptions = {}): string {
+    const { r, s } = signRaw(messageHash, privateKey, options);
     const rHex = r.toString(16).padStart(64, '0');
     const sHex = s.toString(16).padStart(64, '0');
     return '0x' + rHex + sHex;
 }
 
+/**
+ * Sign a message hash with a recoverable signature
+ * @param messageHash - Hash of the message
+ * @param privateKey - Private key in hex format
+ * @param options - Nonce generation mode (default: RFC 6979 deterministic)
+ * @returns 65-byte signature in hex format (r + s + v, v = 27 + recovery id)
+ */
+export function signRecoverable(messageHash: string, privateKey: string, options: SignOptions = {}): string {
+    const { r, s, recoveryId } = signRaw(messageHash, privateKey, options);
+    const rHex = r.toString(16).padStart(64, '0');
+    const sHex = s.toString(16).padStart(64, '0');
+    const vHex = (27 + recoveryId).toString(16).padStart(2, '0');
+    return '0x' + rHex + sHex + vHex;
+}
+
+/**
+ * Check whether a signature carries a recovery byte (65 bytes)
+ */
+export function isRecoverableSignature(signature: string): boolean {
+    const sig = signature.startsWith('0x') ? signature.slice(2) : signature;
+    return sig.length === 130 && /^[0-9a-fA-F]+$/.test(sig);
+}
+
 /**
  * Verify a signature
+ * Accepts 64-byte (r + s) and 65-byte recoverable (r + s + v) signatures
  */
 export function verify(messageHash: string, signature: string, publicKey: string): boolean {
     try {
         const z = hexToBigInt(messageHash);
         let sig = signature.startsWith('0x') ? signature.slice(2) : signature;
-        if (sig.length !== 128) return false;
+        if (sig.length !== 128 && sig.length !== 130) return false;
 
         const r = BigInt('0x' + sig.slice(0, 64));
         const s = BigInt('0x' + sig.slice(64, 128));
@@ -186,9 +483,7 @@ export function verify(messageHash: string, signature: string, publicKey: string
         const u1 = (z * sInv) % N;
         const u2 = (r * sInv) % N;
 
-        const p1 = pointMul(u1, G);
-        const p2 = pointMul(u2, point);
-        const R = pointAdd(p1, p2);
+        const R = multiplyAddGenerator(u1, u2, point);
 
         if (isInfinity(R)) return false;
         return (R.x % N) === r;
@@ -199,26 +494,32 @@ export function verify(messageHash: string, signature: string, publicKey: string
 
 /**
  * Recover public key from signature
+ * @param messageHash - Signed hash
+ * @param signature - 64-byte (r + s) signature; the v byte of a 65-byte signature is ignored
+ * @param recoveryId - Recovery id (0-3) selecting the nonce point R
+ * @returns Uncompressed public key or null if recovery fails
  */
 export function recoverPublicKey(
     messageHash: string,
     signature: string,
-    recoveryId: 0 | 1 = 0
+    recoveryId: 0 | 1 | 2 | 3 = 0
 ): string | null {
-    if (recoveryId !== 0 && recoveryId !== 1) return null;
+    if (![0, 1, 2, 3].includes(recoveryId)) return null;
     try {
         const z = hexToBigInt(messageHash);
         let sig = signature.startsWith('0x') ? signature.slice(2) : signature;
-        if (sig.length !== 128) return null;
+        if (sig.length !== 128 && sig.length !== 130) return null;
 
         const r = BigInt('0x' + sig.slice(0, 64));
         const s = BigInt('0x' + sig.slice(64, 128));
+        if (r <= 0n || r >= N || s <= 0n || s >= N) return null;
 
-        const x = r;
+        const x = recoveryId >= 2 ? r + N : r;
+        if (x >= P) return null;
         const y2 = (modPow(x, 3n, P) + 7n) % P;
         let y = modPow(y2, (P + 1n) / 4n, P);
 
-        if ((y & 1n) !== BigInt(recoveryId)) y = P - y;
+        if ((y & 1n) !== BigInt(recoveryId & 1)) y = P - y;
 
         const R = { x, y };
         // Check if R is on curve
@@ -228,7 +529,7 @@ export function recoverPublicKey(
         const u1 = (((N - z) % N) * rInv) % N;
         const u2 = (s * rInv) % N;
 
-        const pubPoint = pointAdd(pointMul(u1, G), pointMul(u2, R));
+        const pubPoint = multiplyAddGenerator(u1, u2, R);
         if (isInfinity(pubPoint)) return null;
 
         const xHex = pubPoint.x.toString(16).padStart(64, '0');
@@ -239,6 +540,27 @@ export function recoverPublicKey(
     }
 }
 
+/**
+ * Recover the signer of a 65-byte recoverable signature
+ * The recovery byte selects the key, so the result is unambiguous
+ * @param messageHash - Signed hash
+ * @param signature - 65-byte signature (r + s + v, v in 0-3 or 27-30)
+ * @returns Uncompressed public key or null if the signature is malformed or high-S
+ */
+export function recoverSigner(messageHash: string, signature: string): string | null {
+    if (!isRecoverableSignature(signature)) return null;
+    const sig = signature.startsWith('0x') ? signature.slice(2) : signature;
+
+    const v = parseInt(sig.slice(128, 130), 16);
+    const recoveryId = v >= 27 ? v - 27 : v;
+    if (recoveryId < 0 || recoveryId > 3) return null;
+
+    // BIP-62: only low-S signatures are produced, so only they are recovered
+    if (BigInt('0x' + sig.slice(64, 128)) > N / 2n) return null;
+
+    return recoverPublicKey(messageHash, sig.slice(0, 128), recoveryId as 0 | 1 | 2 | 3);
+}
+
 function parsePublicKey(pubKey: string): Point {
     const k = pubKey.startsWith('0x') ? pubKey.slice(2) : pubKey;
     if (k.length !== 130 || !k.startsWith('04')) throw new Error('Invalid public key format');
@@ -0,0 +1,84 @@
+/**
+ * Ed25519 Tests
+ * Validates against RFC 8032 section 7.1 test vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    generateKeyPair,
+    getPublicKey,
+    sign,
+    verify,
+    isValidPrivateKey,
+    isValidPublicKey
+} from './ed25519.js';
+
+describe('Ed25519', () => {
+    it('should reproduce RFC 8032 test 1 (empty message)', () => {
+        const secret = '0x9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+        const publicKey = '0xd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+        const signature =
+            '0xe5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e06522490155' +
+            '5fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b';
+
+        expect(getPublicKey(secret)).toBe(publicKey);
+        expect(sign('0x', secret)).toBe(signature);
+        expect(verify('0x', signature, publicKey)).toBe(true);
+    });
+
+    it('should reproduce RFC 8032 test 2 (one-byte message)', () => {
+        const secret = '0x4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb';
+        const publicKey = '0x3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c';
+        const signature =
+            '0x92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+            '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00';
+
+        expect(getPublicKey(secret)).toBe(publicKey);
+        expect(sign('0x72', secret)).toBe(signature);
+        expect(verify('0x72', signature, publicKey)).toBe(true);
+    });
+
+    it('should reject tampered messages, signatures and keys', () => {
+        const { privateKey, publicKey } = generateKeyPair();
+        const message = '0x' + 'ab'.repeat(32);
+        const signature = sign(message, privateKey);
+
+        expect(verify(message, signature, publicKey)).toBe(true);
+        expect(verify('0x' + 'ac'.repeat(32), signature, publicKey)).toBe(false);
+        const flipped = (parseInt(signature.slice(66, 68), 16) ^ 1).toString(16).padStart(2, '0');
+        expect(verify(message, signature.slice(0, 66) + flipped + signature.slice(68), publicKey)).toBe(false);
+        expect(verify(message, signature, generateKeyPair().publicKey)).toBe(false);
+        expect(verify(message, signature.slice(0, 66), publicKey)).toBe(false);
+        expect(verify(message, 'not hex', publicKey)).toBe(false);
+    });
+
+    it('should reject non-canonical S values', () => {
+        const { privateKey, publicKey } = generateKeyPair();
+        const message = '0x01';
+        const signature = sign(message, privateKey);
+
+        // Add the group order L to S (little-endian) to get an equivalent but non-canonical scalar
+        const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+        let s = 0n;
+        const sBytes = signature.slice(66);
+        for (let i = 31; i >= 0; i--) s = (s << 8n) | BigInt(parseInt(sBytes.slice(i * 2, i * 2 + 2), 16));
+        s += L;
+        let sHex = '';
+        for (let i = 0; i < 32; i++) {
+            sHex += Number((s >> BigInt(8 * i)) & 0xffn).toString(16).padStart(2, '0');
+        }
+
+        expect(verify(message, signature.slice(0, 66) + sHex, publicKey)).toBe(false);
+    });
+
+    it('should validate key formats', () => {
+        const { privateKey, publicKey } = generateKeyPair();
+        expect(isValidPrivateKey(privateKey)).toBe(true);
+        expect(isValidPublicKey(publicKey)).toBe(true);
+        expect(isValidPrivateKey('0x1234')).toBe(false);
+        expect(isValidPublicKey('0x04' + '11'.repeat(64))).toBe(false);
+        // y = p is not a canonical encoding
+        expect(isValidPublicKey('0xedffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff7f')).toBe(false);
+        expect(() => getPublicKey('0x1234')).toThrow('expected 32 bytes');
+    });
+});
@@ -0,0 +1,301 @@
+/**
+ * Ed25519 Implementation
+ * Pure JavaScript implementation of RFC 8032 (PureEdDSA over edwards25519) using BigInt
+ * @module crypto/ed25519
+ */
+
+import { sha512Bytes } from './sha512.js';
+
+// edwards25519 curve parameters: -x^2 + y^2 = 1 + d x^2 y^2 over GF(2^255 - 19)
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+const D = BigInt('0x52036cee2b6ffe738cc740797779e89800700a4d4141d8ab75eb4dca135978a3');
+const D2 = (2n * D) % P;
+const SQRT_M1 = BigInt('0x2b8324804fc1df0b2b4d00993dfbd7a72f431806ad2fe478c4ee1b274a0ea0b0');
+
+/**
+ * Point in extended coordinates (x = X / Z, y = Y / Z, x * y = T / Z)
+ */
+interface ExtendedPoint {
+    X: bigint;
+    Y: bigint;
+    Z: bigint;
+    T: bigint;
+}
+
+const IDENTITY: ExtendedPoint = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+
+const BASE: ExtendedPoint = (() => {
+    const x = BigInt('0x216936d3cd6e53fec0a4e231fdd6dc5c692cc7609525a7b2c9562d608f25d51a');
+    const y = BigInt('0x6666666666666666666666666666666666666666666666666666666666666658');
+    return { X: x, Y: y, Z: 1n, T: (x * y) % P };
+})();
+
+/**
+ * Reduce modulo m into [0, m)
+ */
+function mod(a: bigint, m: bigint = P): bigint {
+    const r = a % m;
+    return r < 0n ? r + m : r;
+}
+
+/**
+ * Modular exponentiation (a^b mod p)
+ */
+function modPow(base: bigint, exp: bigint, m: bigint = P): bigint {
+    let res = 1n;
+    base = mod(base, m);
+    while (exp > 0n) {
+        if (exp & 1n) res = (res * base) % m;
+        base = (base * base) % m;
+        exp >>= 1n;
+    }
+    return res;
+}
+
+/**
+ * Point addition (add-2008-hwcd-3, curve parameter a = -1)
+ * The formula is complete, so it also serves for doubling and the identity
+ */
+function pointAdd(p: ExtendedPoint, q: ExtendedPoint): ExtendedPoint {
+    const A = mod((p.Y - p.X) * (q.Y - q.X));
+    const B = mod((p.Y + p.X) * (q.Y + q.X));
+    const C = mod(p.T * D2 * q.T);
+    const Dz = mod(p.Z * 2n * q.Z);
+    const E = B - A;
+    const F = Dz - C;
+    const G = Dz + C;
+    const H = B + A;
+    return { X: mod(E * F), Y: mod(G * H), Z: mod(F * G), T: mod(E * H) };
+}
+
+function pointNegate(p: ExtendedPoint): ExtendedPoint {
+    return { X: mod(-p.X), Y: p.Y, Z: p.Z, T: mod(-p.T) };
+}
+
+/**
+ * Scalar multiplication with a Montgomery ladder
+ * One addition and one doubling per bit regardless of the scalar bits
+ */
+function scalarMultiply(k: bigint, point: ExtendedPoint): ExtendedPoint {
+    let r0 = IDENTITY;
+    let r1 = point;
+    for (let i = 255; i >= 0; i--) {
+        const bit = (k >> BigInt(i)) & 1n;
+        const sum = pointAdd(r0, r1);
+        if (bit === 1n) {
+            r0 = sum;
+            r1 = pointAdd(r1, r1);
+        } else {
+            r1 = sum;
+            r0 = pointAdd(r0, r0);
+        }
+    }
+    return r0;
+}
+
+/**
+ * Encode a point as 32 bytes: little-endian y with the sign of x in the top bit
+ */
+function encodePoint(p: ExtendedPoint): Uint8Array {
+    const zInv = modPow(p.Z, P - 2n);
+    const x = mod(p.X * zInv);
+    const y = mod(p.Y * zInv);
+    const bytes = numberToBytesLE(y, 32);
+    bytes[31] = bytes[31]! | (Number(x & 1n) << 7);
+    return bytes;
+}
+
+/**
+ * Decode a 32-byte point encoding (RFC 8032 section 5.1.3)
+ * @returns The point, or null if the encoding is not canonical or not on the curve
+ */
+function decodePoint(bytes: Uint8Array): ExtendedPoint | null {
+    if (bytes.length !== 32) return null;
+    const copy = Uint8Array.from(bytes);
+    const sign = BigInt(copy[31]! >> 7);
+    copy[31] = copy[31]! & 0x7f;
+    const y = bytesToNumberLE(copy);
+    if (y >= P) return null;
+
+    // x^2 = (y^2 - 1) / (d y^2 + 1)
+    const y2 = (y * y) % P;
+    const u = mod(y2 - 1n);
+    const v = mod(D * y2 + 1n);
+    const v3 = (v * v * v) % P;
+    let x = mod(u * v3 * modPow(u * v3 * v3 * v, (P - 5n) / 8n));
+
+    const vx2 = mod(v * x * x);
+    if (vx2 !== u) {
+        if (vx2 !== mod(-u)) return null;
+        x = (x * SQRT_M1) % P;
+    }
+    if (x === 0n && sign === 1n) return null;
+    if ((x & 1n) !== sign) x = P - x;
+
+    return { X: x, Y: y, Z: 1n, T: (x * y) % P };
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+    let n = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        n = (n << 8n) | BigInt(bytes[i]!);
+    }
+    return n;
+}
+
+function numberToBytesLE(n: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        bytes[i] = Number(n & 0xffn);
+        n >>= 8n;
+    }
+    return bytes;
+}
+
+/**
+ * Parse a hex string into bytes
+ * @throws Error if the string is not hex or has odd length
+ */
+function hexToBytes(hex: string): Uint8Array {
+    const h = hex.startsWith('0x') ? hex.slice(2) : hex;
+    if (h.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(h)) {
+        throw new Error('Invalid hex string');
+    }
+    const bytes = new Uint8Array(h.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * Hash SHA-512 output into a scalar modulo the group order
+ */
+function hashToScalar(...parts: Uint8Array[]): bigint {
+    return bytesToNumberLE(sha512Bytes(concatBytes(...parts))) % L;
+}
+
+/**
+ * Expand a 32-byte seed into the clamped secret scalar and the nonce prefix
+ */
+function expandSeed(privateKey: string): { scalar: bigint; prefix: Uint8Array } {
+    const seed = hexToBytes(privateKey);
+    if (seed.length !== 32) throw new Error('Invalid Ed25519 private key: expected 32 bytes');
+    const h = sha512Bytes(seed);
+    const a = h.slice(0, 32);
+    a[0] = a[0]! & 248;
+    a[31] = (a[31]! & 127) | 64;
+    return { scalar: bytesToNumberLE(a), prefix: h.slice(32, 64) };
+}
+
+/**
+ * Generate a cryptographically secure private key (32-byte seed)
+ */
+export function generatePrivateKey(): string {
+    if (typeof crypto === 'undefined' || !crypto.getRandomValues) {
+        // SECURITY: Do not fall back to Math.random() - it is cryptographically insecure
+        throw new Error(
+            'Secure random number generator unavailable. ' +
+            'crypto.getRandomValues() is required for key generation.'
+        );
+    }
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return bytesToHex(bytes);
+}
+
+/**
+ * Derive public key from private key
+ * @param privateKey - 32-byte seed in hex format
+ * @returns 32-byte encoded public key in hex format
+ */
+export function getPublicKey(privateKey: string): string {
+    const { scalar } = expandSeed(privateKey);
+    return bytesToHex(encodePoint(scalarMultiply(scalar, BASE)));
+}
+
+/**
+ * Generate a new key pair
+ */
+export function generateKeyPair(): { privateKey: string; publicKey: string } {
+    const privateKey = generatePrivateKey();
+    const publicKey = getPublicKey(privateKey);
+    return { privateKey, publicKey };
+}
+
+/**
+ * Sign a message (deterministic; no randomness is used)
+ * @param message - Message bytes in hex format (typically a SHA3-256 hash)
+ * @param privateKey - 32-byte seed in hex format
+ * @returns 64-byte signature in hex format (R + S)
+ */
+export function sign(message: string, privateKey: string): string {
+    const msg = hexToBytes(message);
+    const { scalar, prefix } = expandSeed(privateKey);
+    const publicKey = encodePoint(scalarMultiply(scalar, BASE));
+
+    const r = hashToScalar(prefix, msg);
+    const R = encodePoint(scalarMultiply(r, BASE));
+    const k = hashToScalar(R, publicKey, msg);
+    const S = mod(r + k * scalar, L);
+
+    return bytesToHex(concatBytes(R, numberToBytesLE(S, 32)));
+}
+
+/**
+ * Verify a signature
+ * Checks [S]B = R + [k]A without the cofactor and rejects non-canonical S
+ */
+export function verify(message: string, signature: string, publicKey: string): boolean {
+    try {
+        const msg = hexToBytes(message);
+        const sig = hexToBytes(signature);
+        const pub = hexToBytes(publicKey);
+        if (sig.length !== 64 || pub.length !== 32) return false;
+
+        const A = decodePoint(pub);
+        if (!A) return false;
+        const R = sig.slice(0, 32);
+        if (!decodePoint(R)) return false;
+        const S = bytesToNumberLE(sig.slice(32, 64));
+        if (S >= L) return false;
+
+        const k = hashToScalar(R, pub, msg);
+        const check = pointAdd(scalarMultiply(S, BASE), pointNegate(scalarMultiply(k, A)));
+        const encoded = encodePoint(check);
+        return encoded.every((b, i) => b === R[i]);
+    } catch {
+        return false;
+    }
+}
+
+export function isValidPrivateKey(privateKey: string): boolean {
+    try {
+        return hexToBytes(privateKey).length === 32;
+    } catch {
+        return false;
+    }
+}
+
+export function isValidPublicKey(publicKey: string): boolean {
+    try {
+        return decodePoint(hexToBytes(publicKey)) !== null;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Hash Backend Tests
+ * Every backend must reproduce the SHA3-256 test vectors and agree byte for byte
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as nodeCrypto from 'node:crypto';
+import {
+    pureHashBackend,
+    createNodeHashBackend,
+    getHashBackend,
+    setHashBackend,
+    HashBackend
+} from './hash-backend.js';
+import { sha3, sha3Bytes } from './sha3.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const toHex = (bytes: Uint8Array) => '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const VECTORS: [string, string][] = [
+    ['', '0xa7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a'],
+    ['abc', '0x3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532'],
+    [
+        'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+        '0x41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376'
+    ]
+];
+
+describe('Hash Backends', () => {
+    afterEach(() => {
+        setHashBackend(null);
+    });
+
+    const nodeBackend = createNodeHashBackend(nodeCrypto);
+    const backends = [pureHashBackend, nodeBackend].filter((b): b is HashBackend => b !== null);
+
+    for (const backend of backends) {
+        it(`should hash the FIPS 202 test vectors with the ${backend.name} backend`, () => {
+            for (const [input, expected] of VECTORS) {
+                expect(toHex(backend.sha3_256(encode(input)))).toBe(expected);
+            }
+        });
+    }
+
+    it('should produce identical digests on every backend around block boundaries', () => {
+        expect(nodeBackend).not.toBeNull();
+        for (const length of [0, 1, 7, 8, 135, 136, 137, 271, 272, 273, 1000]) {
+            const data = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+            expect(toHex(pureHashBackend.sha3_256(data))).toBe(toHex(nodeBackend!.sha3_256(data)));
+        }
+    });
+
+    // Automatic selection loads node:crypto through process.getBuiltinModule (Node.js 20.16+)
+    const hasBuiltinModule = typeof process.getBuiltinModule === 'function';
+
+    it.runIf(hasBuiltinModule)('should select node:crypto automatically when the runtime provides it', () => {
+        expect(getHashBackend().name).toBe('node');
+    });
+
+    it.skipIf(hasBuiltinModule)('should fall back to the pure backend without process.getBuiltinModule', () => {
+        expect(getHashBackend()).toBe(pureHashBackend);
+    });
+
+    it('should route sha3 through the active backend', () => {
+        const calls: number[] = [];
+        setHashBackend({
+            name: 'counting',
+            sha3_256: data => {
+                calls.push(data.length);
+                return pureHashBackend.sha3_256(data);
+            }
+        });
+        expect(sha3('abc')).toBe(VECTORS[1]![1]);
+        expect(sha3Bytes('abc')).toHaveLength(32);
+        expect(calls).toEqual([3, 3]);
+
+        setHashBackend(pureHashBackend);
+        expect(getHashBackend()).toBe(pureHashBackend);
+        expect(sha3('abc')).toBe(VECTORS[1]![1]);
+    });
+
+    it('should decline runtimes without SHA3-256', () => {
+        const withoutSha3 = { createHash: nodeCrypto.createHash, getHashes: () => ['sha256'] };
+        expect(createNodeHashBackend(withoutSha3)).toBeNull();
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * SHA3-256 Hashing Backends
+ * Selects the implementation behind sha3(): node:crypto when the runtime
+ * provides SHA3-256, otherwise the pure TypeScript Keccak
+ * @module crypto/hash-backend
+ */
+
+import { keccakSponge, KeccakHasher } from './keccak.js';
+
+/**
+ * Hash computation fed in chunks
+ */
+export interface IncrementalHash {
+    /** Absorb more input */
+    update(data: Uint8Array): void;
+    /** Finish and return the 32-byte digest (once) */
+    digest(): Uint8Array;
+}
+
+/**
+ * A SHA3-256 implementation
+ * Every backend must produce identical digests
+ */
+export interface HashBackend {
+    /** Backend name for diagnostics ('pure', 'node', ...) */
+    readonly name: string;
+    /**
+     * Hash bytes with SHA3-256
+     * @param data - Input bytes
+     * @returns 32-byte digest
+     */
+    sha3_256(data: Uint8Array): Uint8Array;
+    /**
+     * Start an incremental SHA3-256 computation
+     * Optional; Sha3Hasher falls back to the pure sponge when absent
+     */
+    createSha3_256?(): IncrementalHash;
+}
+
+/**
+ * Subset of the node:crypto module used by the node backend
+ */
+export interface NodeCryptoLike {
+    createHash(algorithm: string): {
+        update(data: Uint8Array): unknown;
+        digest(): Uint8Array;
+    };
+    getHashes(): string[];
+}
+
+/**
+ * Pure TypeScript backend (32-bit-lane Keccak); works in every runtime
+ */
+export const pureHashBackend: HashBackend = {
+    name: 'pure',
+    sha3_256: data => keccakSponge(data, 0x06),
+    createSha3_256: () => new KeccakHasher(0x06)
+};
+
+/**
+ * Create a backend on node:crypto's native SHA3-256
+ * WebCrypto offers no SHA-3 digest, so browsers always use the pure backend.
+ * @param nodeCrypto - The node:crypto module (default: loaded via process.getBuiltinModule when available)
+ * @returns The backend, or null if node:crypto or its sha3-256 support is unavailable
+ */
+export function createNodeHashBackend(nodeCrypto?: NodeCryptoLike): HashBackend | null {
+    const crypto = nodeCrypto ?? loadNodeCrypto();
+    if (!crypto || !crypto.getHashes().includes('sha3-256')) {
+        return null;
+    }
+    return {
+        name: 'node',
+        sha3_256: data => {
+            const hash = crypto.createHash('sha3-256');
+            hash.update(data);
+            return new Uint8Array(hash.digest());
+        },
+        createSha3_256: () => {
+            const hash = crypto.createHash('sha3-256');
+            return {
+                update: data => {
+                    hash.update(data);
+                },
+                digest: () => new Uint8Array(hash.digest())
+            };
+        }
+    };
+}
+
+/**
+ * Load node:crypto synchronously without a static import, so bundles for
+ * other runtimes do not depend on it (process.getBuiltinModule: Node.js 20.16+;
+ * older runtimes fall back to the pure backend)
+ */
+function loadNodeCrypto(): NodeCryptoLike | null {
+    const proc = (globalThis as {
+        process?: { getBuiltinModule?: (id: string) => unknown };
+    }).process;
+    try {
+        return (proc?.getBuiltinModule?.('node:crypto') as NodeCryptoLike | undefined) ?? null;
+    } catch {
+        return null;
+    }
+}
+
+let activeBackend: HashBackend | null = null;
+
+/**
+ * Get the backend used by sha3()
+ * Chosen on first use: node:crypto if available, otherwise the pure backend
+ */
+export function getHashBackend(): HashBackend {
+    activeBackend ??= createNodeHashBackend() ?? pureHashBackend;
+    return activeBackend;
+}
+
+/**
+ * Replace the backend used by sha3()
+ * @param backend - Backend to use, or null to restore automatic selection
+ */
+export function setHashBackend(backend: HashBackend | null): void {
+    activeBackend = backend;
+}
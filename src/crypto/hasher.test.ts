@@ -0,0 +1,88 @@
+/**
+ * Incremental SHA3-256 Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { Sha3Hasher, sha3Stream } from './hasher.js';
+import { sha3, sha3Bytes } from './sha3.js';
+import { pureHashBackend, setHashBackend } from './hash-backend.js';
+
+const bytes = (length: number) => new Uint8Array(length).map((_, i) => (i * 7 + 3) & 0xff);
+
+describe('Sha3Hasher', () => {
+    afterEach(() => {
+        setHashBackend(null);
+    });
+
+    for (const backend of ['auto', 'pure'] as const) {
+        it(`should match sha3() for any chunking (${backend} backend)`, () => {
+            if (backend === 'pure') setHashBackend(pureHashBackend);
+            const data = bytes(1000);
+            for (const chunkSize of [1, 7, 135, 136, 137, 500, 1000]) {
+                const hasher = new Sha3Hasher();
+                for (let i = 0; i < data.length; i += chunkSize) {
+                    hasher.update(data.subarray(i, i + chunkSize));
+                }
+                expect(hasher.digest()).toBe(sha3(data));
+            }
+            expect(new Sha3Hasher().digest()).toBe(sha3(''));
+        });
+    }
+
+    it('should hash strings as UTF-8 and return raw bytes', () => {
+        const hasher = new Sha3Hasher().update('héllo ').update('wörld');
+        expect(hasher.digestBytes()).toEqual(sha3Bytes('héllo wörld'));
+    });
+
+    it('should refuse input after the digest', () => {
+        const hasher = new Sha3Hasher().update('abc');
+        hasher.digest();
+        expect(() => hasher.update('more')).toThrow('Hasher has already produced its digest');
+        expect(() => hasher.digest()).toThrow('Hasher has already produced its digest');
+    });
+});
+
+describe('sha3Stream', () => {
+    const data = bytes(300_000);
+    const expected = sha3(data);
+    const chunks = () => [data.subarray(0, 1000), data.subarray(1000, 150_000), data.subarray(150_000)];
+
+    it('should hash Node.js readable streams', async () => {
+        expect(await sha3Stream(Readable.from(chunks().map(c => Buffer.from(c))))).toBe(expected);
+
+        const text = Readable.from([Buffer.from('héllo '), Buffer.from('wörld')]);
+        text.setEncoding('utf8');
+        expect(await sha3Stream(text)).toBe(sha3('héllo wörld'));
+    });
+
+    it('should hash web ReadableStreams', async () => {
+        const parts = chunks();
+        const stream = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                const next = parts.shift();
+                if (next) controller.enqueue(next);
+                else controller.close();
+            }
+        });
+        expect(await sha3Stream(stream)).toBe(expected);
+    });
+
+    it('should hash Blobs and async iterables', async () => {
+        expect(await sha3Stream(new Blob(chunks()))).toBe(expected);
+
+        async function* generate() {
+            yield* chunks();
+        }
+        expect(await sha3Stream(generate())).toBe(expected);
+    });
+
+    it('should reject unsupported sources and chunks', async () => {
+        await expect(sha3Stream({} as never)).rejects.toThrow('Unsupported stream source');
+
+        async function* numbers() {
+            yield 42;
+        }
+        await expect(sha3Stream(numbers() as never)).rejects.toThrow('Stream chunks must be Uint8Array or string');
+    });
+});
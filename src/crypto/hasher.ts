@@ -0,0 +1,123 @@
+/**
+ * Incremental SHA3-256 Hashing
+ * Hashes large payloads chunk by chunk instead of buffering them whole
+ * @module crypto/hasher
+ */
+
+import { getHashBackend, IncrementalHash } from './hash-backend.js';
+import { KeccakHasher } from './keccak.js';
+
+/**
+ * Sources sha3Stream can consume: Node.js readable streams (and any other
+ * async iterable of chunks), web ReadableStreams and Blobs
+ */
+export type HashableStream = AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array> | Blob;
+
+/**
+ * Incremental SHA3-256 hasher on the active hash backend
+ * Feeding the same bytes in any chunking produces the digest sha3() returns
+ */
+export class Sha3Hasher {
+    private readonly inner: IncrementalHash;
+    private readonly encoder = new TextEncoder();
+    private finished = false;
+
+    constructor() {
+        this.inner = getHashBackend().createSha3_256?.() ?? new KeccakHasher(0x06);
+    }
+
+    /**
+     * Absorb more input
+     * @param data - Bytes, or a string hashed as UTF-8
+     * @returns This hasher, for chaining
+     * @throws Error if the digest was already produced
+     */
+    update(data: string | Uint8Array): this {
+        this.assertNotFinished();
+        this.inner.update(typeof data === 'string' ? this.encoder.encode(data) : data);
+        return this;
+    }
+
+    /**
+     * Finish hashing
+     * @returns Hex-encoded hash string prefixed with 0x
+     * @throws Error if the digest was already produced
+     */
+    digest(): string {
+        return '0x' + Array.from(this.digestBytes())
+            .map(b => b.toString(16).padStart(2, '0'))
+            .join('');
+    }
+
+    /**
+     * Finish hashing
+     * @returns Raw 32-byte digest
+     * @throws Error if the digest was already produced
+     */
+    digestBytes(): Uint8Array {
+        this.assertNotFinished();
+        this.finished = true;
+        return this.inner.digest();
+    }
+
+    private assertNotFinished(): void {
+        if (this.finished) {
+            throw new Error('Hasher has already produced its digest');
+        }
+    }
+}
+
+/**
+ * Hash a stream with SHA3-256 as its chunks arrive
+ * @param source - Node.js readable stream, async iterable, web ReadableStream or Blob
+ * @returns Hex-encoded hash string prefixed with 0x
+ * @throws Error if the source is not a supported stream or yields non-byte chunks
+ */
+export async function sha3Stream(source: HashableStream): Promise<string> {
+    const hasher = new Sha3Hasher();
+    for await (const chunk of readChunks(source)) {
+        if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+            throw new Error('Stream chunks must be Uint8Array or string');
+        }
+        hasher.update(chunk);
+    }
+    return hasher.digest();
+}
+
+/**
+ * Iterate the chunks of any supported source
+ */
+async function* readChunks(source: HashableStream): AsyncGenerator<unknown> {
+    // Blobs are read through their stream so they are never loaded whole
+    const stream = isBlob(source) ? source.stream() : source;
+
+    if (isReadableStream(stream)) {
+        const reader = stream.getReader();
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) return;
+                yield value;
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    if (stream !== null && typeof stream === 'object' && Symbol.asyncIterator in stream) {
+        yield* stream;
+        return;
+    }
+    throw new Error('Unsupported stream source: expected a readable stream, async iterable or Blob');
+}
+
+function isBlob(value: unknown): value is Blob {
+    return value !== null && typeof value === 'object'
+        && typeof (value as Blob).stream === 'function'
+        && typeof (value as Blob).arrayBuffer === 'function';
+}
+
+function isReadableStream(value: unknown): value is ReadableStream<Uint8Array> {
+    return value !== null && typeof value === 'object'
+        && typeof (value as ReadableStream).getReader === 'function';
+}
@@ -3,15 +3,34 @@
  * @module crypto
  */
 
-export { sha3, sha3Bytes, sha3Concat } from './sha3.js';
+export { sha3, sha3Bytes, sha3Concat, keccak256 } from './sha3.js';
+export { sha256, sha256Bytes, hmacSha256 } from './sha256.js';
+export { sha512, sha512Bytes } from './sha512.js';
+export { pureHashBackend, createNodeHashBackend, getHashBackend, setHashBackend } from './hash-backend.js';
+export type { HashBackend, IncrementalHash, NodeCryptoLike } from './hash-backend.js';
+export { Sha3Hasher, sha3Stream } from './hasher.js';
+export type { HashableStream } from './hasher.js';
 export { generateUUIDv7, extractTimestamp, isValidUUIDv7, compareUUIDv7 } from './uuid.js';
 export {
     generatePrivateKey,
     generateKeyPair,
     getPublicKey,
     sign,
+    signRecoverable,
+    isRecoverableSignature,
     verify,
     recoverPublicKey,
+    recoverSigner,
     isValidPrivateKey,
     isValidPublicKey
 } from './ecdsa.js';
+export type { SignOptions } from './ecdsa.js';
+export { isAddress, toChecksumAddress, publicKeyToAddress, addressesEqual } from './address.js';
+export {
+    DEFAULT_SIGNATURE_SCHEME,
+    secp256k1Scheme,
+    ed25519Scheme,
+    getSignatureScheme,
+    isSignatureSchemeId
+} from './signature.js';
+export type { SignatureScheme } from './signature.js';
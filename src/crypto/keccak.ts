@@ -0,0 +1,200 @@
+/**
+ * Keccak-f[1600] with 32-bit Lanes
+ * Each 64-bit lane is held as two 32-bit words, so the permutation runs on
+ * plain JavaScript numbers instead of BigInt
+ * @module crypto/keccak
+ */
+
+/** Sponge rate in bytes for 256-bit output (1088 bits) */
+export const KECCAK_RATE = 136;
+
+/** Digest length in bytes */
+export const KECCAK_OUTPUT_LENGTH = 32;
+
+// Round constants, split into low and high 32-bit words
+const RC: bigint[] = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+const RC_LO = Uint32Array.from(RC, c => Number(c & 0xffffffffn));
+const RC_HI = Uint32Array.from(RC, c => Number(c >> 32n));
+
+// Rho rotation offsets and Pi destinations, walking the lanes from (1, 0)
+const RHO: number[] = [];
+const PI: number[] = [];
+for (let t = 0, x = 1, y = 0; t < 24; t++) {
+    RHO.push(((t + 1) * (t + 2) / 2) % 64);
+    [x, y] = [y, (2 * x + 3 * y) % 5];
+    PI.push(x + 5 * y);
+}
+
+// 64-bit rotate left of (hi, lo) by n in 1..63, excluding 32
+const rotlHi = (hi: number, lo: number, n: number): number =>
+    n < 32 ? (hi << n) | (lo >>> (32 - n)) : (lo << (n - 32)) | (hi >>> (64 - n));
+const rotlLo = (hi: number, lo: number, n: number): number =>
+    n < 32 ? (lo << n) | (hi >>> (32 - n)) : (hi << (n - 32)) | (lo >>> (64 - n));
+
+/**
+ * Keccak-f[1600] permutation
+ * @param s - State of 25 lanes as 50 words (lane i: low word 2i, high word 2i + 1)
+ */
+export function keccakF1600(s: Uint32Array): void {
+    const c = new Uint32Array(10);
+    const b = new Uint32Array(10);
+
+    for (let round = 0; round < 24; round++) {
+        // Theta
+        for (let x = 0; x < 10; x++) {
+            c[x] = s[x]! ^ s[x + 10]! ^ s[x + 20]! ^ s[x + 30]! ^ s[x + 40]!;
+        }
+        for (let x = 0; x < 10; x += 2) {
+            const prev = (x + 8) % 10;
+            const next = (x + 2) % 10;
+            const dLo = c[prev]! ^ rotlLo(c[next + 1]!, c[next]!, 1);
+            const dHi = c[prev + 1]! ^ rotlHi(c[next + 1]!, c[next]!, 1);
+            for (let y = 0; y < 50; y += 10) {
+                s[x + y] = s[x + y]! ^ dLo;
+                s[x + y + 1] = s[x + y + 1]! ^ dHi;
+            }
+        }
+
+        // Rho and Pi
+        let curLo = s[2]!;
+        let curHi = s[3]!;
+        for (let t = 0; t < 24; t++) {
+            const shift = RHO[t]!;
+            const lane = PI[t]! * 2;
+            const lo = rotlLo(curHi, curLo, shift);
+            const hi = rotlHi(curHi, curLo, shift);
+            curLo = s[lane]!;
+            curHi = s[lane + 1]!;
+            s[lane] = lo;
+            s[lane + 1] = hi;
+        }
+
+        // Chi
+        for (let y = 0; y < 50; y += 10) {
+            for (let x = 0; x < 10; x++) b[x] = s[y + x]!;
+            for (let x = 0; x < 10; x++) {
+                s[y + x] = s[y + x]! ^ (~b[(x + 2) % 10]! & b[(x + 4) % 10]!);
+            }
+        }
+
+        // Iota
+        s[0] = s[0]! ^ RC_LO[round]!;
+        s[1] = s[1]! ^ RC_HI[round]!;
+    }
+}
+
+/**
+ * XOR one rate-sized block into the state (little-endian lanes)
+ * @param s - Sponge state
+ * @param bytes - Source bytes
+ * @param offset - Start of the block in bytes
+ */
+export function absorbBlock(s: Uint32Array, bytes: Uint8Array, offset: number): void {
+    for (let w = 0; w < KECCAK_RATE / 4; w++) {
+        const i = offset + w * 4;
+        s[w] = s[w]! ^ (bytes[i]! | (bytes[i + 1]! << 8) | (bytes[i + 2]! << 16) | (bytes[i + 3]! << 24));
+    }
+}
+
+/**
+ * Read the digest from the state
+ */
+export function squeeze(s: Uint32Array): Uint8Array {
+    const out = new Uint8Array(KECCAK_OUTPUT_LENGTH);
+    for (let i = 0; i < KECCAK_OUTPUT_LENGTH; i++) {
+        out[i] = (s[i >> 2]! >>> ((i & 3) * 8)) & 0xff;
+    }
+    return out;
+}
+
+/**
+ * Incremental Keccak sponge with a 136-byte rate and 32-byte output
+ * Input may arrive in chunks of any size; digest() finalizes the sponge
+ */
+export class KeccakHasher {
+    private readonly domainByte: number;
+    private readonly state = new Uint32Array(50);
+    private readonly buffer = new Uint8Array(KECCAK_RATE);
+    private buffered = 0;
+    private finished = false;
+
+    /**
+     * @param domainByte - Padding domain byte (0x06 for SHA3, 0x01 for original Keccak)
+     */
+    constructor(domainByte: number) {
+        this.domainByte = domainByte;
+    }
+
+    /**
+     * Absorb more input
+     * @throws Error if the digest was already produced
+     */
+    update(data: Uint8Array): void {
+        this.assertNotFinished();
+        let offset = 0;
+
+        // Top up a partially filled block first
+        if (this.buffered > 0) {
+            offset = Math.min(KECCAK_RATE - this.buffered, data.length);
+            this.buffer.set(data.subarray(0, offset), this.buffered);
+            this.buffered += offset;
+            if (this.buffered < KECCAK_RATE) return;
+            absorbBlock(this.state, this.buffer, 0);
+            keccakF1600(this.state);
+            this.buffered = 0;
+        }
+
+        // Absorb full blocks straight from the input
+        while (offset + KECCAK_RATE <= data.length) {
+            absorbBlock(this.state, data, offset);
+            keccakF1600(this.state);
+            offset += KECCAK_RATE;
+        }
+
+        this.buffer.set(data.subarray(offset), 0);
+        this.buffered = data.length - offset;
+    }
+
+    /**
+     * Pad, absorb the final block and squeeze the digest
+     * @returns 32-byte digest
+     * @throws Error if the digest was already produced
+     */
+    digest(): Uint8Array {
+        this.assertNotFinished();
+        this.finished = true;
+
+        this.buffer.fill(0, this.buffered);
+        this.buffer[this.buffered] = this.domainByte;
+        this.buffer[KECCAK_RATE - 1]! |= 0x80; // Final bit
+        absorbBlock(this.state, this.buffer, 0);
+        keccakF1600(this.state);
+
+        return squeeze(this.state);
+    }
+
+    private assertNotFinished(): void {
+        if (this.finished) {
+            throw new Error('Hasher has already produced its digest');
+        }
+    }
+}
+
+/**
+ * Run the Keccak sponge over a complete message
+ * @param message - Input bytes
+ * @param domainByte - Padding domain byte (0x06 for SHA3, 0x01 for original Keccak)
+ * @returns 32-byte digest
+ */
+export function keccakSponge(message: Uint8Array, domainByte: number): Uint8Array {
+    const hasher = new KeccakHasher(domainByte);
+    hasher.update(message);
+    return hasher.digest();
+}
@@ -0,0 +1,38 @@
+/**
+ * SHA-256 / HMAC-SHA-256 Tests
+ * Validates against FIPS 180-4 and RFC 4231 test vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sha256, sha256Bytes, hmacSha256 } from './sha256.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+describe('SHA-256', () => {
+    it('should hash the FIPS 180-4 test vectors', () => {
+        expect(sha256('')).toBe('0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(sha256('abc')).toBe('0xba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+            '0x248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+        );
+    });
+
+    it('should handle inputs around the padding boundary', () => {
+        expect(sha256('a'.repeat(55))).toBe('0x9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318');
+        expect(sha256('a'.repeat(56))).toBe('0xb35439a4ac6f0948b6d6f9e3c6af0f5f590ce20f1bde7090ef7970686ec6738a');
+        expect(sha256Bytes(encode('a'.repeat(64)))).toHaveLength(32);
+    });
+
+    it('should compute HMAC-SHA-256 per RFC 4231', () => {
+        // Test case 2
+        expect(toHex(hmacSha256(encode('Jefe'), encode('what do ya want for nothing?')))).toBe(
+            '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+        );
+        // Test case 6 (key longer than the block size)
+        expect(toHex(hmacSha256(
+            new Uint8Array(131).fill(0xaa),
+            encode('Test Using Larger Than Block-Size Key - Hash Key First')
+        ))).toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+    });
+});
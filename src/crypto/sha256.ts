@@ -0,0 +1,140 @@
+/**
+ * Pure JavaScript SHA-256 and HMAC-SHA-256 Implementation
+ * NIST FIPS 180-4 / RFC 2104 compliant
+ * Used for RFC 6979 deterministic ECDSA nonces
+ * @module crypto/sha256
+ */
+
+// SHA-256 round constants
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// Initial hash values
+const H0 = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+const BLOCK_SIZE = 64;
+
+function rotr(x: number, n: number): number {
+    return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * Compress one 64-byte block into the hash state
+ */
+function compress(state: Uint32Array, block: Uint8Array, offset: number, w: Uint32Array): void {
+    for (let i = 0; i < 16; i++) {
+        const j = offset + i * 4;
+        w[i] = (block[j]! << 24) | (block[j + 1]! << 16) | (block[j + 2]! << 8) | block[j + 3]!;
+    }
+    for (let i = 16; i < 64; i++) {
+        const w15 = w[i - 15]!;
+        const w2 = w[i - 2]!;
+        const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+        const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+        w[i] = (w[i - 16]! + s0 + w[i - 7]! + s1) | 0;
+    }
+
+    let a = state[0]!, b = state[1]!, c = state[2]!, d = state[3]!;
+    let e = state[4]!, f = state[5]!, g = state[6]!, h = state[7]!;
+
+    for (let i = 0; i < 64; i++) {
+        const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+        const ch = (e & f) ^ (~e & g);
+        const t1 = (h + S1 + ch + K[i]! + w[i]!) | 0;
+        const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+        const maj = (a & b) ^ (a & c) ^ (b & c);
+        const t2 = (S0 + maj) | 0;
+
+        h = g;
+        g = f;
+        f = e;
+        e = (d + t1) | 0;
+        d = c;
+        c = b;
+        b = a;
+        a = (t1 + t2) | 0;
+    }
+
+    state[0] = (state[0]! + a) | 0;
+    state[1] = (state[1]! + b) | 0;
+    state[2] = (state[2]! + c) | 0;
+    state[3] = (state[3]! + d) | 0;
+    state[4] = (state[4]! + e) | 0;
+    state[5] = (state[5]! + f) | 0;
+    state[6] = (state[6]! + g) | 0;
+    state[7] = (state[7]! + h) | 0;
+}
+
+/**
+ * Compute SHA-256 and return raw bytes
+ * @param input - String (UTF-8) or Uint8Array to hash
+ * @returns 32-byte digest
+ */
+export function sha256Bytes(input: string | Uint8Array): Uint8Array {
+    const message = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+    // Pad: 0x80, zeros, then the 64-bit big-endian bit length
+    const paddedLength = Math.ceil((message.length + 9) / BLOCK_SIZE) * BLOCK_SIZE;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(message);
+    padded[message.length] = 0x80;
+    const bitLength = message.length * 8;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+    const state = new Uint32Array(H0);
+    const w = new Uint32Array(64);
+    for (let offset = 0; offset < paddedLength; offset += BLOCK_SIZE) {
+        compress(state, padded, offset, w);
+    }
+
+    const output = new Uint8Array(32);
+    const outView = new DataView(output.buffer);
+    for (let i = 0; i < 8; i++) {
+        outView.setUint32(i * 4, state[i]!);
+    }
+    return output;
+}
+
+/**
+ * Compute SHA-256 hash of input
+ * @param input - String (UTF-8) or Uint8Array to hash
+ * @returns Hex-encoded hash string prefixed with 0x
+ */
+export function sha256(input: string | Uint8Array): string {
+    return '0x' + Array.from(sha256Bytes(input))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Compute HMAC-SHA-256 (RFC 2104)
+ * @param key - HMAC key
+ * @param data - Message bytes
+ * @returns 32-byte MAC
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+    const blockKey = new Uint8Array(BLOCK_SIZE);
+    blockKey.set(key.length > BLOCK_SIZE ? sha256Bytes(key) : key);
+
+    const inner = new Uint8Array(BLOCK_SIZE + data.length);
+    const outer = new Uint8Array(BLOCK_SIZE + 32);
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        inner[i] = blockKey[i]! ^ 0x36;
+        outer[i] = blockKey[i]! ^ 0x5c;
+    }
+    inner.set(data, BLOCK_SIZE);
+    outer.set(sha256Bytes(inner), BLOCK_SIZE);
+    return sha256Bytes(outer);
+}
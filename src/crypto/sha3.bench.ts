@@ -0,0 +1,118 @@
+/**
+ * SHA3-256 Backend Benchmarks
+ * Compares the previous BigInt-lane Keccak (kept here as a reference) with
+ * the 32-bit-lane pure backend and node:crypto
+ * Run with: npm run bench
+ */
+
+import { bench, describe } from 'vitest';
+import * as nodeCrypto from 'node:crypto';
+import { pureHashBackend, createNodeHashBackend, setHashBackend, HashBackend } from './hash-backend.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { sha3 } from './sha3.js';
+
+const RC: bigint[] = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+const MASK64 = 0xffffffffffffffffn;
+
+const rotl64 = (x: bigint, n: number) => ((x << BigInt(n)) | (x >> BigInt(64 - n))) & MASK64;
+
+function legacyKeccakF(state: bigint[]): void {
+    const c: bigint[] = [0n, 0n, 0n, 0n, 0n];
+    const b: bigint[] = new Array<bigint>(25).fill(0n);
+    for (let round = 0; round < 24; round++) {
+        for (let x = 0; x < 5; x++) {
+            c[x] = state[x]! ^ state[x + 5]! ^ state[x + 10]! ^ state[x + 15]! ^ state[x + 20]!;
+        }
+        for (let x = 0; x < 5; x++) {
+            const d = c[(x + 4) % 5]! ^ rotl64(c[(x + 1) % 5]!, 1);
+            for (let y = 0; y < 25; y += 5) state[y + x] = (state[y + x]! ^ d) & MASK64;
+        }
+        for (let i = 0; i < 25; i++) {
+            const x = i % 5;
+            const y = Math.floor(i / 5);
+            b[y + ((2 * x + 3 * y) % 5) * 5] = rotl64(state[i]!, ROTATIONS[i]!);
+        }
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[y + x] = (b[y + x]! ^ (~b[y + (x + 1) % 5]! & b[y + (x + 2) % 5]!)) & MASK64;
+            }
+        }
+        state[0] = (state[0]! ^ RC[round]!) & MASK64;
+    }
+}
+
+function legacySha3(message: Uint8Array): Uint8Array {
+    const rate = 136;
+    const state: bigint[] = new Array<bigint>(25).fill(0n);
+    const absorb = (block: Uint8Array) => {
+        for (let i = 0; i < rate; i++) {
+            const lane = Math.floor(i / 8);
+            state[lane] = (state[lane]! ^ (BigInt(block[i]!) << BigInt((i % 8) * 8))) & MASK64;
+        }
+        legacyKeccakF(state);
+    };
+    let offset = 0;
+    for (; offset + rate <= message.length; offset += rate) absorb(message.slice(offset, offset + rate));
+    const padded = new Uint8Array(rate);
+    padded.set(message.slice(offset));
+    padded[message.length - offset] = 0x06;
+    padded[rate - 1]! |= 0x80;
+    absorb(padded);
+    const out = new Uint8Array(32);
+    for (let i = 0; i < 32; i++) out[i] = Number((state[i >> 3]! >> BigInt((i % 8) * 8)) & 0xffn);
+    return out;
+}
+
+const legacyBackend: HashBackend = { name: 'legacy', sha3_256: legacySha3 };
+const backends: [string, HashBackend][] = [
+    ['BigInt lanes (previous)', legacyBackend],
+    ['32-bit lanes (pure)', pureHashBackend],
+    ['node:crypto', createNodeHashBackend(nodeCrypto)!]
+];
+
+const short = new TextEncoder().encode('0xAgent||request||0x' + 'ab'.repeat(32) + '||null||1700000000000||');
+const long = new Uint8Array(4096).map((_, i) => i & 0xff);
+
+describe('sha3-256, 100-byte input', () => {
+    for (const [name, backend] of backends) {
+        bench(name, () => {
+            backend.sha3_256(short);
+        });
+    }
+});
+
+describe('sha3-256, 4 KiB input', () => {
+    for (const [name, backend] of backends) {
+        bench(name, () => {
+            backend.sha3_256(long);
+        });
+    }
+});
+
+describe('register a 100-event chain', () => {
+    for (const [name, backend] of backends) {
+        bench(name, () => {
+            setHashBackend(backend);
+            const registry = new CausalEventRegistry('0xAgent');
+            let predecessorHash: string | null = null;
+            for (let i = 0; i < 100; i++) {
+                predecessorHash = registry.registerEvent({
+                    agentId: '0xAgent',
+                    actionType: 'request',
+                    payloadHash: sha3(`payload-${i}`),
+                    predecessorHash,
+                    timestamp: Date.now()
+                }).eventHash;
+            }
+            setHashBackend(null);
+        }, { iterations: 5 });
+    }
+});
@@ -5,7 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { ActionType } from '../types/index.js';
-import { sha3, sha3Bytes, sha3Concat } from './sha3.js';
+import { sha3, sha3Bytes, sha3Concat, keccak256 } from './sha3.js';
 
 describe('SHA3-256', () => {
     describe('sha3', () => {
@@ -146,4 +146,15 @@ describe('SHA3-256', () => {
             expect(hash).toMatch(/^0x[a-f0-9]{64}$/);
         });
     });
+
+    describe('keccak256', () => {
+        it('should match the original Keccak-256 test vectors', () => {
+            expect(keccak256('')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+            expect(keccak256('abc')).toBe('0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+        });
+
+        it('should differ from SHA3-256 on the same input', () => {
+            expect(keccak256('abc')).not.toBe(sha3('abc'));
+        });
+    });
 });
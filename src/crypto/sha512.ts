@@ -0,0 +1,141 @@
+/**
+ * Pure JavaScript SHA-512 Implementation
+ * NIST FIPS 180-4 compliant
+ * Used by Ed25519 key derivation and signing
+ * @module crypto/sha512
+ */
+
+// SHA-512 round constants
+const K: bigint[] = [
+    0x428a2f98d728ae22n, 0x7137449123ef65cdn, 0xb5c0fbcfec4d3b2fn, 0xe9b5dba58189dbbcn,
+    0x3956c25bf348b538n, 0x59f111f1b605d019n, 0x923f82a4af194f9bn, 0xab1c5ed5da6d8118n,
+    0xd807aa98a3030242n, 0x12835b0145706fben, 0x243185be4ee4b28cn, 0x550c7dc3d5ffb4e2n,
+    0x72be5d74f27b896fn, 0x80deb1fe3b1696b1n, 0x9bdc06a725c71235n, 0xc19bf174cf692694n,
+    0xe49b69c19ef14ad2n, 0xefbe4786384f25e3n, 0x0fc19dc68b8cd5b5n, 0x240ca1cc77ac9c65n,
+    0x2de92c6f592b0275n, 0x4a7484aa6ea6e483n, 0x5cb0a9dcbd41fbd4n, 0x76f988da831153b5n,
+    0x983e5152ee66dfabn, 0xa831c66d2db43210n, 0xb00327c898fb213fn, 0xbf597fc7beef0ee4n,
+    0xc6e00bf33da88fc2n, 0xd5a79147930aa725n, 0x06ca6351e003826fn, 0x142929670a0e6e70n,
+    0x27b70a8546d22ffcn, 0x2e1b21385c26c926n, 0x4d2c6dfc5ac42aedn, 0x53380d139d95b3dfn,
+    0x650a73548baf63den, 0x766a0abb3c77b2a8n, 0x81c2c92e47edaee6n, 0x92722c851482353bn,
+    0xa2bfe8a14cf10364n, 0xa81a664bbc423001n, 0xc24b8b70d0f89791n, 0xc76c51a30654be30n,
+    0xd192e819d6ef5218n, 0xd69906245565a910n, 0xf40e35855771202an, 0x106aa07032bbd1b8n,
+    0x19a4c116b8d2d0c8n, 0x1e376c085141ab53n, 0x2748774cdf8eeb99n, 0x34b0bcb5e19b48a8n,
+    0x391c0cb3c5c95a63n, 0x4ed8aa4ae3418acbn, 0x5b9cca4f7763e373n, 0x682e6ff3d6b2b8a3n,
+    0x748f82ee5defb2fcn, 0x78a5636f43172f60n, 0x84c87814a1f0ab72n, 0x8cc702081a6439ecn,
+    0x90befffa23631e28n, 0xa4506cebde82bde9n, 0xbef9a3f7b2c67915n, 0xc67178f2e372532bn,
+    0xca273eceea26619cn, 0xd186b8c721c0c207n, 0xeada7dd6cde0eb1en, 0xf57d4f7fee6ed178n,
+    0x06f067aa72176fban, 0x0a637dc5a2c898a6n, 0x113f9804bef90daen, 0x1b710b35131c471bn,
+    0x28db77f523047d84n, 0x32caab7b40c72493n, 0x3c9ebe0a15c9bebcn, 0x431d67c49c100d4cn,
+    0x4cc5d4becb3e42b6n, 0x597f299cfc657e2an, 0x5fcb6fab3ad6faecn, 0x6c44198c4a475817n
+];
+
+// Initial hash values
+const H0: bigint[] = [
+    0x6a09e667f3bcc908n,
+    0xbb67ae8584caa73bn,
+    0x3c6ef372fe94f82bn,
+    0xa54ff53a5f1d36f1n,
+    0x510e527fade682d1n,
+    0x9b05688c2b3e6c1fn,
+    0x1f83d9abfb41bd6bn,
+    0x5be0cd19137e2179n
+];
+
+const MASK64 = 0xffffffffffffffffn;
+const BLOCK_SIZE = 128;
+
+function rotr64(x: bigint, n: bigint): bigint {
+    return ((x >> n) | (x << (64n - n))) & MASK64;
+}
+
+/**
+ * Compress one 128-byte block into the hash state
+ */
+function compress(state: bigint[], block: Uint8Array, offset: number, w: bigint[]): void {
+    for (let i = 0; i < 16; i++) {
+        let word = 0n;
+        for (let j = 0; j < 8; j++) {
+            word = (word << 8n) | BigInt(block[offset + i * 8 + j]!);
+        }
+        w[i] = word;
+    }
+    for (let i = 16; i < 80; i++) {
+        const w15 = w[i - 15]!;
+        const w2 = w[i - 2]!;
+        const s0 = rotr64(w15, 1n) ^ rotr64(w15, 8n) ^ (w15 >> 7n);
+        const s1 = rotr64(w2, 19n) ^ rotr64(w2, 61n) ^ (w2 >> 6n);
+        w[i] = (w[i - 16]! + s0 + w[i - 7]! + s1) & MASK64;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state as [bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint];
+
+    for (let i = 0; i < 80; i++) {
+        const S1 = rotr64(e, 14n) ^ rotr64(e, 18n) ^ rotr64(e, 41n);
+        const ch = (e & f) ^ (~e & MASK64 & g);
+        const t1 = (h + S1 + ch + K[i]! + w[i]!) & MASK64;
+        const S0 = rotr64(a, 28n) ^ rotr64(a, 34n) ^ rotr64(a, 39n);
+        const maj = (a & b) ^ (a & c) ^ (b & c);
+        const t2 = (S0 + maj) & MASK64;
+
+        h = g;
+        g = f;
+        f = e;
+        e = (d + t1) & MASK64;
+        d = c;
+        c = b;
+        b = a;
+        a = (t1 + t2) & MASK64;
+    }
+
+    const result = [a, b, c, d, e, f, g, h];
+    for (let i = 0; i < 8; i++) {
+        state[i] = (state[i]! + result[i]!) & MASK64;
+    }
+}
+
+/**
+ * Compute SHA-512 and return raw bytes
+ * @param input - String (UTF-8) or Uint8Array to hash
+ * @returns 64-byte digest
+ */
+export function sha512Bytes(input: string | Uint8Array): Uint8Array {
+    const message = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+    // Pad: 0x80, zeros, then the 128-bit big-endian bit length
+    const paddedLength = Math.ceil((message.length + 17) / BLOCK_SIZE) * BLOCK_SIZE;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(message);
+    padded[message.length] = 0x80;
+    let bitLength = BigInt(message.length) * 8n;
+    for (let i = paddedLength - 1; bitLength > 0n; i--) {
+        padded[i] = Number(bitLength & 0xffn);
+        bitLength >>= 8n;
+    }
+
+    const state = [...H0];
+    const w: bigint[] = new Array<bigint>(80).fill(0n);
+    for (let offset = 0; offset < paddedLength; offset += BLOCK_SIZE) {
+        compress(state, padded, offset, w);
+    }
+
+    const output = new Uint8Array(64);
+    for (let i = 0; i < 8; i++) {
+        let word = state[i]!;
+        for (let j = 7; j >= 0; j--) {
+            output[i * 8 + j] = Number(word & 0xffn);
+            word >>= 8n;
+        }
+    }
+    return output;
+}
+
+/**
+ * Compute SHA-512 hash of input
+ * @param input - String (UTF-8) or Uint8Array to hash
+ * @returns Hex-encoded hash string prefixed with 0x
+ */
+export function sha512(input: string | Uint8Array): string {
+    return '0x' + Array.from(sha512Bytes(input))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
@@ -0,0 +1,126 @@
+/**
+ * Signature Scheme Tests
+ * Scheme lookup and secp256k1/Ed25519 proofs through the same verification pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSignatureScheme, isSignatureSchemeId, secp256k1Scheme, ed25519Scheme } from './signature.js';
+import { sha3 } from './sha3.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { verifyProof } from '../verification/verifier.js';
+import { verifyLightProof } from '../verification/light-proof.js';
+import { verifyProofWithResolver } from '../verification/resolver.js';
+import { MemoryKeyResolver } from '../identity/memory.js';
+import { SignatureSchemeId } from '../types/index.js';
+
+describe('Signature Schemes', () => {
+    const agentId = '0xAgent';
+
+    function makeRegistry(events = 3) {
+        const registry = new CausalEventRegistry(agentId);
+        let predecessorHash: string | null = null;
+        let lastId = '';
+        for (let i = 0; i < events; i++) {
+            const event = registry.registerEvent({
+                agentId,
+                actionType: 'request',
+                payloadHash: sha3(`payload-${i}`),
+                predecessorHash,
+                timestamp: Date.now() + i
+            });
+            predecessorHash = event.eventHash;
+            lastId = event.causalEventId;
+        }
+        return { generator: new ProofGenerator(registry), eventId: lastId };
+    }
+
+    it('should look up schemes by identifier', () => {
+        expect(getSignatureScheme()).toBe(secp256k1Scheme);
+        expect(getSignatureScheme('ed25519')).toBe(ed25519Scheme);
+        expect(isSignatureSchemeId('ed25519')).toBe(true);
+        expect(isSignatureSchemeId('rsa')).toBe(false);
+        expect(isSignatureSchemeId('toString')).toBe(false);
+        expect(() => getSignatureScheme('rsa')).toThrow('Unsupported signature scheme: rsa');
+    });
+
+    for (const id of ['secp256k1', 'ed25519'] as SignatureSchemeId[]) {
+        it(`should sign and verify ${id} proofs through verifyProof`, () => {
+            const scheme = getSignatureScheme(id);
+            const { privateKey, publicKey } = scheme.generateKeyPair();
+            const { generator, eventId } = makeRegistry();
+
+            const proof = generator.generateProof(eventId, privateKey, undefined, { scheme: id });
+            expect(proof.signatureScheme).toBe(id);
+            expect(verifyProof(proof, agentId, publicKey).isValid).toBe(true);
+
+            const tampered = { ...proof, signedTreeHead: { ...proof.signedTreeHead!, issuedAt: 0 } };
+            expect(verifyProof(tampered, agentId, publicKey).errors).toContain('Agent signature verification failed');
+        });
+
+        it(`should bind the scheme into ${id} light proof signatures`, () => {
+            const { privateKey, publicKey } = getSignatureScheme(id).generateKeyPair();
+            const { generator, eventId } = makeRegistry();
+
+            const { light } = generator.generateProofPackage(eventId, privateKey, { scheme: id });
+            expect(light.signatureScheme).toBe(id);
+            expect(verifyLightProof(light, agentId, { publicKey })).toBe(true);
+
+            const other: SignatureSchemeId = id === 'ed25519' ? 'secp256k1' : 'ed25519';
+            expect(verifyLightProof({ ...light, signatureScheme: other }, agentId, { publicKey })).toBe(false);
+        });
+    }
+
+    it('should reject proofs whose scheme does not match the signature', () => {
+        const { privateKey, publicKey } = ed25519Scheme.generateKeyPair();
+        const { generator, eventId } = makeRegistry();
+        const proof = generator.generateProof(eventId, privateKey, undefined, { scheme: 'ed25519' });
+
+        const relabelled = { ...proof, signatureScheme: 'secp256k1' as const };
+        expect(verifyProof(relabelled, agentId, publicKey).isValid).toBe(false);
+
+        const unknown = { ...proof, signatureScheme: 'rsa' as SignatureSchemeId };
+        expect(verifyProof(unknown, agentId, publicKey).errors).toContain('Unsupported signature scheme: rsa');
+    });
+
+    it('should treat proofs without a scheme as secp256k1', () => {
+        const { privateKey, publicKey } = secp256k1Scheme.generateKeyPair();
+        const { generator, eventId } = makeRegistry();
+        const { signatureScheme: _omitted, ...legacy } = generator.generateProof(eventId, privateKey);
+        expect(verifyProof(legacy, agentId, publicKey).isValid).toBe(true);
+    });
+
+    it('should refuse recoverable Ed25519 signatures', () => {
+        const { privateKey } = ed25519Scheme.generateKeyPair();
+        const { generator, eventId } = makeRegistry();
+        expect(() => generator.generateProof(eventId, privateKey, undefined, { scheme: 'ed25519', recoverable: true }))
+            .toThrow('Recoverable signatures are not supported by ed25519');
+    });
+
+    it('should only try resolver keys of the proof\'s scheme', async () => {
+        const ecdsaKeys = secp256k1Scheme.generateKeyPair();
+        const edKeys = ed25519Scheme.generateKeyPair();
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [
+                { publicKey: ecdsaKeys.publicKey },
+                { publicKey: edKeys.publicKey, scheme: 'ed25519' }
+            ]
+        });
+        const { generator, eventId } = makeRegistry();
+
+        const edProof = generator.generateProof(eventId, edKeys.privateKey, undefined, { scheme: 'ed25519' });
+        const ecdsaProof = generator.generateProof(eventId, ecdsaKeys.privateKey);
+        expect((await verifyProofWithResolver(edProof, agentId, resolver)).isValid).toBe(true);
+        expect((await verifyProofWithResolver(ecdsaProof, agentId, resolver)).isValid).toBe(true);
+
+        const edOnly = new MemoryKeyResolver({ [agentId]: [{ publicKey: edKeys.publicKey, scheme: 'ed25519' }] });
+        const result = await verifyProofWithResolver(ecdsaProof, agentId, edOnly);
+        expect(result.errors[0]).toMatch(/for secp256k1 signatures/);
+    });
+
+    it('should reject resolver keys that do not fit their scheme', () => {
+        const { publicKey } = secp256k1Scheme.generateKeyPair();
+        expect(() => new MemoryKeyResolver({ [agentId]: [{ publicKey, scheme: 'ed25519' }] }))
+            .toThrow('Invalid agent public key');
+    });
+});
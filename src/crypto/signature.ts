@@ -0,0 +1,87 @@
+/**
+ * Signature Schemes
+ * Common interface over the signature algorithms agents may sign with
+ * @module crypto/signature
+ */
+
+import { SignatureSchemeId } from '../types/index.js';
+import * as ecdsa from './ecdsa.js';
+import * as ed25519 from './ed25519.js';
+
+/**
+ * Scheme assumed for proofs and keys that do not name one
+ */
+export const DEFAULT_SIGNATURE_SCHEME: SignatureSchemeId = 'secp256k1';
+
+/**
+ * A signature algorithm with hex-encoded keys, messages and signatures
+ */
+export interface SignatureScheme {
+    /** Identifier carried in proofs signed with this scheme */
+    readonly id: SignatureSchemeId;
+    /** Generate a new key pair */
+    generateKeyPair(): { privateKey: string; publicKey: string };
+    /** Derive the public key of a private key */
+    getPublicKey(privateKey: string): string;
+    /** Sign a message hash */
+    sign(messageHash: string, privateKey: string): string;
+    /** Verify a signature over a message hash; never throws */
+    verify(messageHash: string, signature: string, publicKey: string): boolean;
+    /** Check a private key's format and range */
+    isValidPrivateKey(privateKey: string): boolean;
+    /** Check a public key's format and that it lies on the curve */
+    isValidPublicKey(publicKey: string): boolean;
+}
+
+/**
+ * ECDSA over secp256k1 with RFC 6979 nonces and low-S signatures
+ * Public keys are uncompressed (0x04 + x + y), signatures 64 bytes (r + s)
+ */
+export const secp256k1Scheme: SignatureScheme = {
+    id: 'secp256k1',
+    generateKeyPair: ecdsa.generateKeyPair,
+    getPublicKey: ecdsa.getPublicKey,
+    sign: (messageHash, privateKey) => ecdsa.sign(messageHash, privateKey),
+    verify: ecdsa.verify,
+    isValidPrivateKey: ecdsa.isValidPrivateKey,
+    isValidPublicKey: ecdsa.isValidPublicKey
+};
+
+/**
+ * Ed25519 (RFC 8032) signing the hash bytes as the message
+ * Private keys are 32-byte seeds, public keys 32 bytes, signatures 64 bytes (R + S)
+ */
+export const ed25519Scheme: SignatureScheme = {
+    id: 'ed25519',
+    generateKeyPair: ed25519.generateKeyPair,
+    getPublicKey: ed25519.getPublicKey,
+    sign: ed25519.sign,
+    verify: ed25519.verify,
+    isValidPrivateKey: ed25519.isValidPrivateKey,
+    isValidPublicKey: ed25519.isValidPublicKey
+};
+
+const SCHEMES: Record<SignatureSchemeId, SignatureScheme> = {
+    secp256k1: secp256k1Scheme,
+    ed25519: ed25519Scheme
+};
+
+/**
+ * Check whether a value names a supported signature scheme
+ */
+export function isSignatureSchemeId(value: unknown): value is SignatureSchemeId {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCHEMES, value);
+}
+
+/**
+ * Look up a signature scheme by identifier
+ * @param id - Scheme identifier (default: secp256k1)
+ * @returns The scheme implementation
+ * @throws Error if the scheme is not supported
+ */
+export function getSignatureScheme(id: string = DEFAULT_SIGNATURE_SCHEME): SignatureScheme {
+    if (!isSignatureSchemeId(id)) {
+        throw new Error(`Unsupported signature scheme: ${id}`);
+    }
+    return SCHEMES[id];
+}
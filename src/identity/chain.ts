@@ -0,0 +1,88 @@
+/**
+ * Chain-Backed Key Resolver
+ * Adapts an on-chain identity registry lookup (e.g. ERC-8004) to KeyResolver
+ * @module identity/chain
+ */
+
+import { AgentKey, KeyResolver, assertValidAgentKey } from './resolver.js';
+
+/**
+ * Looks up an agent's keys on chain; supplied by the application (or a mock in tests)
+ */
+export type ChainKeyLookup = (agentId: string) => Promise<AgentKey[]>;
+
+/**
+ * Options for ChainKeyResolver
+ */
+export interface ChainKeyResolverOptions {
+    /** Lookup hook querying the identity registry */
+    lookup: ChainKeyLookup;
+    /** How long lookup results are reused (ms, default: 60000; 0 disables caching) */
+    cacheTtlMs?: number;
+    /** Clock used for cache expiry (default: Date.now) */
+    now?: () => number;
+}
+
+/**
+ * Key resolver delegating to a pluggable chain lookup, with a result cache
+ */
+export class ChainKeyResolver implements KeyResolver {
+    private readonly lookup: ChainKeyLookup;
+    private readonly cacheTtlMs: number;
+    private readonly now: () => number;
+    private readonly cache: Map<string, { keys: AgentKey[]; expiresAt: number }> = new Map();
+
+    /**
+     * @param options - Lookup hook and cache settings
+     */
+    constructor(options: ChainKeyResolverOptions) {
+        const { lookup, cacheTtlMs = 60_000, now = Date.now } = options;
+        if (typeof lookup !== 'function') {
+            throw new Error('Chain key lookup is required');
+        }
+        if (!Number.isFinite(cacheTtlMs) || cacheTtlMs < 0) {
+            throw new Error('cacheTtlMs must be a non-negative number');
+        }
+        this.lookup = lookup;
+        this.cacheTtlMs = cacheTtlMs;
+        this.now = now;
+    }
+
+    /**
+     * Drop cached keys (all agents, or one)
+     * @param agentId - Agent to forget (optional)
+     */
+    invalidate(agentId?: string): void {
+        if (agentId === undefined) {
+            this.cache.clear();
+        } else {
+            this.cache.delete(agentId);
+        }
+    }
+
+    async resolveKeys(agentId: string): Promise<AgentKey[]> {
+        const cached = this.cache.get(agentId);
+        if (cached && cached.expiresAt > this.now()) {
+            return cached.keys.map(key => ({ ...key }));
+        }
+
+        const keys = await this.lookup(agentId);
+        if (!Array.isArray(keys)) {
+            throw new Error(`Chain lookup for agent ${agentId} did not return a key list`);
+        }
+        // Keys that fail validation are ignored rather than failing every verification
+        const valid = keys.filter(key => {
+            try {
+                assertValidAgentKey(key);
+                return true;
+            } catch {
+                return false;
+            }
+        });
+
+        if (this.cacheTtlMs > 0) {
+            this.cache.set(agentId, { keys: valid, expiresAt: this.now() + this.cacheTtlMs });
+        }
+        return valid.map(key => ({ ...key }));
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * JSON File Key Resolver
+ * Reads agent keys from a JSON document (Node.js only)
+ * @module identity/file
+ */
+
+import { readFileSync } from 'node:fs';
+import { AgentKey, KeyResolver } from './resolver.js';
+import { MemoryKeyResolver } from './memory.js';
+
+/**
+ * Key resolver loading `{ "<agentId>": [{ "publicKey": "04...", "scheme": "secp256k1", "validFrom": 0, "validUntil": 0 }] }`
+ *
+ * The file is read when the resolver is created and again on reload().
+ */
+export class FileKeyResolver implements KeyResolver {
+    private readonly path: string;
+    private resolver: MemoryKeyResolver = new MemoryKeyResolver();
+
+    /**
+     * @param path - Path of the JSON key file
+     * @throws Error if the file cannot be read or is malformed
+     */
+    constructor(path: string) {
+        if (!path) {
+            throw new Error('Key file path is required');
+        }
+        this.path = path;
+        this.reload();
+    }
+
+    /**
+     * Re-read the key file, replacing all loaded keys
+     * @throws Error if the file cannot be read or is malformed
+     */
+    reload(): void {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(readFileSync(this.path, 'utf8'));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to read key file ${this.path}: ${message}`);
+        }
+
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('Key file must contain an object keyed by agent ID');
+        }
+        for (const [agentId, keys] of Object.entries(parsed)) {
+            if (!Array.isArray(keys)) {
+                throw new Error(`Keys for agent ${agentId} must be an array`);
+            }
+        }
+
+        // Build the replacement first so a malformed file leaves the old keys in place
+        this.resolver = new MemoryKeyResolver(parsed as Record<string, AgentKey[]>);
+    }
+
+    /**
+     * Get the path of the key file
+     */
+    getPath(): string {
+        return this.path;
+    }
+
+    resolveKeys(agentId: string): AgentKey[] {
+        return this.resolver.resolveKeys(agentId);
+    }
+}
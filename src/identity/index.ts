@@ -0,0 +1,17 @@
+/**
+ * Identity module exports
+ * @module identity
+ */
+
+export type { AgentKey, KeyResolver } from './resolver.js';
+export { isKeyValidAt, resolveValidKeys, assertValidAgentKey } from './resolver.js';
+export { MemoryKeyResolver } from './memory.js';
+export { ChainKeyResolver } from './chain.js';
+export type { ChainKeyLookup, ChainKeyResolverOptions } from './chain.js';
+export {
+    KEY_ANNOUNCEMENT_DOMAIN,
+    hashKeyAnnouncement,
+    signKeyAnnouncement,
+    checkKeyEventRecord,
+    KeyHistory
+} from './rotation.js';
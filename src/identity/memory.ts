@@ -0,0 +1,50 @@
+/**
+ * In-Memory Key Resolver
+ * @module identity/memory
+ */
+
+import { AgentKey, KeyResolver, assertValidAgentKey } from './resolver.js';
+
+/**
+ * Key resolver backed by an in-process map
+ */
+export class MemoryKeyResolver implements KeyResolver {
+    private readonly keys: Map<string, AgentKey[]> = new Map();
+
+    /**
+     * @param entries - Initial keys per agent ID
+     * @throws Error if any key is malformed
+     */
+    constructor(entries: Record<string, AgentKey[]> = {}) {
+        for (const [agentId, keys] of Object.entries(entries)) {
+            for (const key of keys) {
+                this.addKey(agentId, key);
+            }
+        }
+    }
+
+    /**
+     * Register a key for an agent
+     * @param agentId - ERC-8004 agent identifier
+     * @param key - Public key and optional validity window
+     * @throws Error if the key is malformed
+     */
+    addKey(agentId: string, key: AgentKey): void {
+        assertValidAgentKey(key);
+        const keys = this.keys.get(agentId) ?? [];
+        keys.push({ ...key });
+        this.keys.set(agentId, keys);
+    }
+
+    /**
+     * Remove every key of an agent
+     * @param agentId - ERC-8004 agent identifier
+     */
+    removeAgent(agentId: string): void {
+        this.keys.delete(agentId);
+    }
+
+    resolveKeys(agentId: string): AgentKey[] {
+        return (this.keys.get(agentId) ?? []).map(key => ({ ...key }));
+    }
+}
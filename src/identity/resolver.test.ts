@@ -0,0 +1,136 @@
+/**
+ * Key Resolver Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { isKeyValidAt, resolveValidKeys, assertValidAgentKey } from './resolver.js';
+import { MemoryKeyResolver } from './memory.js';
+import { FileKeyResolver } from './file.js';
+import { ChainKeyResolver } from './chain.js';
+import { generateKeyPair } from '../crypto/index.js';
+
+describe('Key Resolvers', () => {
+    const agentId = '0xAgent';
+    const oldKey = generateKeyPair().publicKey;
+    const newKey = generateKeyPair().publicKey;
+
+    describe('validity windows', () => {
+        it('should treat validFrom as inclusive and validUntil as exclusive', () => {
+            const key = { publicKey: oldKey, validFrom: 100, validUntil: 200 };
+            expect(isKeyValidAt(key, 99)).toBe(false);
+            expect(isKeyValidAt(key, 100)).toBe(true);
+            expect(isKeyValidAt(key, 199)).toBe(true);
+            expect(isKeyValidAt(key, 200)).toBe(false);
+            expect(isKeyValidAt({ publicKey: oldKey }, 0)).toBe(true);
+        });
+
+        it('should reject malformed keys and empty windows', () => {
+            expect(() => assertValidAgentKey({ publicKey: 'abc' })).toThrow('Invalid agent public key');
+            expect(() => assertValidAgentKey({ publicKey: oldKey, validFrom: 5, validUntil: 5 })).toThrow('empty');
+            expect(() => assertValidAgentKey({ publicKey: oldKey, validFrom: NaN })).toThrow('finite');
+        });
+    });
+
+    describe('MemoryKeyResolver', () => {
+        it('should return the keys valid at a given moment', async () => {
+            const resolver = new MemoryKeyResolver({
+                [agentId]: [{ publicKey: oldKey, validUntil: 1000 }]
+            });
+            resolver.addKey(agentId, { publicKey: newKey, validFrom: 1000 });
+
+            expect(resolver.resolveKeys(agentId)).toHaveLength(2);
+            expect((await resolveValidKeys(resolver, agentId, 500)).map(k => k.publicKey)).toEqual([oldKey]);
+            expect((await resolveValidKeys(resolver, agentId, 1500)).map(k => k.publicKey)).toEqual([newKey]);
+            expect(resolver.resolveKeys('0xUnknown')).toEqual([]);
+        });
+
+        it('should not expose internal state', () => {
+            const resolver = new MemoryKeyResolver({ [agentId]: [{ publicKey: oldKey }] });
+            const [key] = resolver.resolveKeys(agentId);
+            if (key) key.validUntil = 0;
+            expect(resolver.resolveKeys(agentId)[0]?.validUntil).toBeUndefined();
+
+            resolver.removeAgent(agentId);
+            expect(resolver.resolveKeys(agentId)).toEqual([]);
+        });
+    });
+
+    describe('FileKeyResolver', () => {
+        let dir: string | undefined;
+
+        afterEach(() => {
+            if (dir) rmSync(dir, { recursive: true, force: true });
+            dir = undefined;
+        });
+
+        function writeKeys(content: string): string {
+            dir = mkdtempSync(join(tmpdir(), 'causal-keys-'));
+            const path = join(dir, 'keys.json');
+            writeFileSync(path, content);
+            return path;
+        }
+
+        it('should load and reload keys from JSON', () => {
+            const path = writeKeys(JSON.stringify({ [agentId]: [{ publicKey: oldKey }] }));
+            const resolver = new FileKeyResolver(path);
+            expect(resolver.resolveKeys(agentId)).toEqual([{ publicKey: oldKey }]);
+
+            writeFileSync(path, JSON.stringify({ [agentId]: [{ publicKey: newKey, validFrom: 10 }] }));
+            resolver.reload();
+            expect(resolver.resolveKeys(agentId)).toEqual([{ publicKey: newKey, validFrom: 10 }]);
+        });
+
+        it('should reject malformed files and keep previous keys', () => {
+            expect(() => new FileKeyResolver(writeKeys('[]'))).toThrow('object keyed by agent ID');
+            expect(() => new FileKeyResolver(writeKeys('{"0xA": "key"}'))).toThrow('must be an array');
+            expect(() => new FileKeyResolver(writeKeys('not json'))).toThrow('Failed to read key file');
+
+            const path = writeKeys(JSON.stringify({ [agentId]: [{ publicKey: oldKey }] }));
+            const resolver = new FileKeyResolver(path);
+            writeFileSync(path, JSON.stringify({ [agentId]: [{ publicKey: 'bad' }] }));
+            expect(() => resolver.reload()).toThrow('Invalid agent public key');
+            expect(resolver.resolveKeys(agentId)).toEqual([{ publicKey: oldKey }]);
+        });
+    });
+
+    describe('ChainKeyResolver', () => {
+        it('should cache lookups until the TTL expires', async () => {
+            let now = 0;
+            let calls = 0;
+            const resolver = new ChainKeyResolver({
+                lookup: async () => {
+                    calls++;
+                    return [{ publicKey: oldKey }];
+                },
+                cacheTtlMs: 100,
+                now: () => now
+            });
+
+            await resolver.resolveKeys(agentId);
+            await resolver.resolveKeys(agentId);
+            expect(calls).toBe(1);
+
+            now = 100;
+            await resolver.resolveKeys(agentId);
+            expect(calls).toBe(2);
+
+            resolver.invalidate(agentId);
+            await resolver.resolveKeys(agentId);
+            expect(calls).toBe(3);
+        });
+
+        it('should drop malformed keys returned by the lookup', async () => {
+            const resolver = new ChainKeyResolver({
+                lookup: async () => [{ publicKey: 'garbage' }, { publicKey: newKey }]
+            });
+            expect(await resolver.resolveKeys(agentId)).toEqual([{ publicKey: newKey }]);
+        });
+
+        it('should validate its options', () => {
+            expect(() => new ChainKeyResolver({ lookup: async () => [], cacheTtlMs: -1 })).toThrow('cacheTtlMs');
+        });
+    });
+});
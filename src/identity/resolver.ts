@@ -0,0 +1,89 @@
+/**
+ * Key Resolver Interface
+ * Maps agent identities to the public keys allowed to sign for them
+ * @module identity/resolver
+ */
+
+import { SignatureSchemeId } from '../types/index.js';
+import { isSignatureSchemeId, getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+
+/**
+ * Public key registered for an agent
+ */
+export interface AgentKey {
+    /** Public key (hex) in the format of its scheme */
+    publicKey: string;
+    /** Scheme the key signs with (default: secp256k1) */
+    scheme?: SignatureSchemeId;
+    /** First moment the key may sign (Unix epoch ms, inclusive; default: always) */
+    validFrom?: number;
+    /** Moment the key stops being valid (Unix epoch ms, exclusive; default: never) */
+    validUntil?: number;
+}
+
+/**
+ * Source of agent keys
+ * Implementations may be synchronous (in-memory, file) or asynchronous (on-chain)
+ */
+export interface KeyResolver {
+    /**
+     * Get every key registered for an agent, in any order
+     * @param agentId - ERC-8004 agent identifier
+     * @returns Registered keys (empty if the agent is unknown)
+     */
+    resolveKeys(agentId: string): AgentKey[] | Promise<AgentKey[]>;
+}
+
+/**
+ * Check whether a key is inside its validity window
+ * @param key - Registered key
+ * @param at - Moment to check (Unix epoch ms)
+ * @returns True if the key may sign at that moment
+ */
+export function isKeyValidAt(key: AgentKey, at: number): boolean {
+    if (key.validFrom !== undefined && at < key.validFrom) {
+        return false;
+    }
+    if (key.validUntil !== undefined && at >= key.validUntil) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Resolve the keys an agent could have signed with at a given moment
+ * @param resolver - Key source
+ * @param agentId - ERC-8004 agent identifier
+ * @param at - Moment of signing (Unix epoch ms)
+ * @returns Keys whose validity window contains the moment
+ */
+export async function resolveValidKeys(resolver: KeyResolver, agentId: string, at: number): Promise<AgentKey[]> {
+    const keys = await resolver.resolveKeys(agentId);
+    return keys.filter(key => isKeyValidAt(key, at));
+}
+
+/**
+ * Validate a key record before it is registered
+ * @param key - Key record to check
+ * @throws Error if the scheme, public key or validity window is malformed
+ */
+export function assertValidAgentKey(key: AgentKey): void {
+    if (!key || typeof key.publicKey !== 'string') {
+        throw new Error('Invalid agent public key');
+    }
+    const scheme = key.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+    if (!isSignatureSchemeId(scheme)) {
+        throw new Error(`Unsupported signature scheme: ${String(scheme)}`);
+    }
+    if (!getSignatureScheme(scheme).isValidPublicKey(key.publicKey)) {
+        throw new Error('Invalid agent public key');
+    }
+    for (const bound of [key.validFrom, key.validUntil]) {
+        if (bound !== undefined && (typeof bound !== 'number' || !Number.isFinite(bound))) {
+            throw new Error('Key validity bounds must be finite numbers');
+        }
+    }
+    if (key.validFrom !== undefined && key.validUntil !== undefined && key.validUntil <= key.validFrom) {
+        throw new Error('Key validity window is empty');
+    }
+}
@@ -0,0 +1,265 @@
+/**
+ * Key Rotation and Revocation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KeyHistory, checkKeyEventRecord } from './rotation.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { MemoryStorageAdapter } from '../storage/memory.js';
+import { verifyProofWithKeyHistory } from '../verification/resolver.js';
+import { signTreeHead } from '../proof/tree-head.js';
+import { generateKeyPair, sha3, ed25519Scheme } from '../crypto/index.js';
+
+describe('Key Rotation', () => {
+    const agentId = '0xAgent';
+
+    function addEvent(registry: CausalEventRegistry) {
+        return registry.registerEvent({
+            agentId,
+            actionType: 'request',
+            payloadHash: sha3(String(registry.getEventCount())),
+            predecessorHash: registry.getLastEventHash(),
+            timestamp: Date.now()
+        });
+    }
+
+    describe('registry key events', () => {
+        it('should record rotations as signed events in the log', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            addEvent(registry);
+
+            const record = registry.rotateKey(first.privateKey, second.publicKey);
+            expect(record.event.actionType).toBe('key_rotation');
+            expect(record.event.positionInTree).toBe(1);
+            expect(record.previousPublicKey).toBe(first.publicKey);
+            expect(record.newPublicKey).toBe(second.publicKey);
+            expect(checkKeyEventRecord(record)).toEqual([]);
+            expect(registry.getKeyEvents()).toHaveLength(1);
+            expect(registry.export().keyEvents).toHaveLength(1);
+        });
+
+        it('should require the current key to sign key events', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            registry.rotateKey(first.privateKey, second.publicKey);
+
+            expect(() => registry.rotateKey(first.privateKey, generateKeyPair().publicKey)).toThrow(
+                'signed with the current agent key'
+            );
+            expect(() => registry.rotateKey(second.privateKey, second.publicKey)).toThrow('must differ');
+            expect(() => registry.rotateKey(second.privateKey, first.publicKey)).not.toThrow();
+        });
+
+        it('should not reinstate revoked keys or continue after a terminal revocation', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            registry.revokeKey(first.privateKey, second.publicKey);
+            expect(() => registry.rotateKey(second.privateKey, first.publicKey)).toThrow('revoked');
+
+            registry.revokeKey(second.privateKey);
+            expect(() => registry.rotateKey(second.privateKey, generateKeyPair().publicKey)).toThrow(
+                'revoked without replacement'
+            );
+        });
+
+        it('should reject key action types in registerEvent', () => {
+            const registry = new CausalEventRegistry(agentId);
+            expect(() =>
+                registry.registerEvent({
+                    agentId,
+                    actionType: 'key_rotation',
+                    payloadHash: sha3('x'),
+                    predecessorHash: null,
+                    timestamp: Date.now()
+                })
+            ).toThrow('rotateKey or revokeKey');
+        });
+
+        it('should persist key records and check them on restore and import', () => {
+            const storage = new MemoryStorageAdapter();
+            const registry = new CausalEventRegistry(agentId, { storage });
+            const first = generateKeyPair();
+            addEvent(registry);
+            registry.rotateKey(first.privateKey, generateKeyPair().publicKey);
+
+            expect(new CausalEventRegistry(agentId, { storage }).getKeyEvents()).toEqual(registry.getKeyEvents());
+            expect(CausalEventRegistry.fromExport(registry.export()).getKeyEvents()).toHaveLength(1);
+
+            const missing = registry.export();
+            delete missing.keyEvents;
+            expect(() => CausalEventRegistry.fromExport(missing)).toThrow('has no key record');
+
+            const forged = registry.export();
+            forged.keyEvents![0]!.newPublicKey = generateKeyPair().publicKey;
+            expect(() => CausalEventRegistry.fromExport(forged)).toThrow('Invalid key record');
+        });
+
+        it('should reopen storage after a crash between writing a key record and its event', () => {
+            class CrashingStorage extends MemoryStorageAdapter {
+                crash = false;
+                putEvent(event: Parameters<MemoryStorageAdapter['putEvent']>[0]): void {
+                    if (this.crash) throw new Error('crash');
+                    super.putEvent(event);
+                }
+            }
+            const storage = new CrashingStorage();
+            const registry = new CausalEventRegistry(agentId, { storage });
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            addEvent(registry);
+
+            storage.crash = true;
+            expect(() => registry.rotateKey(first.privateKey, generateKeyPair().publicKey)).toThrow('crash');
+            storage.crash = false;
+            expect(storage.load().keyEvents).toHaveLength(1);
+
+            const reopened = new CausalEventRegistry(agentId, { storage });
+            expect(reopened.getEventCount()).toBe(1);
+            expect(reopened.getKeyEvents()).toEqual([]);
+
+            addEvent(reopened);
+            const record = reopened.rotateKey(first.privateKey, second.publicKey);
+            const again = new CausalEventRegistry(agentId, { storage });
+            expect(again.getEventCount()).toBe(3);
+            expect(again.getKeyEvents()).toEqual([record]);
+        });
+
+        it('should sign and check key events in the Ed25519 scheme', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = ed25519Scheme.generateKeyPair();
+            const second = ed25519Scheme.generateKeyPair();
+            addEvent(registry);
+
+            const record = registry.rotateKey(first.privateKey, second.publicKey, { scheme: 'ed25519' });
+            expect(record.scheme).toBe('ed25519');
+            expect(record.previousPublicKey).toBe(first.publicKey);
+            expect(checkKeyEventRecord(record)).toEqual([]);
+            expect(checkKeyEventRecord({ ...record, scheme: undefined })).not.toEqual([]);
+
+            expect(() => registry.rotateKey(second.privateKey, generateKeyPair().publicKey)).toThrow(
+                'must use the agent key scheme ed25519'
+            );
+            const later = addEvent(registry);
+            const proof = new ProofGenerator(registry).generateProof(later.causalEventId, second.privateKey, undefined, {
+                scheme: 'ed25519'
+            });
+            const rotated = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents(), 'ed25519');
+            expect(verifyProofWithKeyHistory(proof, agentId, rotated).isValid).toBe(true);
+            expect(verifyProofWithKeyHistory({ ...proof, signatureScheme: 'secp256k1' }, agentId, rotated).errors)
+                .toEqual(['Key history holds ed25519 keys, but the proof is signed with secp256k1']);
+
+            registry.revokeKey(second.privateKey, null, { scheme: 'ed25519' });
+            expect(CausalEventRegistry.fromExport(registry.export()).getKeyEvents()).toHaveLength(2);
+
+            const history = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents(), 'ed25519');
+            expect(history.getKeyAt(1)).toBe(first.publicKey);
+            expect(history.getKeyAt(3)).toBeNull();
+            expect(() => new KeyHistory(agentId, first.publicKey, registry.getKeyEvents())).toThrow(
+                'Invalid initial public key'
+            );
+        });
+
+        it('should only trust a key event position proven under a signed tree head', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            addEvent(registry);
+            const record = registry.rotateKey(first.privateKey, second.publicKey);
+            addEvent(registry);
+            addEvent(registry);
+
+            const moved = { ...record, event: { ...record.event, positionInTree: 3 } };
+            expect(checkKeyEventRecord(moved)).toEqual(['Key event tree head does not match the event']);
+
+            // Re-pointing the tree head needs the retiring key, and even then the path must match
+            const rootHash = registry.getRootHash();
+            const treeHead = { ...record.treeHead, treeSize: 4, rootHash };
+            const event = { ...moved.event, treeRootHash: rootHash };
+            const resigned = { ...moved, event, treeHead, treeHeadSignature: signTreeHead(treeHead, second.privateKey) };
+            expect(checkKeyEventRecord(resigned)).toEqual(['Key event tree head signature verification failed']);
+
+            const misplaced = { ...resigned, treeHeadSignature: signTreeHead(treeHead, first.privateKey) };
+            expect(checkKeyEventRecord(misplaced)).toEqual([
+                'Key event is not included at its position under the signed tree head'
+            ]);
+            expect(() => new KeyHistory(agentId, first.publicKey, [misplaced])).toThrow('Invalid key record');
+
+            const exported = registry.export();
+            exported.keyEvents = [moved];
+            expect(() => CausalEventRegistry.fromExport(exported)).toThrow('refers to unknown event');
+        });
+    });
+
+    describe('KeyHistory', () => {
+        it('should assign keys by tree size', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            addEvent(registry);
+            addEvent(registry);
+            registry.rotateKey(first.privateKey, second.publicKey); // position 2
+
+            const history = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents());
+            expect(history.getKeyAt(1)).toBe(first.publicKey);
+            expect(history.getKeyAt(2)).toBe(first.publicKey);
+            expect(history.getKeyAt(3)).toBe(second.publicKey);
+            expect(history.getCurrentKey()).toBe(second.publicKey);
+        });
+
+        it('should reject revoked keys at every tree size', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            addEvent(registry);
+            registry.revokeKey(first.privateKey, second.publicKey);
+
+            const history = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents());
+            expect(history.isRevoked(first.publicKey)).toBe(true);
+            expect(history.getKeyAt(1)).toBeNull();
+            expect(history.getKeyAt(2)).toBe(second.publicKey);
+        });
+
+        it('should reject records not signed by the trusted initial key', () => {
+            const registry = new CausalEventRegistry(agentId);
+            registry.rotateKey(generateKeyPair().privateKey, generateKeyPair().publicKey);
+            expect(() => new KeyHistory(agentId, generateKeyPair().publicKey, registry.getKeyEvents())).toThrow(
+                'not signed by the current key'
+            );
+        });
+    });
+
+    describe('verifyProofWithKeyHistory', () => {
+        it('should keep historical proofs valid and reject proofs from revoked keys', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const generator = new ProofGenerator(registry);
+            const first = generateKeyPair();
+            const second = generateKeyPair();
+            const third = generateKeyPair();
+
+            const early = addEvent(registry);
+            const oldProof = generator.generateProof(early.causalEventId, first.privateKey);
+            registry.rotateKey(first.privateKey, second.publicKey);
+
+            const later = addEvent(registry);
+            const newProof = generator.generateProof(later.causalEventId, second.privateKey);
+            const staleKeyProof = generator.generateProof(later.causalEventId, first.privateKey);
+
+            let history = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents());
+            expect(verifyProofWithKeyHistory(oldProof, agentId, history).isValid).toBe(true);
+            expect(verifyProofWithKeyHistory(newProof, agentId, history).isValid).toBe(true);
+            expect(verifyProofWithKeyHistory(staleKeyProof, agentId, history).isValid).toBe(false);
+
+            registry.revokeKey(second.privateKey, third.publicKey);
+            history = new KeyHistory(agentId, first.publicKey, registry.getKeyEvents());
+            const revoked = verifyProofWithKeyHistory(newProof, agentId, history);
+            expect(revoked.isValid).toBe(false);
+            expect(revoked.errors[0]).toMatch(/No unrevoked key/);
+            expect(verifyProofWithKeyHistory(oldProof, agentId, history).isValid).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * Key Rotation and Revocation
+ * Signs key announcements and derives which key was valid at each tree size
+ * @module identity/rotation
+ */
+
+import type { KeyAnnouncement, KeyEventRecord, SignatureSchemeId } from '../types/index.js';
+import { sha3Concat } from '../crypto/sha3.js';
+import { getSignatureScheme, isSignatureSchemeId, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import { MerkleTree } from '../merkle/tree.js';
+import { verifyTreeHeadSignature } from '../proof/tree-head.js';
+
+/**
+ * Domain separator for key announcement hashes
+ */
+export const KEY_ANNOUNCEMENT_DOMAIN = 'causal-key-announcement-v1';
+
+/**
+ * Compute the hash of a key announcement (the payloadHash of its key event)
+ * @param announcement - Key change to hash
+ * @returns SHA3-256 hash (hex)
+ */
+export function hashKeyAnnouncement(announcement: KeyAnnouncement): string {
+    const fields = [
+        KEY_ANNOUNCEMENT_DOMAIN,
+        announcement.agentId,
+        announcement.type,
+        announcement.previousPublicKey,
+        announcement.newPublicKey
+    ];
+    // secp256k1 announcements hash as they did before schemes were recorded
+    if (announcement.scheme !== undefined && announcement.scheme !== DEFAULT_SIGNATURE_SCHEME) {
+        fields.push(announcement.scheme);
+    }
+    return sha3Concat(...fields);
+}
+
+/**
+ * Sign a key announcement with the key it retires
+ * @param announcement - Key change to sign
+ * @param privateKey - Private key of announcement.previousPublicKey
+ * @returns Signature (hex) in the announcement's scheme
+ * @throws Error if the scheme is unsupported
+ */
+export function signKeyAnnouncement(announcement: KeyAnnouncement, privateKey: string): string {
+    return getSignatureScheme(announcement.scheme).sign(hashKeyAnnouncement(announcement), privateKey);
+}
+
+/**
+ * Check a key record on its own: event binding, event hash, signature, and
+ * inclusion of the event at its stated position under a tree head signed by
+ * the retiring key
+ * @param record - Key record to check
+ * @returns Error messages (empty if the record is self-consistent)
+ */
+export function checkKeyEventRecord(record: KeyEventRecord): string[] {
+    const errors: string[] = [];
+    const { event } = record;
+
+    if (record.scheme !== undefined && !isSignatureSchemeId(record.scheme)) {
+        return [`Unsupported signature scheme: ${String(record.scheme)}`];
+    }
+    const scheme = getSignatureScheme(record.scheme);
+
+    if (record.type !== 'key_rotation' && record.type !== 'key_revocation') {
+        errors.push(`Unknown key event type: ${String(record.type)}`);
+    }
+    if (event.actionType !== record.type) {
+        errors.push(`Key event action type ${event.actionType} does not match ${record.type}`);
+    }
+    if (event.agentId !== record.agentId) {
+        errors.push('Key event agent ID does not match the announcement');
+    }
+    if (!scheme.isValidPublicKey(record.previousPublicKey)) {
+        errors.push('Key announcement has an invalid previous public key');
+    }
+    if (record.type === 'key_rotation' && record.newPublicKey === null) {
+        errors.push('Key rotation must announce a new public key');
+    }
+    if (record.newPublicKey !== null) {
+        if (!scheme.isValidPublicKey(record.newPublicKey)) {
+            errors.push('Key announcement has an invalid new public key');
+        } else if (record.newPublicKey === record.previousPublicKey) {
+            errors.push('Key announcement must change the key');
+        }
+    }
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    const payloadHash = hashKeyAnnouncement(record);
+    if (event.payloadHash !== payloadHash) {
+        errors.push('Key event payload hash does not match the announcement');
+    }
+    const eventHash = sha3Concat(
+        event.agentId,
+        event.actionType,
+        event.payloadHash,
+        event.predecessorHash,
+        String(event.timestamp)
+    );
+    if (eventHash !== event.eventHash) {
+        errors.push('Key event hash integrity check failed');
+    }
+    if (!scheme.verify(payloadHash, record.signature, record.previousPublicKey)) {
+        errors.push('Key announcement signature verification failed');
+    }
+
+    // positionInTree is not covered by the event hash, so it is trusted only
+    // once the event is proven at that position under a signed root
+    const { treeHead } = record;
+    if (
+        treeHead.agentId !== record.agentId ||
+        treeHead.treeSize !== event.positionInTree + 1 ||
+        treeHead.rootHash !== event.treeRootHash
+    ) {
+        errors.push('Key event tree head does not match the event');
+    } else if (!verifyTreeHeadSignature(treeHead, record.treeHeadSignature, record.previousPublicKey, scheme.id)) {
+        errors.push('Key event tree head signature verification failed');
+    } else if (
+        !MerkleTree.verifyProof(event.eventHash, record.proofPath, treeHead.rootHash, {
+            version: treeHead.treeVersion,
+            leafIndex: event.positionInTree,
+            treeSize: treeHead.treeSize
+        })
+    ) {
+        errors.push('Key event is not included at its position under the signed tree head');
+    }
+    return errors;
+}
+
+/**
+ * Key timeline of one agent, replayed from its key records
+ *
+ * A rotation recorded at tree position p leaves the previous key valid for
+ * tree heads of size p or less (historical proofs stay checkable) and makes
+ * the new key valid from size p + 1. A revocation invalidates the revoked key
+ * at every tree size, and installs the optional replacement from size p + 1.
+ */
+export class KeyHistory {
+    private readonly agentId: string;
+    private readonly scheme: SignatureSchemeId;
+    private readonly segments: { fromTreeSize: number; publicKey: string | null }[];
+    private readonly revoked: Set<string> = new Set();
+    private readonly records: KeyEventRecord[] = [];
+
+    /**
+     * @param agentId - Agent whose keys are tracked
+     * @param initialPublicKey - Key the agent registered with (trusted out of band)
+     * @param records - Key records in registration order
+     * @param scheme - Signature scheme of the agent's keys (default: secp256k1)
+     * @throws Error if a record is invalid or does not follow from the key before it
+     */
+    constructor(
+        agentId: string,
+        initialPublicKey: string,
+        records: KeyEventRecord[] = [],
+        scheme: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+    ) {
+        if (!getSignatureScheme(scheme).isValidPublicKey(initialPublicKey)) {
+            throw new Error('Invalid initial public key');
+        }
+        this.agentId = agentId;
+        this.scheme = scheme;
+        this.segments = [{ fromTreeSize: 0, publicKey: initialPublicKey }];
+        for (const record of records) {
+            this.apply(record);
+        }
+    }
+
+    /**
+     * Append the next key record
+     * @param record - Key record following every record applied so far
+     * @throws Error if the record is invalid, out of order, or not signed by the current key
+     */
+    apply(record: KeyEventRecord): void {
+        if (record.agentId !== this.agentId) {
+            throw new Error(`Key record agent ID mismatch: expected ${this.agentId}, got ${record.agentId}`);
+        }
+        const scheme = record.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+        if (scheme !== this.scheme) {
+            throw new Error(`Key record scheme mismatch: expected ${this.scheme}, got ${scheme}`);
+        }
+        const errors = checkKeyEventRecord(record);
+        if (errors.length > 0) {
+            throw new Error(`Invalid key record ${record.event.causalEventId}: ${errors.join('; ')}`);
+        }
+
+        const last = this.records[this.records.length - 1];
+        if (last && record.event.positionInTree <= last.event.positionInTree) {
+            throw new Error('Key records must be in tree order');
+        }
+        const current = this.getCurrentKey();
+        if (current === null) {
+            throw new Error('Agent key was revoked without replacement');
+        }
+        if (record.previousPublicKey !== current) {
+            throw new Error('Key record is not signed by the current key');
+        }
+        if (record.newPublicKey !== null && this.revoked.has(record.newPublicKey)) {
+            throw new Error('Key record reinstates a revoked key');
+        }
+
+        if (record.type === 'key_revocation') {
+            this.revoked.add(record.previousPublicKey);
+        }
+        this.segments.push({ fromTreeSize: record.event.positionInTree + 1, publicKey: record.newPublicKey });
+        this.records.push({ ...record });
+    }
+
+    /**
+     * Get the key that may sign a tree head of the given size
+     * @param treeSize - Tree size stated by the signed tree head
+     * @returns Public key, or null if no unrevoked key covers that size
+     */
+    getKeyAt(treeSize: number): string | null {
+        let publicKey: string | null = null;
+        for (const segment of this.segments) {
+            if (segment.fromTreeSize > treeSize) break;
+            publicKey = segment.publicKey;
+        }
+        return publicKey !== null && !this.revoked.has(publicKey) ? publicKey : null;
+    }
+
+    /**
+     * Get the key valid for new tree heads
+     * @returns Current public key, or null after a revocation without replacement
+     */
+    getCurrentKey(): string | null {
+        return this.segments[this.segments.length - 1]!.publicKey;
+    }
+
+    /**
+     * Check whether a key has been revoked
+     */
+    isRevoked(publicKey: string): boolean {
+        return this.revoked.has(publicKey);
+    }
+
+    /**
+     * Get the signature scheme of the agent's keys
+     */
+    getScheme(): SignatureSchemeId {
+        return this.scheme;
+    }
+
+    /**
+     * Get the agent ID the history belongs to
+     */
+    getAgentId(): string {
+        return this.agentId;
+    }
+
+    /**
+     * Get the applied key records in order
+     */
+    getRecords(): KeyEventRecord[] {
+        return this.records.map(record => ({ ...record }));
+    }
+}
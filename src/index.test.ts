@@ -16,8 +16,19 @@ import {
     MerkleTree,
     CausalEventRegistry
 } from './index.js';
+import * as mainEntry from './index.js';
+import * as nodeEntry from './node.js';
 
 describe('Main exports', () => {
+    it('should keep file system adapters out of the main entry', () => {
+        expect('FileStorageAdapter' in mainEntry).toBe(false);
+        expect('openFileRegistry' in mainEntry).toBe(false);
+        expect('FileKeyResolver' in mainEntry).toBe(false);
+        expect(typeof nodeEntry.FileStorageAdapter).toBe('function');
+        expect(typeof nodeEntry.openFileRegistry).toBe('function');
+        expect(typeof nodeEntry.FileKeyResolver).toBe('function');
+    });
+
     it('should export sha3 functions', () => {
         expect(typeof sha3).toBe('function');
         expect(typeof sha3Bytes).toBe('function');
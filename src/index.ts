@@ -7,29 +7,86 @@
 // Core types
 export type {
     ActionType,
+    TreeFormatVersion,
+    SignatureSchemeId,
     EventInput,
     CausalEvent,
     ProofPathElement,
+    ConsistencyProof,
+    SignedTreeHead,
     CausalProof,
     CausalChainElement,
+    BatchCausalProof,
     VerificationResult,
+    LightProof,
+    ProofPackage,
+    ProgressiveResult,
+    FraudReport,
     SemanticRules,
     TreeExport,
-    RegistryExport
+    RegistryExport,
+    MerkleNodeRecord,
+    StoredRegistryState,
+    KeyEventType,
+    KeyAnnouncement,
+    KeyEventRecord,
+    PayloadEncoding,
+    HeaderSource,
+    JsonPayload,
+    RawPayload,
+    HttpPayloadFields,
+    HttpRequestPayload,
+    HttpResponsePayload,
+    PayloadDescriptor,
+    DisclosedField,
+    FullPayloadDisclosure,
+    FieldPayloadDisclosure,
+    PayloadDisclosure
 } from './types/index.js';
 
 export * from './registry/index.js';
 export * from './proof/index.js';
 export * from './verification/index.js';
 export * from './integration/index.js';
+export * from './storage/index.js';
+export * from './identity/index.js';
+export * from './payload/index.js';
 
 // Crypto utilities
-export { sha3, sha3Bytes, sha3Concat } from './crypto/sha3.js';
+export { sha3, sha3Bytes, sha3Concat, keccak256 } from './crypto/sha3.js';
+export { sha256, hmacSha256 } from './crypto/sha256.js';
+export { sha512, sha512Bytes } from './crypto/sha512.js';
+export { pureHashBackend, createNodeHashBackend, getHashBackend, setHashBackend } from './crypto/hash-backend.js';
+export type { HashBackend, IncrementalHash, NodeCryptoLike } from './crypto/hash-backend.js';
+export { Sha3Hasher, sha3Stream } from './crypto/hasher.js';
+export type { HashableStream } from './crypto/hasher.js';
 export { generateUUIDv7, extractTimestamp, isValidUUIDv7, compareUUIDv7 } from './crypto/uuid.js';
-export { generateKeyPair, sign, verify, recoverPublicKey } from './crypto/ecdsa.js';
+export {
+    generateKeyPair,
+    getPublicKey,
+    sign,
+    signRecoverable,
+    isRecoverableSignature,
+    verify,
+    recoverPublicKey,
+    recoverSigner,
+    isValidPrivateKey,
+    isValidPublicKey
+} from './crypto/ecdsa.js';
+export type { SignOptions } from './crypto/ecdsa.js';
+export { isAddress, toChecksumAddress, publicKeyToAddress, addressesEqual } from './crypto/address.js';
+export {
+    DEFAULT_SIGNATURE_SCHEME,
+    secp256k1Scheme,
+    ed25519Scheme,
+    getSignatureScheme,
+    isSignatureSchemeId
+} from './crypto/signature.js';
+export type { SignatureScheme } from './crypto/signature.js';
 
 // Merkle tree
-export { MerkleTree } from './merkle/tree.js';
+export { MerkleTree, DEFAULT_TREE_VERSION } from './merkle/tree.js';
+export type { MerkleTreeStore, MerkleTreeOptions, InclusionOptions } from './merkle/tree.js';
 
 // Event registry
 export { CausalEventRegistry } from './registry/registry.js';
@@ -0,0 +1,64 @@
+/**
+ * CBOR Encoding Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeCbor, decodeCbor } from './cbor.js';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const bytes = (h: string) => Uint8Array.from(h.match(/../g) ?? [], b => parseInt(b, 16));
+
+describe('CBOR', () => {
+    it('should match the RFC 8949 Appendix A encodings', () => {
+        const vectors: [unknown, string][] = [
+            [0, '00'], [23, '17'], [24, '1818'], [1000, '1903e8'], [1000000, '1a000f4240'],
+            [1000000000000, '1b000000e8d4a51000'], [-1, '20'], [-1000, '3903e7'],
+            [1.1, 'fb3ff199999999999a'], [false, 'f4'], [true, 'f5'], [null, 'f6'],
+            ['', '60'], ['IETF', '6449455446'], ['ü', '62c3bc'],
+            [[1, [2, 3]], '8201820203'], [{ a: 1, b: [2, 3] }, 'a26161016162820203']
+        ];
+        for (const [value, encoded] of vectors) {
+            expect(hex(encodeCbor(value))).toBe(encoded);
+            expect(decodeCbor(bytes(encoded))).toEqual(value);
+        }
+    });
+
+    it('should pack hex strings and known keys when asked', () => {
+        const options = { keyTable: ['hash'], packHex: true };
+        const value = { hash: '0x' + 'ab'.repeat(32), other: '0xAB', odd: '0xabc', empty: '0x' };
+        const encoded = encodeCbor(value, options);
+
+        expect(hex(encoded).startsWith('a4005820' + 'ab'.repeat(32))).toBe(true);
+        expect(decodeCbor(encoded, options)).toEqual(value);
+        expect(() => decodeCbor(encoded, { packHex: true })).toThrow('Unknown CBOR key index: 0');
+    });
+
+    it('should follow JSON semantics for undefined members, toJSON and -0', () => {
+        expect(decodeCbor(encodeCbor({ at: new Date(0), skip: undefined, zero: -0 })))
+            .toEqual({ at: '1970-01-01T00:00:00.000Z', zero: 0 });
+        expect(() => encodeCbor([undefined])).toThrow('undefined array element');
+        expect(() => encodeCbor({ n: Infinity })).toThrow('non-finite number');
+        expect(() => encodeCbor({ b: 1n })).toThrow('unsupported bigint');
+    });
+
+    it('should reject malformed and hostile input without allocating', () => {
+        expect(() => decodeCbor(bytes('5bffffffffffffffff'))).toThrow('too large');
+        expect(() => decodeCbor(bytes('5a7fffffff00'))).toThrow('Truncated');
+        expect(() => decodeCbor(bytes('9a7fffffff'))).toThrow('Truncated');
+        expect(() => decodeCbor(bytes('9f01ff'))).toThrow('Unsupported CBOR length encoding');
+        expect(() => decodeCbor(bytes('c11a514b67b0'))).toThrow('tags are not supported');
+        expect(() => decodeCbor(bytes('0001'))).toThrow('trailing bytes');
+        expect(() => decodeCbor(bytes('62c328'))).toThrow();
+        expect(() => decodeCbor(bytes('a2616101616102'))).toThrow('Duplicate CBOR map key: a');
+        expect(() => decodeCbor(bytes('a1410001'))).toThrow('map keys must be integers or text');
+        expect(() => decodeCbor(bytes('81'.repeat(100) + '00'))).toThrow('nested too deeply');
+        expect(decodeCbor(bytes('8181818100'), { maxDepth: 4 })).toEqual([[[[0]]]]);
+        expect(() => decodeCbor(bytes('8181818100'), { maxDepth: 3 })).toThrow('nested too deeply');
+    });
+
+    it('should keep __proto__ as a plain member', () => {
+        const decoded = decodeCbor(bytes('a1695f5f70726f746f5f5fa0')) as Record<string, unknown>;
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(Object.keys(decoded)).toEqual(['__proto__']);
+    });
+});
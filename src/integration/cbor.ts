@@ -0,0 +1,299 @@
+/**
+ * Compact CBOR (RFC 8949) for JSON Values
+ * Deterministic encoding of JSON data, with optional integer keys for known
+ * member names and raw bytes for 0x-prefixed hex strings
+ * @module integration/cbor
+ */
+
+/**
+ * Options shared by encoder and decoder; both sides must use the same values
+ */
+export interface CborOptions {
+    /** Member names encoded as their index in this table (append-only once deployed) */
+    keyTable?: readonly string[];
+    /** Encode lower-case 0x-prefixed hex strings as byte strings (decoded back to hex) */
+    packHex?: boolean;
+}
+
+/**
+ * Decoder limits
+ */
+export interface CborDecodeOptions extends CborOptions {
+    /** Maximum nesting of arrays and maps (default: 64) */
+    maxDepth?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 64;
+const HEX_STRING = /^0x(?:[0-9a-f]{2})*$/;
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+
+const SIMPLE_FALSE = 0xf4;
+const SIMPLE_TRUE = 0xf5;
+const SIMPLE_NULL = 0xf6;
+const FLOAT32 = 0xfa;
+const FLOAT64 = 0xfb;
+
+/**
+ * Encode a JSON value as CBOR
+ * Follows JSON.stringify semantics: toJSON() is honoured and undefined
+ * object members are left out. Integers use the shortest CBOR integer form,
+ * other numbers are 64-bit floats.
+ * @param value - JSON-compatible value
+ * @param options - Key table and hex packing
+ * @returns CBOR bytes
+ * @throws Error on values JSON cannot represent
+ */
+export function encodeCbor(value: unknown, options: CborOptions = {}): Uint8Array {
+    const keyIndex = new Map((options.keyTable ?? []).map((key, i) => [key, i]));
+    const out: number[] = [];
+    const text = new TextEncoder();
+
+    const writeHead = (major: number, n: number) => {
+        if (n < 24) {
+            out.push((major << 5) | n);
+        } else if (n < 0x100) {
+            out.push((major << 5) | 24, n);
+        } else if (n < 0x10000) {
+            out.push((major << 5) | 25, n >> 8, n & 0xff);
+        } else if (n < 0x100000000) {
+            out.push((major << 5) | 26, n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+        } else {
+            const hi = Math.floor(n / 0x100000000);
+            const lo = n >>> 0;
+            out.push((major << 5) | 27, hi >>> 24, (hi >> 16) & 0xff, (hi >> 8) & 0xff, hi & 0xff,
+                lo >>> 24, (lo >> 16) & 0xff, (lo >> 8) & 0xff, lo & 0xff);
+        }
+    };
+
+    const writeText = (s: string) => {
+        const bytes = text.encode(s);
+        writeHead(MAJOR_TEXT, bytes.length);
+        for (const b of bytes) out.push(b);
+    };
+
+    const writeString = (s: string) => {
+        if (options.packHex && HEX_STRING.test(s)) {
+            writeHead(MAJOR_BYTES, (s.length - 2) / 2);
+            for (let i = 2; i < s.length; i += 2) {
+                out.push(parseInt(s.slice(i, i + 2), 16));
+            }
+        } else {
+            writeText(s);
+        }
+    };
+
+    const write = (v: unknown, depth: number) => {
+        if (depth > DEFAULT_MAX_DEPTH) {
+            throw new Error('Cannot encode CBOR: value is nested too deeply');
+        }
+        if (v !== null && typeof v === 'object' && typeof (v as { toJSON?: unknown }).toJSON === 'function') {
+            v = (v as { toJSON: () => unknown }).toJSON();
+        }
+
+        if (v === null) {
+            out.push(SIMPLE_NULL);
+        } else if (typeof v === 'boolean') {
+            out.push(v ? SIMPLE_TRUE : SIMPLE_FALSE);
+        } else if (typeof v === 'number') {
+            if (!Number.isFinite(v)) {
+                throw new Error('Cannot encode CBOR: non-finite number');
+            }
+            if (Number.isSafeInteger(v)) {
+                // -0 is written as 0, as in JSON
+                if (v >= 0) writeHead(MAJOR_UNSIGNED, v);
+                else writeHead(MAJOR_NEGATIVE, -1 - v);
+            } else {
+                const view = new DataView(new ArrayBuffer(8));
+                view.setFloat64(0, v);
+                out.push(FLOAT64, ...new Uint8Array(view.buffer));
+            }
+        } else if (typeof v === 'string') {
+            writeString(v);
+        } else if (Array.isArray(v)) {
+            writeHead(MAJOR_ARRAY, v.length);
+            for (const item of v) {
+                if (item === undefined) {
+                    throw new Error('Cannot encode CBOR: undefined array element');
+                }
+                write(item, depth + 1);
+            }
+        } else if (typeof v === 'object') {
+            const record = v as Record<string, unknown>;
+            const keys = Object.keys(record).filter(key => record[key] !== undefined);
+            writeHead(MAJOR_MAP, keys.length);
+            for (const key of keys) {
+                const index = keyIndex.get(key);
+                if (index !== undefined) writeHead(MAJOR_UNSIGNED, index);
+                else writeText(key);
+                write(record[key], depth + 1);
+            }
+        } else {
+            throw new Error(`Cannot encode CBOR: unsupported ${typeof v}`);
+        }
+    };
+
+    write(value, 0);
+    return Uint8Array.from(out);
+}
+
+/**
+ * Decode CBOR produced by encodeCbor
+ * Only definite-length items without tags are accepted. Every declared
+ * length is checked against the remaining input before anything is
+ * allocated, and nesting is limited, so hostile input cannot exhaust memory.
+ * @param bytes - CBOR bytes
+ * @param options - Key table, hex packing and nesting limit (must match the encoder)
+ * @returns Decoded JSON value
+ * @throws Error if the input is malformed, truncated or exceeds the limits
+ */
+export function decodeCbor(bytes: Uint8Array, options: CborDecodeOptions = {}): unknown {
+    const keyTable = options.keyTable ?? [];
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const text = new TextDecoder('utf-8', { fatal: true });
+    let offset = 0;
+
+    const need = (n: number) => {
+        if (n > bytes.length - offset) {
+            throw new Error('Truncated CBOR input');
+        }
+    };
+
+    const readByte = (): number => {
+        need(1);
+        return bytes[offset++]!;
+    };
+
+    const readLength = (info: number): number => {
+        if (info < 24) return info;
+        const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+        if (size === 0) {
+            throw new Error('Unsupported CBOR length encoding');
+        }
+        need(size);
+        let n = 0;
+        for (let i = 0; i < size; i++) {
+            n = n * 256 + bytes[offset++]!;
+        }
+        if (!Number.isSafeInteger(n)) {
+            throw new Error('CBOR integer is too large');
+        }
+        return n;
+    };
+
+    const readKey = (): string => {
+        const head = readByte();
+        const major = head >> 5;
+        if (major === MAJOR_UNSIGNED) {
+            const index = readLength(head & 0x1f);
+            const key = keyTable[index];
+            if (key === undefined) {
+                throw new Error(`Unknown CBOR key index: ${index}`);
+            }
+            return key;
+        }
+        if (major === MAJOR_TEXT) {
+            return readText(readLength(head & 0x1f));
+        }
+        throw new Error('CBOR map keys must be integers or text');
+    };
+
+    const readText = (length: number): string => {
+        need(length);
+        const value = text.decode(bytes.subarray(offset, offset + length));
+        offset += length;
+        return value;
+    };
+
+    const read = (depth: number): unknown => {
+        const head = readByte();
+        const major = head >> 5;
+        const info = head & 0x1f;
+
+        switch (major) {
+            case MAJOR_UNSIGNED:
+                return readLength(info);
+            case MAJOR_NEGATIVE:
+                return -1 - readLength(info);
+            case MAJOR_BYTES: {
+                const length = readLength(info);
+                need(length);
+                const data = bytes.slice(offset, offset + length);
+                offset += length;
+                return options.packHex
+                    ? '0x' + Array.from(data, b => b.toString(16).padStart(2, '0')).join('')
+                    : data;
+            }
+            case MAJOR_TEXT:
+                return readText(readLength(info));
+            case MAJOR_ARRAY:
+            case MAJOR_MAP: {
+                if (depth >= maxDepth) {
+                    throw new Error('CBOR input is nested too deeply');
+                }
+                const count = readLength(info);
+                // Every item takes at least one byte (two per map entry)
+                need(major === MAJOR_MAP ? count * 2 : count);
+                if (major === MAJOR_ARRAY) {
+                    const items: unknown[] = [];
+                    for (let i = 0; i < count; i++) items.push(read(depth + 1));
+                    return items;
+                }
+                const record: Record<string, unknown> = {};
+                for (let i = 0; i < count; i++) {
+                    const key = readKey();
+                    if (Object.prototype.hasOwnProperty.call(record, key)) {
+                        throw new Error(`Duplicate CBOR map key: ${key}`);
+                    }
+                    // defineProperty keeps keys such as __proto__ as plain members
+                    Object.defineProperty(record, key, {
+                        value: read(depth + 1),
+                        enumerable: true,
+                        writable: true,
+                        configurable: true
+                    });
+                }
+                return record;
+            }
+            case MAJOR_TAG:
+                throw new Error('CBOR tags are not supported');
+            default:
+                // Major type 7: simple values and floats
+                return readSimple(head);
+        }
+    };
+
+    const readSimple = (head: number): unknown => {
+        switch (head) {
+            case SIMPLE_FALSE: return false;
+            case SIMPLE_TRUE: return true;
+            case SIMPLE_NULL: return null;
+            case FLOAT32:
+            case FLOAT64: {
+                const size = head === FLOAT32 ? 4 : 8;
+                need(size);
+                const view = new DataView(bytes.buffer, bytes.byteOffset + offset, size);
+                offset += size;
+                const value = size === 4 ? view.getFloat32(0) : view.getFloat64(0);
+                if (!Number.isFinite(value)) {
+                    throw new Error('CBOR number is not finite');
+                }
+                return value;
+            }
+            default:
+                throw new Error(`Unsupported CBOR simple value: 0x${head.toString(16)}`);
+        }
+    };
+
+    const value = read(0);
+    if (offset !== bytes.length) {
+        throw new Error('Unexpected trailing bytes after CBOR value');
+    }
+    return value;
+}
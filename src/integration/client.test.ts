@@ -0,0 +1,194 @@
+/**
+ * x402 Client Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCausalFetch, FetchLike } from './client.js';
+import { evaluateCausalRequest } from './middleware.js';
+import { CAUSAL_PROOF_HEADER, CAUSAL_PROOF_SCHEMA_HEADER, decodeCausalHeader } from './x402.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { NonceCache } from '../verification/nonce.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+
+describe('x402 Client', () => {
+    const agentId = '0xAgent';
+    const { privateKey, publicKey } = generateKeyPair();
+
+    /** Server that demands a verified proof, challenging with a nonce */
+    function paidServer(calls: Headers[]): FetchLike {
+        const nonceCache = new NonceCache();
+        return async (_input, init) => {
+            const headers = new Headers(init?.headers);
+            calls.push(headers);
+            const outcome = await evaluateCausalRequest(Object.fromEntries(headers.entries()), {
+                resolvePublicKey: id => (id === agentId ? publicKey : null),
+                nonceCache
+            });
+            if (!outcome.ok) {
+                return new Response(JSON.stringify(outcome.body), { status: outcome.status, headers: outcome.headers });
+            }
+            return new Response('paid content', { status: 200 });
+        };
+    }
+
+    it('should retry a 402 with a proof and record the exchange', async () => {
+        const registry = new CausalEventRegistry(agentId);
+        const calls: Headers[] = [];
+        const causalFetch = createCausalFetch({ registry, privateKey, fetch: paidServer(calls) });
+
+        const response = await causalFetch('https://api.example/data', { method: 'POST', body: '{"q":1}' });
+        expect(response.status).toBe(200);
+        expect(calls).toHaveLength(2);
+        expect(calls[0]?.has(CAUSAL_PROOF_HEADER)).toBe(false);
+
+        // The server lists causal-v2+cbor on its 402, so the newest version and compact encoding are used
+        expect(calls[1]?.get(CAUSAL_PROOF_SCHEMA_HEADER)).toBe('causal-v2+cbor');
+        const proof = decodeCausalHeader(calls[1]?.get(CAUSAL_PROOF_HEADER) ?? '', { schema: 'causal-v2+cbor' });
+        const exchange = causalFetch.lastExchange();
+        expect(exchange).not.toBeNull();
+        expect(proof.targetEvent.eventHash).toBe(exchange?.requestEvent.eventHash);
+        expect(proof.signedTreeHead?.nonce).toBeDefined();
+
+        expect(exchange?.requestEvent.payloadHash).toBe(
+            sha3(JSON.stringify({ method: 'POST', url: 'https://api.example/data', body: '{"q":1}' }))
+        );
+        expect(exchange?.outcomeEvent.actionType).toBe('response');
+        expect(exchange?.outcomeEvent.predecessorHash).toBe(exchange?.requestEvent.eventHash);
+        expect(registry.getEventCount()).toBe(2);
+    });
+
+    it('should chain consecutive exchanges', async () => {
+        const registry = new CausalEventRegistry(agentId);
+        const causalFetch = createCausalFetch({ registry, privateKey, fetch: paidServer([]) });
+
+        await causalFetch('https://api.example/a');
+        const first = causalFetch.lastExchange();
+        await causalFetch('https://api.example/b');
+        const second = causalFetch.lastExchange();
+
+        expect(second?.requestEvent.predecessorHash).toBe(first?.outcomeEvent.eventHash);
+    });
+
+    it('should fall back to causal-v1 unless the server offers the binary schema', async () => {
+        const calls: Headers[] = [];
+        const causalFetch = createCausalFetch({
+            registry: new CausalEventRegistry(agentId),
+            privateKey,
+            fetch: async (_input, init) => {
+                calls.push(new Headers(init?.headers));
+                return new Response(null, { status: calls.length === 1 ? 402 : 200 });
+            }
+        });
+
+        await causalFetch('https://api.example/data');
+        expect(calls[1]?.get(CAUSAL_PROOF_SCHEMA_HEADER)).toBe('causal-v1');
+        expect(decodeCausalHeader(calls[1]?.get(CAUSAL_PROOF_HEADER) ?? '').targetEvent.agentId).toBe(agentId);
+
+        const calls2: Headers[] = [];
+        const pinned = createCausalFetch({
+            registry: new CausalEventRegistry(agentId),
+            privateKey,
+            fetch: paidServer(calls2),
+            schema: 'causal-v1'
+        });
+        expect((await pinned('https://api.example/data')).status).toBe(200);
+        expect(calls2[1]?.get(CAUSAL_PROOF_SCHEMA_HEADER)).toBe('causal-v1');
+    });
+
+    it('should resend stream and async iterable bodies on the retry', async () => {
+        const bodies: string[] = [];
+        const causalFetch = createCausalFetch({
+            registry: new CausalEventRegistry(agentId),
+            privateKey,
+            fetch: async (_input, init) => {
+                bodies.push(await new Response(init?.body).text());
+                return new Response(null, { status: bodies.length === 1 ? 402 : 200 });
+            }
+        });
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('{"q":'));
+                controller.enqueue(new TextEncoder().encode('1}'));
+                controller.close();
+            }
+        });
+        expect((await causalFetch('https://api.example/data', { method: 'POST', body: stream })).status).toBe(200);
+        expect(bodies).toEqual(['{"q":1}', '{"q":1}']);
+
+        async function* chunks() {
+            yield new TextEncoder().encode('chunked');
+        }
+        bodies.length = 0;
+        await causalFetch('https://api.example/data', { method: 'POST', body: chunks() as unknown as ReadableStream });
+        expect(bodies).toEqual(['chunked', 'chunked']);
+    });
+
+    it('should cancel the unread 402 body before retrying', async () => {
+        const events: string[] = [];
+        const causalFetch = createCausalFetch({
+            registry: new CausalEventRegistry(agentId),
+            privateKey,
+            fetch: async () => {
+                if (events.length > 0) {
+                    events.push('retry');
+                    return new Response('paid content', { status: 200 });
+                }
+                events.push('challenge');
+                const body = new ReadableStream<Uint8Array>({ cancel: () => { events.push('cancelled'); } });
+                return new Response(body, { status: 402 });
+            }
+        });
+
+        expect((await causalFetch('https://api.example/data')).status).toBe(200);
+        expect(events).toEqual(['challenge', 'cancelled', 'retry']);
+    });
+
+    it('should pass non-402 responses through without recording events', async () => {
+        const registry = new CausalEventRegistry(agentId);
+        const causalFetch = createCausalFetch({
+            registry,
+            privateKey,
+            fetch: async () => new Response('free', { status: 200 })
+        });
+
+        expect((await causalFetch('https://api.example/free')).status).toBe(200);
+        expect(registry.getEventCount()).toBe(0);
+        expect(causalFetch.lastExchange()).toBeNull();
+    });
+
+    it('should record an error event when the retry is rejected', async () => {
+        const registry = new CausalEventRegistry(agentId);
+        const causalFetch = createCausalFetch({
+            registry,
+            privateKey,
+            fetch: async (_input, init) =>
+                new Response(null, { status: new Headers(init?.headers).has(CAUSAL_PROOF_HEADER) ? 403 : 402 }),
+            hashResponse: response => sha3(`status:${response.status}`)
+        });
+
+        expect((await causalFetch('https://api.example/data')).status).toBe(403);
+        const exchange = causalFetch.lastExchange();
+        expect(exchange?.outcomeEvent.actionType).toBe('error');
+        expect(exchange?.outcomeEvent.payloadHash).toBe(sha3('status:403'));
+    });
+
+    it('should record an error event and rethrow on network failure', async () => {
+        const registry = new CausalEventRegistry(agentId);
+        let attempts = 0;
+        const causalFetch = createCausalFetch({
+            registry,
+            privateKey,
+            fetch: async () => {
+                if (attempts++ > 0) {
+                    throw new Error('connection reset');
+                }
+                return new Response(null, { status: 402 });
+            }
+        });
+
+        await expect(causalFetch('https://api.example/data')).rejects.toThrow('connection reset');
+        expect(causalFetch.lastExchange()?.outcomeEvent.actionType).toBe('error');
+        expect(registry.getEventCount()).toBe(2);
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * x402 Client Integration
+ * fetch wrapper that answers 402 challenges with a causal proof
+ * @module integration/client
+ */
+
+import { CausalEvent, EventInput } from '../types/index.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { sha3 } from '../crypto/index.js';
+import {
+    CAUSAL_PROOF_HEADER,
+    CAUSAL_PROOF_SCHEMA_HEADER,
+    CAUSAL_PROOF_NONCE_HEADER,
+    CausalProofSchema,
+    encodeCausalHeader,
+    negotiateCausalProofSchema
+} from './x402.js';
+
+/**
+ * fetch-compatible function
+ */
+export type FetchLike = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for createCausalFetch
+ */
+export interface CausalFetchOptions {
+    /** Registry of the calling agent */
+    registry: CausalEventRegistry;
+    /** Agent private key used to sign proofs */
+    privateKey: string;
+    /** Underlying fetch implementation (defaults to global fetch) */
+    fetch?: FetchLike;
+    /** Maximum chain depth included in proofs */
+    chainDepth?: number;
+    /** Payload hash of the outgoing request (defaults to method, URL and string body) */
+    hashRequest?: (url: string, init: RequestInit | undefined) => string;
+    /** Payload hash of the final response (defaults to status and URL) */
+    hashResponse?: (response: Response) => string | Promise<string>;
+    /** Proof schema to send (default: the newest version the 402 response lists, as CBOR when offered; causal-v1 if it lists none) */
+    schema?: CausalProofSchema;
+}
+
+/**
+ * Events recorded for one paid request
+ */
+export interface CausalExchange {
+    /** Request event the proof was generated for */
+    requestEvent: CausalEvent;
+    /** Response or error event linked to the request event */
+    outcomeEvent: CausalEvent;
+}
+
+/**
+ * fetch wrapper returned by createCausalFetch
+ */
+export type CausalFetch = FetchLike & {
+    /** Events recorded by the most recent 402 exchange (null before the first one) */
+    lastExchange(): CausalExchange | null;
+};
+
+/**
+ * Wrap fetch so that 402 responses are retried with an X-Causal-Proof header
+ *
+ * On a 402 the wrapper registers a request event (linked to the agent's last
+ * event), proves it — bound to the server's X-Causal-Proof-Nonce when one is
+ * sent — and retries once. The retry's outcome is recorded as a response
+ * event, or as an error event for failed statuses and network errors.
+ * Responses other than 402 pass through untouched. Stream and async iterable
+ * bodies are read into memory before the first attempt so they can be resent.
+ * @param options - Registry, signing key and hashing hooks
+ * @returns fetch-compatible function
+ */
+export function createCausalFetch(options: CausalFetchOptions): CausalFetch {
+    const { registry, privateKey } = options;
+    const baseFetch: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+    const generator = new ProofGenerator(registry);
+    const agentId = registry.getAgentId();
+    let lastExchange: CausalExchange | null = null;
+
+    const record = (input: Pick<EventInput, 'actionType' | 'payloadHash' | 'predecessorHash'>): CausalEvent =>
+        registry.registerEvent({ ...input, agentId, timestamp: Date.now() });
+
+    const causalFetch = async (input: string | URL | Request, requestInit?: RequestInit): Promise<Response> => {
+        // Request bodies can only be read once; keep a copy for the retry
+        const retryInput = isRequest(input) ? input.clone() : input;
+        // Streamed init bodies are single-use too; buffer them so both attempts send the same bytes
+        const init = isSingleUseBody(requestInit?.body)
+            ? { ...requestInit, body: await new Response(requestInit.body).arrayBuffer() }
+            : requestInit;
+
+        const first = await baseFetch(input, init);
+        if (first.status !== 402) {
+            return first;
+        }
+
+        const url = requestUrl(input);
+        const requestEvent = record({
+            actionType: 'request',
+            payloadHash: options.hashRequest ? options.hashRequest(url, init) : defaultRequestHash(input, init),
+            predecessorHash: registry.getLastEventHash()
+        });
+
+        const nonce = first.headers.get(CAUSAL_PROOF_NONCE_HEADER) ?? undefined;
+        const proof = generator.generateProof(requestEvent.causalEventId, privateKey, options.chainDepth, { nonce });
+
+        const schema = options.schema ?? negotiateCausalProofSchema(first.headers.get(CAUSAL_PROOF_SCHEMA_HEADER));
+        // The challenge is fully read from the headers; release the connection before retrying
+        await first.body?.cancel();
+        const headers = new Headers(init?.headers ?? (isRequest(retryInput) ? retryInput.headers : undefined));
+        headers.set(CAUSAL_PROOF_HEADER, encodeCausalHeader(proof, schema));
+        headers.set(CAUSAL_PROOF_SCHEMA_HEADER, schema);
+
+        let response: Response;
+        try {
+            response = await baseFetch(retryInput, { ...init, headers });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            lastExchange = {
+                requestEvent,
+                outcomeEvent: record({
+                    actionType: 'error',
+                    payloadHash: sha3(JSON.stringify({ url, error: message })),
+                    predecessorHash: requestEvent.eventHash
+                })
+            };
+            throw error;
+        }
+
+        lastExchange = {
+            requestEvent,
+            outcomeEvent: record({
+                actionType: response.ok ? 'response' : 'error',
+                payloadHash: options.hashResponse
+                    ? await options.hashResponse(response)
+                    : sha3(JSON.stringify({ url, status: response.status })),
+                predecessorHash: requestEvent.eventHash
+            })
+        };
+        return response;
+    };
+
+    return Object.assign(causalFetch, { lastExchange: () => lastExchange });
+}
+
+function isRequest(input: string | URL | Request): input is Request {
+    return typeof Request !== 'undefined' && input instanceof Request;
+}
+
+function isSingleUseBody(body: RequestInit['body']): body is ReadableStream | AsyncIterable<Uint8Array> {
+    if (body === null || typeof body !== 'object') {
+        return false;
+    }
+    return (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream) || Symbol.asyncIterator in body;
+}
+
+function requestUrl(input: string | URL | Request): string {
+    if (typeof input === 'string') {
+        return input;
+    }
+    return isRequest(input) ? input.url : input.href;
+}
+
+function defaultRequestHash(input: string | URL | Request, init: RequestInit | undefined): string {
+    const method = (init?.method ?? (isRequest(input) ? input.method : 'GET')).toUpperCase();
+    const body = typeof init?.body === 'string' ? init.body : null;
+    return sha3(JSON.stringify({ method, url: requestUrl(input), body }));
+}
@@ -4,3 +4,5 @@
  */
 
 export * from './x402.js';
+export * from './middleware.js';
+export * from './client.js';
@@ -0,0 +1,289 @@
+/**
+ * x402 Middleware Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    evaluateCausalRequest,
+    createExpressMiddleware,
+    createFastifyHook,
+    createNodeHttpGuard,
+    CausalMiddlewareOptions,
+    CausalRequestContext
+} from './middleware.js';
+import { encodeCausalHeader, decodeCausalHeader, CAUSAL_PROOF_NONCE_HEADER } from './x402.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { NonceCache } from '../verification/nonce.js';
+import { MemoryKeyResolver } from '../identity/memory.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+
+describe('x402 Middleware', () => {
+    const agentId = '0xAgent';
+    const { privateKey, publicKey } = generateKeyPair();
+
+    function makeHeader(nonce?: string): string {
+        const registry = new CausalEventRegistry(agentId);
+        const generator = new ProofGenerator(registry);
+        const event = registry.registerEvent({
+            agentId,
+            actionType: 'request',
+            payloadHash: sha3('resource'),
+            predecessorHash: null,
+            timestamp: Date.now()
+        });
+        return encodeCausalHeader(generator.generateProof(event.causalEventId, privateKey, 10, { nonce }));
+    }
+
+    const options: CausalMiddlewareOptions = {
+        resolvePublicKey: id => (id === agentId ? publicKey : null)
+    };
+
+    describe('evaluateCausalRequest', () => {
+        it('should accept a valid proof', async () => {
+            const outcome = await evaluateCausalRequest({ 'x-causal-proof': makeHeader() }, options);
+            expect(outcome.ok).toBe(true);
+            if (outcome.ok) {
+                expect(outcome.context.agentId).toBe(agentId);
+                expect(outcome.context.result?.isValid).toBe(true);
+            }
+        });
+
+        it('should answer 402 when the proof is missing', async () => {
+            const outcome = await evaluateCausalRequest({}, options);
+            expect(outcome.ok).toBe(false);
+            if (!outcome.ok) {
+                expect(outcome.status).toBe(402);
+                expect(outcome.body.error).toBe('causal_proof_required');
+            }
+        });
+
+        it('should let proofless requests through when optional', async () => {
+            const outcome = await evaluateCausalRequest({}, { ...options, optional: true });
+            expect(outcome).toEqual({ ok: true, context: {} });
+        });
+
+        it('should answer 402 for malformed headers and unsupported schemas', async () => {
+            const malformed = await evaluateCausalRequest({ 'x-causal-proof': '!!!' }, options);
+            expect(!malformed.ok && malformed.body.error).toBe('causal_proof_malformed');
+
+            const schema = await evaluateCausalRequest(
+                { 'x-causal-proof': makeHeader(), 'x-causal-proof-schema': 'causal-v0' },
+                options
+            );
+            expect(!schema.ok && schema.status).toBe(402);
+            expect(!schema.ok && schema.body.error).toBe('causal_proof_schema_unsupported');
+            expect(!schema.ok && schema.body.schema).toBe('causal-v2');
+            expect(!schema.ok && schema.body.schemas).toEqual(['causal-v2', 'causal-v2+cbor', 'causal-v1', 'causal-v1+cbor']);
+
+            const oversized = await evaluateCausalRequest({ 'x-causal-proof': makeHeader() }, { ...options, maxHeaderLength: 100 });
+            expect(!oversized.ok && oversized.body.message).toContain('exceeds 100 characters');
+        });
+
+        it('should answer 402 for proofs with null or wrong-type array elements', async () => {
+            const proof = decodeCausalHeader(makeHeader());
+            const cases = [
+                { proofPath: [null] }, { proofPath: [42] }, { proofPath: [{ siblingHash: 42, position: 'left' }] },
+                { causalChain: [null] }, { causalChain: ['event'] },
+                { disclosures: [null] }, { disclosures: [7] }
+            ];
+            for (const patch of cases) {
+                const header = btoa(JSON.stringify({ ...proof, ...patch }));
+                const outcome = await evaluateCausalRequest({ 'x-causal-proof': header }, options);
+                expect(!outcome.ok && outcome.status).toBe(402);
+                expect(!outcome.ok && outcome.body.error).toBe('causal_proof_malformed');
+            }
+
+            const guard = createNodeHttpGuard(options);
+            const written: number[] = [];
+            const passed = await guard(
+                { headers: { 'x-causal-proof': btoa(JSON.stringify({ ...proof, proofPath: [null] })) } },
+                { writeHead: status => { written.push(status); }, end: () => undefined }
+            );
+            expect(passed).toBe(false);
+            expect(written).toEqual([402]);
+        });
+
+        it('should accept the binary schema when the request names it', async () => {
+            const json = decodeCausalHeader(makeHeader());
+            const cbor = encodeCausalHeader(json, 'causal-v1+cbor');
+            const outcome = await evaluateCausalRequest(
+                { 'x-causal-proof': cbor, 'x-causal-proof-schema': 'causal-v1+cbor' },
+                options
+            );
+            expect(outcome.ok).toBe(true);
+
+            // Without the schema header the value is read as causal-v1 JSON
+            const unnamed = await evaluateCausalRequest({ 'x-causal-proof': cbor }, options);
+            expect(!unnamed.ok && unnamed.body.error).toBe('causal_proof_malformed');
+        });
+
+        it('should accept only the configured proof versions and advertise them', async () => {
+            const proof = decodeCausalHeader(makeHeader());
+            const v2Only: CausalMiddlewareOptions = { ...options, acceptedVersions: ['causal-v2'] };
+
+            const current = await evaluateCausalRequest(
+                { 'x-causal-proof': encodeCausalHeader(proof, 'causal-v2'), 'x-causal-proof-schema': 'causal-v2' },
+                v2Only
+            );
+            expect(current.ok).toBe(true);
+            expect(current.ok && current.context.proof?.schemaVersion).toBe('causal-v2');
+
+            const legacy = await evaluateCausalRequest({ 'x-causal-proof': makeHeader() }, v2Only);
+            expect(!legacy.ok && legacy.body.error).toBe('causal_proof_schema_unsupported');
+            expect(!legacy.ok && legacy.headers['X-Causal-Proof-Schema']).toBe('causal-v2, causal-v2+cbor');
+
+            // Versions the registry cannot decode are never advertised
+            await expect(evaluateCausalRequest({}, { ...options, acceptedVersions: ['causal-v0'] }))
+                .rejects.toThrow('accepts no decodable proof versions');
+        });
+
+        it('should answer 403 for unknown agents', async () => {
+            const outcome = await evaluateCausalRequest(
+                { 'x-causal-proof': makeHeader() },
+                { resolvePublicKey: async () => undefined }
+            );
+            expect(!outcome.ok && outcome.status).toBe(403);
+            expect(!outcome.ok && outcome.body.error).toBe('causal_agent_unknown');
+        });
+
+        it('should answer 403 with the verification result for invalid proofs', async () => {
+            const other = generateKeyPair();
+            const outcome = await evaluateCausalRequest(
+                { 'x-causal-proof': makeHeader() },
+                { resolvePublicKey: () => other.publicKey }
+            );
+            expect(outcome.ok).toBe(false);
+            if (!outcome.ok) {
+                expect(outcome.status).toBe(403);
+                expect(outcome.body.error).toBe('causal_proof_invalid');
+                expect(outcome.body.verification?.isValid).toBe(false);
+            }
+        });
+
+        it('should verify against a key resolver', async () => {
+            const keyResolver = new MemoryKeyResolver({ [agentId]: [{ publicKey }] });
+            const accepted = await evaluateCausalRequest({ 'x-causal-proof': makeHeader() }, { keyResolver });
+            expect(accepted.ok).toBe(true);
+
+            const unknown = await evaluateCausalRequest(
+                { 'x-causal-proof': makeHeader() },
+                { keyResolver: new MemoryKeyResolver() }
+            );
+            expect(!unknown.ok && unknown.body.error).toBe('causal_agent_unknown');
+        });
+
+        it('should surface key resolver failures instead of blaming the proof', async () => {
+            const outage = new Error('key service unavailable');
+            const nonceCache = new NonceCache();
+            const failing: CausalMiddlewareOptions[] = [
+                { resolvePublicKey: () => Promise.reject(outage), nonceCache },
+                { keyResolver: { resolveKeys: () => Promise.reject(outage) }, nonceCache }
+            ];
+            for (const broken of failing) {
+                await expect(evaluateCausalRequest({ 'x-causal-proof': makeHeader() }, broken)).rejects.toBe(outage);
+            }
+
+            const received = await new Promise<unknown>(resolve => {
+                createExpressMiddleware(failing[0]!)(
+                    { headers: { 'x-causal-proof': makeHeader() } },
+                    { status: () => undefined, setHeader: () => undefined, json: () => resolve('responded') },
+                    resolve
+                );
+            });
+            expect(received).toBe(outage);
+        });
+
+        it('should reject options without a key source when the middleware is created', async () => {
+            const message = 'Causal middleware requires resolvePublicKey or keyResolver';
+            expect(() => createExpressMiddleware({})).toThrow(message);
+            expect(() => createFastifyHook({})).toThrow(message);
+            expect(() => createNodeHttpGuard({})).toThrow(message);
+            await expect(evaluateCausalRequest({}, {})).rejects.toThrow(message);
+        });
+
+        it('should issue a challenge and reject replayed nonces', async () => {
+            const nonceCache = new NonceCache();
+            const withNonces = { ...options, nonceCache };
+
+            const challenge = await evaluateCausalRequest({}, withNonces);
+            expect(challenge.ok).toBe(false);
+            const nonce = !challenge.ok ? challenge.headers[CAUSAL_PROOF_NONCE_HEADER] : undefined;
+            expect(nonce).toBeDefined();
+            expect(!challenge.ok && challenge.body.nonce).toBe(nonce);
+
+            const header = makeHeader(nonce);
+            expect((await evaluateCausalRequest({ 'x-causal-proof': header }, withNonces)).ok).toBe(true);
+            const replay = await evaluateCausalRequest({ 'x-causal-proof': header }, withNonces);
+            expect(!replay.ok && replay.status).toBe(403);
+        });
+    });
+
+    describe('adapters', () => {
+        it('should call next and attach the context in Express', async () => {
+            const req: { headers: Record<string, string>; causalVerification?: CausalRequestContext } = {
+                headers: { 'x-causal-proof': makeHeader() }
+            };
+            await new Promise<void>((resolve, reject) => {
+                createExpressMiddleware(options)(
+                    req,
+                    { status: () => reject(new Error('unexpected status')), setHeader: () => undefined, json: () => undefined },
+                    error => (error ? reject(error) : resolve())
+                );
+            });
+            expect(req.causalVerification?.result?.isValid).toBe(true);
+        });
+
+        it('should send a structured 402 in Express', async () => {
+            const sent: { status?: number; body?: unknown; headers: Record<string, string> } = { headers: {} };
+            await new Promise<void>(resolve => {
+                createExpressMiddleware(options)(
+                    { headers: {} },
+                    {
+                        status: code => { sent.status = code; },
+                        setHeader: (name, value) => { sent.headers[name] = value; },
+                        json: body => { sent.body = body; resolve(); }
+                    },
+                    () => resolve()
+                );
+            });
+            expect(sent.status).toBe(402);
+            expect(sent.body).toMatchObject({ error: 'causal_proof_required' });
+            expect(sent.headers['X-Causal-Proof-Schema']).toBe('causal-v2, causal-v2+cbor, causal-v1, causal-v1+cbor');
+        });
+
+        it('should reply from the Fastify hook on failure', async () => {
+            const reply = { statusCode: 0, payload: undefined as unknown };
+            await createFastifyHook(options)(
+                { headers: { 'x-causal-proof': 'garbage' } },
+                {
+                    code: code => { reply.statusCode = code; },
+                    header: () => undefined,
+                    send: payload => { reply.payload = payload; }
+                }
+            );
+            expect(reply.statusCode).toBe(402);
+            expect(reply.payload).toMatchObject({ error: 'causal_proof_malformed' });
+        });
+
+        it('should guard plain Node http handlers', async () => {
+            const guard = createNodeHttpGuard(options);
+            const written: { status?: number; body?: string } = {};
+            const res = {
+                writeHead: (status: number) => { written.status = status; },
+                end: (body: string) => { written.body = body; }
+            };
+
+            const req: { headers: Record<string, string>; causalVerification?: CausalRequestContext } = {
+                headers: { 'x-causal-proof': makeHeader() }
+            };
+            expect(await guard(req, res)).toBe(true);
+            expect(req.causalVerification?.agentId).toBe(agentId);
+            expect(written.status).toBeUndefined();
+
+            expect(await guard({ headers: {} }, res)).toBe(false);
+            expect(written.status).toBe(402);
+            expect(JSON.parse(written.body ?? '{}').error).toBe('causal_proof_required');
+        });
+    });
+});
@@ -0,0 +1,368 @@
+/**
+ * x402 Server Middleware
+ * Verifies X-Causal-Proof headers for Express, Fastify and plain Node http servers
+ * Framework types are described structurally; no framework is imported
+ * @module integration/middleware
+ */
+
+import { CausalProof, SemanticRules, VerificationResult } from '../types/index.js';
+import { verifyPrePayment } from '../verification/patterns.js';
+import { verifyPrePaymentWithResolver } from '../verification/resolver.js';
+import type { VerifyProofOptions } from '../verification/verifier.js';
+import type { KeyResolver } from '../identity/resolver.js';
+import type { NonceCache } from '../verification/nonce.js';
+import { ProofSchemaRegistry, defaultProofSchemas } from '../proof/schema.js';
+import {
+    CAUSAL_PROOF_HEADER,
+    CAUSAL_PROOF_SCHEMA_HEADER,
+    CAUSAL_PROOF_SCHEMA_VERSION,
+    CAUSAL_PROOF_NONCE_HEADER,
+    decodeCausalHeader,
+    listCausalProofSchemas,
+    parseCausalProofSchema
+} from './x402.js';
+
+/**
+ * Incoming request headers as exposed by Node http, Express and Fastify (lower-cased names)
+ */
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Resolves the public key of an agent; null/undefined means the agent is unknown
+ */
+export type AgentKeyResolver = (
+    agentId: string,
+    proof: CausalProof
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Options shared by every middleware flavour
+ */
+export interface CausalMiddlewareOptions {
+    /** Maps the proof's agent ID to its public key (one of resolvePublicKey/keyResolver is required) */
+    resolvePublicKey?: AgentKeyResolver;
+    /** Source of agent keys with validity windows; takes precedence over resolvePublicKey */
+    keyResolver?: KeyResolver;
+    /** Semantic rules enforced by verifyPrePayment */
+    rules?: SemanticRules;
+    /** Issues challenges on 402 responses and rejects replayed proofs */
+    nonceCache?: NonceCache;
+    /** Accept legacy proofs without a signed tree head */
+    allowUnsignedTreeHead?: boolean;
+    /** Let requests without a proof through (invalid proofs are still rejected) */
+    optional?: boolean;
+    /** Reject longer X-Causal-Proof values unread (default: DEFAULT_MAX_CAUSAL_HEADER_LENGTH) */
+    maxHeaderLength?: number;
+    /** Proof versions and their upgrades (default: defaultProofSchemas) */
+    proofSchemas?: ProofSchemaRegistry;
+    /** Proof versions to accept, preferred first (default: every version proofSchemas can decode) */
+    acceptedVersions?: string[];
+}
+
+/**
+ * Verification data attached to a request that passed the middleware
+ */
+export interface CausalRequestContext {
+    /** Decoded proof (absent when optional and no proof was sent) */
+    proof?: CausalProof;
+    /** Agent whose proof was verified */
+    agentId?: string;
+    /** Verification result (absent when optional and no proof was sent) */
+    result?: VerificationResult;
+}
+
+/**
+ * Structured body sent with 402/403 responses
+ */
+export interface CausalErrorBody {
+    /** Machine-readable error code */
+    error:
+        | 'causal_proof_required'
+        | 'causal_proof_malformed'
+        | 'causal_proof_schema_unsupported'
+        | 'causal_agent_unknown'
+        | 'causal_proof_invalid';
+    /** Human-readable description */
+    message: string;
+    /** Proof version the server prefers */
+    schema: string;
+    /** Every proof schema the server accepts, preferred first */
+    schemas: string[];
+    /** Challenge to include when retrying (when the server tracks nonces) */
+    nonce?: string;
+    /** Verification result for rejected proofs */
+    verification?: VerificationResult;
+}
+
+/**
+ * Outcome of evaluating a request
+ */
+export type CausalRequestOutcome =
+    | { ok: true; context: CausalRequestContext }
+    | { ok: false; status: 402 | 403; headers: Record<string, string>; body: CausalErrorBody };
+
+/**
+ * Read a header by name from lower-cased request headers
+ * @param headers - Request headers
+ * @param name - Header name (any case)
+ * @returns First header value or undefined
+ */
+export function getHeaderValue(headers: RequestHeaders, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify the causal proof carried by a request (framework independent)
+ * Key resolver failures are server faults and reject the returned promise;
+ * anything wrong with the proof itself ends in a 402/403 outcome
+ * @param headers - Request headers
+ * @param options - Key resolver, rules and nonce handling
+ * @returns Context to attach on success, or the status, headers and body to answer with
+ * @throws Error if neither resolvePublicKey nor keyResolver is configured
+ */
+export async function evaluateCausalRequest(
+    headers: RequestHeaders,
+    options: CausalMiddlewareOptions
+): Promise<CausalRequestOutcome> {
+    assertKeySource(options);
+
+    const headerValue = getHeaderValue(headers, CAUSAL_PROOF_HEADER);
+    if (!headerValue) {
+        if (options.optional) {
+            return { ok: true, context: {} };
+        }
+        return reject(402, 'causal_proof_required', `Missing ${CAUSAL_PROOF_HEADER} header`, options);
+    }
+
+    const schema = getHeaderValue(headers, CAUSAL_PROOF_SCHEMA_HEADER);
+    if (!acceptedProofVersions(options).includes(parseCausalProofSchema(schema ?? CAUSAL_PROOF_SCHEMA_VERSION).version)) {
+        return reject(402, 'causal_proof_schema_unsupported', `Unsupported proof schema: ${schema ?? CAUSAL_PROOF_SCHEMA_VERSION}`, options);
+    }
+
+    let proof: CausalProof;
+    try {
+        proof = decodeCausalHeader(headerValue, {
+            schema,
+            maxLength: options.maxHeaderLength,
+            schemas: options.proofSchemas
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid proof header';
+        return reject(402, 'causal_proof_malformed', message, options);
+    }
+
+    const agentId = proof.targetEvent.agentId;
+    const verifyOptions: VerifyProofOptions = {
+        nonceCache: options.nonceCache,
+        allowUnsignedTreeHead: options.allowUnsignedTreeHead
+    };
+
+    // Resolver errors propagate: an outage must not look like a bad proof
+    let verify: () => VerificationResult | Promise<VerificationResult>;
+    if (options.keyResolver) {
+        const keys = await options.keyResolver.resolveKeys(agentId);
+        if (keys.length === 0) {
+            return reject(403, 'causal_agent_unknown', `No public key known for agent ${agentId}`, options);
+        }
+        const resolved: KeyResolver = { resolveKeys: () => keys };
+        verify = () => verifyPrePaymentWithResolver(proof, agentId, resolved, options.rules, verifyOptions);
+    } else {
+        const publicKey = await options.resolvePublicKey!(agentId, proof);
+        if (!publicKey) {
+            return reject(403, 'causal_agent_unknown', `No public key known for agent ${agentId}`, options);
+        }
+        verify = () => verifyPrePayment(proof, agentId, publicKey, options.rules, verifyOptions);
+    }
+
+    let result: VerificationResult;
+    try {
+        result = await verify();
+    } catch (error) {
+        // A proof that decoded but still trips the verifier is a malformed request, never a server error
+        const message = error instanceof Error ? error.message : 'Invalid proof';
+        return reject(402, 'causal_proof_malformed', `Causal proof could not be verified: ${message}`, options);
+    }
+    if (!result.isValid) {
+        return reject(403, 'causal_proof_invalid', 'Causal proof verification failed', options, result);
+    }
+
+    return { ok: true, context: { proof, agentId, result } };
+}
+
+/**
+ * Proof versions a middleware accepts, preferred first
+ * @param options - Middleware options
+ * @returns acceptedVersions restricted to what the proof schema registry can decode
+ * @throws Error if none of the accepted versions can be decoded
+ */
+export function acceptedProofVersions(options: Pick<CausalMiddlewareOptions, 'proofSchemas' | 'acceptedVersions'>): string[] {
+    const registry = options.proofSchemas ?? defaultProofSchemas;
+    const versions = (options.acceptedVersions ?? registry.getVersions()).filter(version => registry.accepts(version));
+    if (versions.length === 0) {
+        throw new Error('Causal middleware accepts no decodable proof versions');
+    }
+    return versions;
+}
+
+function assertKeySource(options: CausalMiddlewareOptions): void {
+    if (!options.keyResolver && !options.resolvePublicKey) {
+        throw new Error('Causal middleware requires resolvePublicKey or keyResolver');
+    }
+}
+
+function reject(
+    status: 402 | 403,
+    error: CausalErrorBody['error'],
+    message: string,
+    options: CausalMiddlewareOptions,
+    verification?: VerificationResult
+): CausalRequestOutcome {
+    // The schema header lists every accepted version and encoding so clients can pick the newest, most compact one
+    const versions = acceptedProofVersions(options);
+    const schemas = listCausalProofSchemas(versions);
+    const headers: Record<string, string> = {
+        [CAUSAL_PROOF_SCHEMA_HEADER]: schemas.join(', ')
+    };
+    const body: CausalErrorBody = {
+        error,
+        message,
+        schema: versions[0]!,
+        schemas
+    };
+
+    // A fresh challenge lets the client retry with a proof bound to this server
+    if (options.nonceCache) {
+        const nonce = options.nonceCache.issue();
+        headers[CAUSAL_PROOF_NONCE_HEADER] = nonce;
+        body.nonce = nonce;
+    }
+    if (verification) {
+        body.verification = verification;
+    }
+
+    return { ok: false, status, headers, body };
+}
+
+/**
+ * Minimal Express request shape
+ */
+export interface ExpressLikeRequest {
+    headers: RequestHeaders;
+    causalVerification?: CausalRequestContext;
+}
+
+/**
+ * Minimal Express response shape
+ */
+export interface ExpressLikeResponse {
+    status(code: number): unknown;
+    setHeader(name: string, value: string): unknown;
+    json(body: unknown): unknown;
+}
+
+/**
+ * Create Express (or Connect-compatible) middleware
+ * Attaches `req.causalVerification` on success; answers 402/403 on failure
+ * @param options - Middleware options
+ * @returns Express middleware function
+ * @throws Error if neither resolvePublicKey nor keyResolver is configured
+ */
+export function createExpressMiddleware(options: CausalMiddlewareOptions) {
+    assertKeySource(options);
+    return (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void): void => {
+        evaluateCausalRequest(req.headers, options).then(outcome => {
+            if (outcome.ok) {
+                req.causalVerification = outcome.context;
+                next();
+                return;
+            }
+            for (const [name, value] of Object.entries(outcome.headers)) {
+                res.setHeader(name, value);
+            }
+            res.status(outcome.status);
+            res.json(outcome.body);
+        }, next);
+    };
+}
+
+/**
+ * Minimal Fastify request shape
+ */
+export interface FastifyLikeRequest {
+    headers: RequestHeaders;
+    causalVerification?: CausalRequestContext;
+}
+
+/**
+ * Minimal Fastify reply shape
+ */
+export interface FastifyLikeReply {
+    code(statusCode: number): unknown;
+    header(name: string, value: string): unknown;
+    send(payload: unknown): unknown;
+}
+
+/**
+ * Create a Fastify preHandler hook
+ * Attaches `request.causalVerification` on success; replies 402/403 on failure
+ * @param options - Middleware options
+ * @returns Async preHandler hook
+ * @throws Error if neither resolvePublicKey nor keyResolver is configured
+ */
+export function createFastifyHook(options: CausalMiddlewareOptions) {
+    assertKeySource(options);
+    return async (request: FastifyLikeRequest, reply: FastifyLikeReply): Promise<void> => {
+        const outcome = await evaluateCausalRequest(request.headers, options);
+        if (outcome.ok) {
+            request.causalVerification = outcome.context;
+            return;
+        }
+        for (const [name, value] of Object.entries(outcome.headers)) {
+            reply.header(name, value);
+        }
+        reply.code(outcome.status);
+        await reply.send(outcome.body);
+    };
+}
+
+/**
+ * Minimal Node http IncomingMessage shape
+ */
+export interface NodeLikeRequest {
+    headers: RequestHeaders;
+    causalVerification?: CausalRequestContext;
+}
+
+/**
+ * Minimal Node http ServerResponse shape
+ */
+export interface NodeLikeResponse {
+    writeHead(statusCode: number, headers: Record<string, string>): unknown;
+    end(body: string): unknown;
+}
+
+/**
+ * Create a guard for plain Node http request handlers
+ * Resolves true (and attaches `req.causalVerification`) when the request may
+ * proceed; otherwise writes the 402/403 response and resolves false
+ * @param options - Middleware options
+ * @returns Async guard function
+ * @throws Error if neither resolvePublicKey nor keyResolver is configured
+ */
+export function createNodeHttpGuard(options: CausalMiddlewareOptions) {
+    assertKeySource(options);
+    return async (req: NodeLikeRequest, res: NodeLikeResponse): Promise<boolean> => {
+        const outcome = await evaluateCausalRequest(req.headers, options);
+        if (outcome.ok) {
+            req.causalVerification = outcome.context;
+            return true;
+        }
+        res.writeHead(outcome.status, {
+            ...outcome.headers,
+            'Content-Type': 'application/json'
+        });
+        res.end(JSON.stringify(outcome.body));
+        return false;
+    };
+}
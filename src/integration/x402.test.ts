@@ -9,7 +9,11 @@ import {
     isValidCausalProof,
     CAUSAL_PROOF_HEADER,
     CAUSAL_PROOF_SCHEMA_HEADER,
-    CAUSAL_PROOF_SCHEMA_VERSION
+    CAUSAL_PROOF_SCHEMA_VERSION,
+    CAUSAL_PROOF_SCHEMA_CBOR,
+    negotiateCausalProofSchema,
+    parseCausalProofSchema,
+    listCausalProofSchemas
 } from './x402.js';
 import { CausalEventRegistry } from '../registry/registry.js';
 import { ProofGenerator } from '../proof/generator.js';
@@ -67,6 +71,92 @@ describe('x402 Integration', () => {
         expect(() => decodeCausalHeader(partialData)).toThrow(/Invalid CausalProof structure/);
     });
 
+    describe('binary schema', () => {
+        const buildProof = (events: number) => {
+            const registry = new CausalEventRegistry(agentId);
+            let event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('0'), predecessorHash: null, timestamp: Date.now() });
+            for (let i = 1; i < events; i++) {
+                event = registry.registerEvent({
+                    agentId,
+                    actionType: i % 2 === 0 ? 'request' : 'response',
+                    payloadHash: sha3(String(i)),
+                    predecessorHash: event.eventHash,
+                    timestamp: Date.now()
+                });
+            }
+            return new ProofGenerator(registry).generateProof(event.causalEventId, privateKey, 10, { nonce: '0x' + 'ab'.repeat(16) });
+        };
+
+        it('should round-trip proofs and be much smaller than causal-v1', () => {
+            const proof = buildProof(10);
+            const json = encodeCausalHeader(proof);
+            const cbor = encodeCausalHeader(proof, CAUSAL_PROOF_SCHEMA_CBOR);
+
+            expect(decodeCausalHeader(cbor, { schema: CAUSAL_PROOF_SCHEMA_CBOR })).toEqual(proof);
+            expect(cbor.length).toBeLessThan(json.length * 0.6);
+        });
+
+        it('should guard the header length and reject unknown schemas', () => {
+            const header = encodeCausalHeader(buildProof(2), CAUSAL_PROOF_SCHEMA_CBOR);
+            expect(() => decodeCausalHeader(header, { schema: CAUSAL_PROOF_SCHEMA_CBOR, maxLength: header.length - 1 }))
+                .toThrow(`Header value exceeds ${header.length - 1} characters`);
+            expect(() => decodeCausalHeader('A'.repeat(20000))).toThrow('exceeds 16384 characters');
+            expect(() => decodeCausalHeader(header, { schema: 'causal-v0' })).toThrow('Unsupported proof schema: causal-v0');
+            expect(() => encodeCausalHeader(buildProof(1), 'causal-v0' as never)).toThrow('Unsupported proof schema');
+        });
+
+        it('should validate decoded binary proofs', () => {
+            const bogus = btoa(String.fromCharCode(0xa1, 0x0c, 0xa0)); // { targetEvent: {} }
+            expect(() => decodeCausalHeader(bogus, { schema: CAUSAL_PROOF_SCHEMA_CBOR })).toThrow(/Invalid CausalProof structure/);
+        });
+
+        it('should negotiate the binary schema only when offered', () => {
+            expect(negotiateCausalProofSchema('causal-v1, causal-v1+cbor')).toBe(CAUSAL_PROOF_SCHEMA_CBOR);
+            expect(negotiateCausalProofSchema('causal-v1')).toBe(CAUSAL_PROOF_SCHEMA_VERSION);
+            expect(negotiateCausalProofSchema(null)).toBe(CAUSAL_PROOF_SCHEMA_VERSION);
+        });
+    });
+
+    describe('schema versions', () => {
+        const buildProof = () => {
+            const registry = new CausalEventRegistry(agentId);
+            const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('v'), predecessorHash: null, timestamp: Date.now() });
+            return new ProofGenerator(registry).generateProof(event.causalEventId, privateKey);
+        };
+
+        it('should send current proofs to causal-v1 verifiers without the version marker', () => {
+            const proof = buildProof();
+            const v1 = JSON.parse(atob(encodeCausalHeader(proof, 'causal-v1')));
+            expect(v1.schemaVersion).toBeUndefined();
+            expect(isValidCausalProof(v1)).toBe(true);
+
+            const v2 = JSON.parse(atob(encodeCausalHeader(proof, 'causal-v2')));
+            expect(v2.schemaVersion).toBe('causal-v2');
+        });
+
+        it('should upgrade every accepted version to the current one when decoding', () => {
+            const proof = buildProof();
+            for (const schema of ['causal-v1', 'causal-v1+cbor', 'causal-v2', 'causal-v2+cbor']) {
+                expect(decodeCausalHeader(encodeCausalHeader(proof, schema), { schema })).toEqual(proof);
+            }
+        });
+
+        it('should reject proofs that do not match the declared version', () => {
+            const { schemaVersion: _version, ...legacy } = buildProof();
+            const header = btoa(JSON.stringify(legacy));
+            expect(() => decodeCausalHeader(header, { schema: 'causal-v2' })).toThrow(/Invalid CausalProof structure/);
+            expect(decodeCausalHeader(header).schemaVersion).toBe('causal-v2');
+        });
+
+        it('should negotiate the newest version both sides accept', () => {
+            expect(negotiateCausalProofSchema('causal-v2, causal-v2+cbor, causal-v1, causal-v1+cbor')).toBe('causal-v2+cbor');
+            expect(negotiateCausalProofSchema('causal-v1+cbor, causal-v2')).toBe('causal-v2');
+            expect(negotiateCausalProofSchema('causal-v2+cbor', ['causal-v1'])).toBe('causal-v1');
+            expect(parseCausalProofSchema('causal-v2+cbor')).toEqual({ version: 'causal-v2', binary: true });
+            expect(listCausalProofSchemas(['causal-v2'])).toEqual(['causal-v2', 'causal-v2+cbor']);
+        });
+    });
+
     describe('isValidCausalProof', () => {
         it('should reject null', () => {
             expect(isValidCausalProof(null)).toBe(false);
@@ -94,6 +184,8 @@ describe('x402 Integration', () => {
             });
             const proof = generator.generateProof(event.causalEventId, privateKey);
             expect(isValidCausalProof(proof)).toBe(true);
+            expect(isValidCausalProof({ ...proof, signedTreeHead: { ...proof.signedTreeHead, treeSize: '1' } })).toBe(false);
+            expect(isValidCausalProof({ ...proof, signedTreeHead: null })).toBe(false);
         });
     });
 });
@@ -5,6 +5,17 @@
  */
 
 import { CausalProof } from '../types/index.js';
+import { encodeCbor, decodeCbor } from './cbor.js';
+import {
+    CAUSAL_PROOF_V1,
+    CAUSAL_PROOF_V2,
+    CausalProofVersion,
+    ProofSchemaRegistry,
+    defaultProofSchemas,
+    detectProofVersion
+} from '../proof/schema.js';
+
+export { isValidCausalProof } from '../proof/schema.js';
 
 /**
  * Standard header name for causal proofs in x402
@@ -17,45 +28,153 @@ export const CAUSAL_PROOF_HEADER = 'X-Causal-Proof';
 export const CAUSAL_PROOF_SCHEMA_HEADER = 'X-Causal-Proof-Schema';
 
 /**
- * Current schema version
+ * Header carrying a verifier-issued challenge nonce (sent with a 402 response)
+ */
+export const CAUSAL_PROOF_NONCE_HEADER = 'X-Causal-Proof-Nonce';
+
+/**
+ * Schema assumed when a sender names none (the original proof version, as JSON)
+ */
+export const CAUSAL_PROOF_SCHEMA_VERSION = CAUSAL_PROOF_V1;
+
+/**
+ * Compact binary schema: causal-v1 proofs as CBOR with integer keys and raw hashes
+ */
+export const CAUSAL_PROOF_SCHEMA_CBOR = 'causal-v1+cbor';
+
+/**
+ * Suffix of a schema name that selects the CBOR encoding of a proof version
+ */
+export const CBOR_SCHEMA_SUFFIX = '+cbor';
+
+/**
+ * Header schema names: a proof version, optionally CBOR-encoded
+ */
+export type CausalProofSchema = CausalProofVersion | `${CausalProofVersion}${typeof CBOR_SCHEMA_SUFFIX}`;
+
+/**
+ * Schemas accepted by the decoder with the default proof schema registry, preferred first
+ */
+export const SUPPORTED_CAUSAL_PROOF_SCHEMAS: readonly CausalProofSchema[] = [
+    CAUSAL_PROOF_V2,
+    `${CAUSAL_PROOF_V2}${CBOR_SCHEMA_SUFFIX}`,
+    CAUSAL_PROOF_V1,
+    CAUSAL_PROOF_SCHEMA_CBOR
+];
+
+/**
+ * Longest header value decodeCausalHeader accepts by default (Node.js's default header limit)
  */
-export const CAUSAL_PROOF_SCHEMA_VERSION = 'causal-v1';
+export const DEFAULT_MAX_CAUSAL_HEADER_LENGTH = 16384;
+
+/**
+ * Member names encoded as integers in the +cbor schemas, most frequent first
+ * Append-only: reordering or removing entries breaks deployed decoders
+ */
+const CBOR_KEY_TABLE: readonly string[] = [
+    'eventHash', 'actionType', 'timestamp', 'predecessorHash', 'siblingHash', 'position',
+    'agentId', 'payloadHash', 'positionInTree', 'proofPath', 'causalEventId', 'treeRootHash',
+    'targetEvent', 'causalChain', 'agentSignature', 'signedTreeHead', 'treeVersion', 'treeSize',
+    'signatureScheme', 'rootHash', 'issuedAt', 'nonce', 'disclosures', 'kind',
+    'payload', 'commitments', 'fields', 'name', 'salt', 'value', 'mode',
+    'schemaVersion'
+];
+
+/**
+ * Options for decoding a proof header
+ */
+export interface DecodeCausalHeaderOptions {
+    /** Value of the X-Causal-Proof-Schema header (default: causal-v1) */
+    schema?: string;
+    /** Reject longer header values before decoding (default: DEFAULT_MAX_CAUSAL_HEADER_LENGTH) */
+    maxLength?: number;
+    /** Accepted proof versions and their upgrades (default: defaultProofSchemas) */
+    schemas?: ProofSchemaRegistry;
+}
+
+/**
+ * Split a header schema name into its proof version and encoding
+ * @param schema - Schema name, e.g. causal-v2+cbor
+ * @returns Proof version and whether the proof is CBOR-encoded
+ */
+export function parseCausalProofSchema(schema: string): { version: string; binary: boolean } {
+    const binary = schema.endsWith(CBOR_SCHEMA_SUFFIX);
+    return {
+        version: binary ? schema.slice(0, -CBOR_SCHEMA_SUFFIX.length) : schema,
+        binary
+    };
+}
+
+/**
+ * List the header schema names for proof versions, each as JSON then CBOR
+ * @param versions - Proof versions in order of preference
+ * @returns Schema names to advertise in X-Causal-Proof-Schema
+ */
+export function listCausalProofSchemas(versions: readonly string[]): string[] {
+    return versions.flatMap(version => [version, `${version}${CBOR_SCHEMA_SUFFIX}`]);
+}
 
 /**
  * Encode a CausalProof to a Base64 string for HTTP headers
- * Uses browser-compatible encoding (no Node.js Buffer dependency)
+ * Uses browser-compatible encoding (no Node.js Buffer dependency). The proof
+ * is converted to the schema's version first, so current proofs can still be
+ * sent to verifiers that only accept causal-v1.
  * @param proof - The proof to encode
- * @returns Base64 encoded JSON string
+ * @param schema - Proof version, optionally with +cbor for the compact binary encoding (default: causal-v1)
+ * @param schemas - Proof versions and conversions (default: defaultProofSchemas)
+ * @returns Base64 encoded proof
+ * @throws Error if the schema is not supported or the proof cannot be converted to its version
  */
-export function encodeCausalHeader(proof: CausalProof): string {
-    const json = JSON.stringify(proof);
-    // Browser-compatible: TextEncoder + btoa with Unicode handling
-    const bytes = new TextEncoder().encode(json);
-    const binString = Array.from(bytes, (byte) => String.fromCodePoint(byte)).join('');
-    return btoa(binString);
+export function encodeCausalHeader(
+    proof: CausalProof,
+    schema: string = CAUSAL_PROOF_SCHEMA_VERSION,
+    schemas: ProofSchemaRegistry = defaultProofSchemas
+): string {
+    const { version, binary } = parseCausalProofSchema(schema);
+    if (!schemas.accepts(version)) {
+        throw new Error(`Unsupported proof schema: ${String(schema)}`);
+    }
+
+    const converted = schemas.convert(proof as unknown as Record<string, unknown>, detectProofVersion(proof), version);
+    if (binary) {
+        return bytesToBase64(encodeCbor(converted, { keyTable: CBOR_KEY_TABLE, packHex: true }));
+    }
+    const json = JSON.stringify(converted);
+    return bytesToBase64(new TextEncoder().encode(json));
 }
 
 /**
  * Decode a CausalProof from a Base64 header string
- * Uses browser-compatible decoding with schema validation
+ * Uses browser-compatible decoding. The proof is validated against the
+ * version named by the schema and upgraded to the current version.
  * @param headerValue - The Base64 string from an HTTP header
- * @returns Decoded CausalProof object
- * @throws Error if decoding, parsing, or validation fails
+ * @param options - Schema named by the sender, maximum accepted length and accepted versions
+ * @returns Decoded CausalProof object in the registry's current version
+ * @throws Error if the header is too long, or decoding, parsing, validation or upgrading fails
  */
-export function decodeCausalHeader(headerValue: string): CausalProof {
+export function decodeCausalHeader(headerValue: string, options: DecodeCausalHeaderOptions = {}): CausalProof {
+    const schema = options.schema ?? CAUSAL_PROOF_SCHEMA_VERSION;
+    const maxLength = options.maxLength ?? DEFAULT_MAX_CAUSAL_HEADER_LENGTH;
+    const schemas = options.schemas ?? defaultProofSchemas;
+
     try {
-        // Browser-compatible: atob + TextDecoder with Unicode handling
-        const binString = atob(headerValue);
-        const bytes = Uint8Array.from(binString, (char) => char.codePointAt(0)!);
-        const json = new TextDecoder().decode(bytes);
-        const parsed = JSON.parse(json);
+        // Checked before decoding so oversized values cost nothing to reject
+        if (headerValue.length > maxLength) {
+            throw new Error(`Header value exceeds ${maxLength} characters`);
+        }
 
-        // HIGH-002: Schema validation to prevent type confusion attacks
-        if (!isValidCausalProof(parsed)) {
-            throw new Error('Invalid CausalProof structure');
+        const { version, binary } = parseCausalProofSchema(schema);
+        if (!schemas.accepts(version)) {
+            throw new Error(`Unsupported proof schema: ${schema}`);
         }
 
-        return parsed as CausalProof;
+        const bytes = base64ToBytes(headerValue);
+        const parsed: unknown = binary
+            ? decodeCbor(bytes, { keyTable: CBOR_KEY_TABLE, packHex: true })
+            : JSON.parse(new TextDecoder().decode(bytes));
+
+        // HIGH-002: Schema validation to prevent type confusion attacks
+        return schemas.decode(parsed, version);
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         throw new Error(`Failed to decode X-Causal-Proof header: ${message}`);
@@ -63,34 +182,46 @@ export function decodeCausalHeader(headerValue: string): CausalProof {
 }
 
 /**
- * Validate that an object has the required CausalProof structure
- * @param obj - Object to validate
- * @returns True if the object matches CausalProof schema
+ * Pick the proof schema to send, given the schemas a server advertised
+ * The newest version both sides accept wins, CBOR-encoded when offered.
+ * @param advertised - X-Causal-Proof-Schema value of a 402 response (comma-separated list)
+ * @param versions - Versions the sender can produce, preferred first (default: those of defaultProofSchemas)
+ * @returns Schema to send; causal-v1 when the server advertises nothing usable
  */
-export function isValidCausalProof(obj: unknown): obj is CausalProof {
-    if (obj === null || typeof obj !== 'object') return false;
-
-    const proof = obj as Record<string, unknown>;
+export function negotiateCausalProofSchema(
+    advertised: string | null | undefined,
+    versions: readonly string[] = defaultProofSchemas.getVersions()
+): string {
+    const offered = new Set((advertised ?? '').split(',').map(item => item.trim()));
+    for (const version of versions) {
+        const binary = `${version}${CBOR_SCHEMA_SUFFIX}`;
+        if (offered.has(binary)) return binary;
+        if (offered.has(version)) return version;
+    }
+    return CAUSAL_PROOF_SCHEMA_VERSION;
+}
 
-    // Required top-level fields
-    if (!proof.targetEvent || typeof proof.targetEvent !== 'object') return false;
-    if (!Array.isArray(proof.proofPath)) return false;
-    if (!Array.isArray(proof.causalChain)) return false;
-    if (typeof proof.treeRootHash !== 'string') return false;
-    if (typeof proof.agentSignature !== 'string') return false;
+/**
+ * Check whether a schema name is one this library can decode with the default proof schema registry
+ */
+export function isSupportedCausalProofSchema(schema: string): schema is CausalProofSchema {
+    return (SUPPORTED_CAUSAL_PROOF_SCHEMAS as readonly string[]).includes(schema);
+}
 
-    // Validate targetEvent structure
-    const event = proof.targetEvent as Record<string, unknown>;
-    if (typeof event.causalEventId !== 'string') return false;
-    if (typeof event.agentId !== 'string') return false;
-    if (typeof event.eventHash !== 'string') return false;
-    if (typeof event.actionType !== 'string') return false;
-    if (typeof event.payloadHash !== 'string') return false;
-    if (typeof event.timestamp !== 'number') return false;
-    if (typeof event.positionInTree !== 'number') return false;
-    if (typeof event.treeRootHash !== 'string') return false;
+/**
+ * Browser-compatible Base64 encoding (btoa over a binary string)
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+    const binString = Array.from(bytes, (byte) => String.fromCodePoint(byte)).join('');
+    return btoa(binString);
+}
 
-    return true;
+/**
+ * Browser-compatible Base64 decoding
+ */
+function base64ToBytes(value: string): Uint8Array {
+    const binString = atob(value);
+    return Uint8Array.from(binString, (char) => char.codePointAt(0)!);
 }
 
 /**
@@ -101,7 +232,7 @@ export function isValidCausalProof(obj: unknown): obj is CausalProof {
 export function createPaymentRequestMetadata(proof: CausalProof): Record<string, unknown> {
     return {
         causalProof: proof,
-        version: CAUSAL_PROOF_SCHEMA_VERSION
+        version: detectProofVersion(proof)
     };
 }
 
@@ -3,4 +3,5 @@
  * @module merkle
  */
 
-export { MerkleTree } from './tree.js';
+export { MerkleTree, DEFAULT_TREE_VERSION } from './tree.js';
+export type { MerkleTreeStore, MerkleTreeOptions, InclusionOptions } from './tree.js';
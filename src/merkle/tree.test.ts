@@ -46,4 +46,200 @@ describe('MerkleTree', () => {
             // Branch: step.siblingHash === step.eventHash (covered by tree.append(3))
         });
     });
+
+    describe('fromExport', () => {
+        it('should rebuild an identical tree', () => {
+            const tree = new MerkleTree(['1', '2', '3', '4', '5'].map(v => sha3(v)));
+            const rebuilt = MerkleTree.fromExport(tree.export());
+            expect(rebuilt.getRootHash()).toBe(tree.getRootHash());
+            expect(rebuilt.export()).toEqual(tree.export());
+        });
+
+        it('should reject tampered exports', () => {
+            const tree = new MerkleTree(['1', '2', '3'].map(v => sha3(v)));
+
+            const wrongCount = { ...tree.export(), leafCount: 4 };
+            expect(() => MerkleTree.fromExport(wrongCount)).toThrow('leaf count mismatch');
+
+            const wrongRoot = { ...tree.export(), rootHash: sha3('x') };
+            expect(() => MerkleTree.fromExport(wrongRoot)).toThrow('root mismatch');
+
+            const exported = tree.export();
+            exported.levels[1]![0] = sha3('x');
+            expect(() => MerkleTree.fromExport(exported)).toThrow('internal nodes');
+        });
+    });
+
+    describe('consistency proofs', () => {
+        const leaves = Array.from({ length: 12 }, (_, i) => sha3(String(i)));
+
+        it('should reproduce historical roots', () => {
+            const tree = new MerkleTree(leaves);
+            for (let size = 1; size <= leaves.length; size++) {
+                expect(tree.getRootHashAt(size)).toBe(new MerkleTree(leaves.slice(0, size)).getRootHash());
+            }
+            expect(() => tree.getRootHashAt(0)).toThrow('out of bounds');
+            expect(() => tree.getRootHashAt(13)).toThrow('out of bounds');
+        });
+
+        it('should verify every pair of sizes', () => {
+            const tree = new MerkleTree(leaves);
+            for (let second = 1; second <= leaves.length; second++) {
+                for (let first = 1; first <= second; first++) {
+                    const proof = tree.getConsistencyProof(first, second);
+                    expect(MerkleTree.verifyConsistency(
+                        first, second, tree.getRootHashAt(first), tree.getRootHashAt(second), proof
+                    )).toBe(true);
+                }
+            }
+        });
+
+        it('should detect a rewritten history', () => {
+            const honest = new MerkleTree(leaves.slice(0, 5));
+            const oldRoot = honest.getRootHashAt(3);
+
+            const rewritten = new MerkleTree([leaves[0]!, sha3('forged'), ...leaves.slice(2, 8)]);
+            const proof = rewritten.getConsistencyProof(3);
+            expect(MerkleTree.verifyConsistency(3, 8, oldRoot, rewritten.getRootHash(), proof)).toBe(false);
+        });
+
+        it('should reject malformed proofs and sizes', () => {
+            const tree = new MerkleTree(leaves);
+            const root4 = tree.getRootHashAt(4);
+            const root = tree.getRootHash();
+            const proof = tree.getConsistencyProof(4);
+
+            expect(MerkleTree.verifyConsistency(4, 12, root4, root, [])).toBe(false);
+            expect(MerkleTree.verifyConsistency(4, 12, root4, root, [...proof, sha3('x')])).toBe(false);
+            expect(MerkleTree.verifyConsistency(4, 12, root4, sha3('x'), proof)).toBe(false);
+            expect(MerkleTree.verifyConsistency(5, 4, root4, root, proof)).toBe(false);
+            expect(MerkleTree.verifyConsistency(4, 4, root4, root4, [])).toBe(true);
+            expect(MerkleTree.verifyConsistency(4, 4, root4, root4, proof)).toBe(false);
+            expect(MerkleTree.verifyConsistency(4, 12, '', root, proof)).toBe(false);
+
+            expect(() => tree.getConsistencyProof(0)).toThrow('out of bounds');
+            expect(() => tree.getConsistencyProof(5, 4)).toThrow('out of bounds');
+            expect(() => tree.getConsistencyProof(1, 13)).toThrow('out of bounds');
+        });
+    });
+
+    describe('multiproofs', () => {
+        const leaves = Array.from({ length: 11 }, (_, i) => sha3(String(i)));
+        const subsets = [[0], [10], [0, 1], [2, 5, 9], [3, 4, 5, 6], [0, 3, 7, 8, 10], leaves.map((_, i) => i)];
+
+        it('should verify subsets of leaves for both formats and every size', () => {
+            for (const version of [1, 2] as const) {
+                for (let size = 1; size <= leaves.length; size++) {
+                    const tree = new MerkleTree(leaves.slice(0, size), { version });
+                    for (const subset of subsets.map(s => s.filter(i => i < size)).filter(s => s.length > 0)) {
+                        const proof = tree.getMultiProof(subset);
+                        const proven = subset.map(index => ({ index, hash: leaves[index]! }));
+                        expect(MerkleTree.verifyMultiProof(proven, proof, tree.getRootHash(), { version, treeSize: size })).toBe(true);
+                    }
+                }
+            }
+        });
+
+        it('should share sibling hashes between paths', () => {
+            const tree = new MerkleTree(leaves, { version: 2 });
+            const separate = [3, 4, 5, 6].reduce((sum, i) => sum + tree.getProofPath(i).length, 0);
+            expect(tree.getMultiProof([3, 4, 5, 6]).length).toBeLessThan(separate / 2);
+            expect(tree.getMultiProof(leaves.map((_, i) => i))).toEqual([]);
+            expect(tree.getMultiProof([6, 3, 3])).toEqual(tree.getMultiProof([3, 6]));
+        });
+
+        it('should reject wrong leaves, positions and sibling lists', () => {
+            const tree = new MerkleTree(leaves, { version: 2 });
+            const root = tree.getRootHash();
+            const proof = tree.getMultiProof([2, 5]);
+            const proven = [{ index: 2, hash: leaves[2]! }, { index: 5, hash: leaves[5]! }];
+            const verify = (l: typeof proven, p: string[], size = 11) =>
+                MerkleTree.verifyMultiProof(l, p, root, { version: 2, treeSize: size });
+
+            expect(verify(proven, proof)).toBe(true);
+            expect(verify([proven[0]!, { index: 5, hash: leaves[6]! }], proof)).toBe(false);
+            expect(verify([proven[0]!, { index: 6, hash: leaves[5]! }], proof)).toBe(false);
+            expect(verify(proven, [...proof, sha3('extra')])).toBe(false);
+            expect(verify(proven, proof.slice(1))).toBe(false);
+            expect(verify(proven, proof, 6)).toBe(false);
+            expect(verify([], [])).toBe(false);
+            expect(verify([...proven, { index: 2, hash: leaves[3]! }], proof)).toBe(false);
+
+            expect(() => tree.getMultiProof([])).toThrow('at least one leaf');
+            expect(() => tree.getMultiProof([11])).toThrow('out of bounds');
+        });
+    });
+
+    describe('format v2 (position-binding)', () => {
+        const leaves = Array.from({ length: 12 }, (_, i) => sha3(String(i)));
+        const bytes = (hex: string) => Uint8Array.from(hex.slice(2).match(/../g)!.map(b => parseInt(b, 16)));
+
+        it('should use domain-separated, ordered hashing', () => {
+            const [a, b] = [leaves[0]!, leaves[1]!];
+            const leafA = sha3(Uint8Array.from([0x00, ...bytes(a)]));
+            const leafB = sha3(Uint8Array.from([0x00, ...bytes(b)]));
+            const expected = sha3(Uint8Array.from([0x01, ...bytes(leafA), ...bytes(leafB)]));
+
+            expect(new MerkleTree([a], { version: 2 }).getRootHash()).toBe(leafA);
+            expect(new MerkleTree([a, b], { version: 2 }).getRootHash()).toBe(expected);
+            expect(new MerkleTree([b, a], { version: 2 }).getRootHash()).not.toBe(expected);
+            expect(new MerkleTree([a, b]).getRootHash()).toBe(new MerkleTree([b, a]).getRootHash());
+        });
+
+        it('should verify inclusion for every index and size', () => {
+            for (let size = 1; size <= leaves.length; size++) {
+                const tree = new MerkleTree(leaves.slice(0, size), { version: 2 });
+                const root = tree.getRootHash();
+                for (let i = 0; i < size; i++) {
+                    const path = tree.getProofPath(i);
+                    expect(MerkleTree.verifyProof(leaves[i]!, path, root, { version: 2, leafIndex: i, treeSize: size })).toBe(true);
+                }
+            }
+        });
+
+        it('should bind the proof to the leaf index', () => {
+            const tree = new MerkleTree(leaves.slice(0, 7), { version: 2 });
+            const root = tree.getRootHash();
+            const path = tree.getProofPath(3);
+
+            expect(MerkleTree.verifyProof(leaves[3]!, path, root, { version: 2, leafIndex: 2, treeSize: 7 })).toBe(false);
+            expect(MerkleTree.verifyProof(leaves[3]!, path, root, { version: 2, leafIndex: 3, treeSize: 4 })).toBe(false);
+            expect(MerkleTree.verifyProof(leaves[3]!, path, root, { version: 2 })).toBe(false);
+            expect(MerkleTree.verifyProof(leaves[3]!, path, root, { version: 2, leafIndex: 7, treeSize: 7 })).toBe(false);
+            expect(MerkleTree.verifyProof(leaves[3]!, [...path, path[0]!], root, { version: 2, leafIndex: 3, treeSize: 7 })).toBe(false);
+            expect(MerkleTree.verifyProof('not-hex', path, root, { version: 2, leafIndex: 3, treeSize: 7 })).toBe(false);
+        });
+
+        it('should support consistency proofs', () => {
+            const tree = new MerkleTree(leaves, { version: 2 });
+            for (let second = 1; second <= leaves.length; second++) {
+                for (let first = 1; first <= second; first++) {
+                    const proof = tree.getConsistencyProof(first, second);
+                    expect(MerkleTree.verifyConsistency(
+                        first, second, tree.getRootHashAt(first), tree.getRootHashAt(second), proof, 2
+                    )).toBe(true);
+                }
+            }
+        });
+
+        it('should record the version in exports and restore it', () => {
+            const tree = new MerkleTree(leaves.slice(0, 5), { version: 2 });
+            const exported = tree.export();
+            expect(exported.version).toBe(2);
+            expect(exported.leaves).toEqual(leaves.slice(0, 5));
+
+            const rebuilt = MerkleTree.fromExport(exported);
+            expect(rebuilt.getVersion()).toBe(2);
+            expect(rebuilt.getRootHash()).toBe(tree.getRootHash());
+
+            const legacy: Record<string, unknown> = { ...new MerkleTree(leaves.slice(0, 3)).export() };
+            delete legacy.version;
+            expect(MerkleTree.fromExport(legacy as any).getVersion()).toBe(1);
+        });
+
+        it('should reject unsupported versions', () => {
+            expect(() => new MerkleTree([], { version: 3 as any })).toThrow('Unsupported tree format version');
+        });
+    });
 });
+
@@ -2,11 +2,62 @@
  * Append-Only Merkle Tree Implementation
  * Optimized for causal event ordering with proof generation
  * Uses O(log n) append algorithm
+ *
+ * Two hashing formats are supported:
+ * - v1: leaves are used as-is and children are sorted before hashing
+ * - v2: RFC 6962 style, with domain-separated leaf (0x00) and node (0x01)
+ *   prefixes and left/right ordering derived from the leaf index, so an
+ *   inclusion proof commits to the leaf position
  * @module merkle/tree
  */
 
-import { sha3Concat } from '../crypto/sha3.js';
-import type { TreeExport, ProofPathElement } from '../types/index.js';
+import { sha3, sha3Concat } from '../crypto/sha3.js';
+import type {
+    TreeExport,
+    ProofPathElement,
+    MerkleNodeRecord,
+    TreeFormatVersion
+} from '../types/index.js';
+
+/**
+ * Tree format used when none is specified
+ */
+export const DEFAULT_TREE_VERSION: TreeFormatVersion = 1;
+
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+
+/**
+ * Receives every leaf and internal node write so tree state can be persisted
+ */
+export interface MerkleTreeStore {
+    /** Record a newly appended leaf */
+    putLeaf(index: number, hash: string): void;
+    /** Record an internal node (level >= 1); later writes replace earlier ones */
+    putNode(level: number, index: number, hash: string): void;
+}
+
+/**
+ * Options for constructing a Merkle tree
+ */
+export interface MerkleTreeOptions {
+    /** Optional store notified of every write */
+    store?: MerkleTreeStore;
+    /** Hashing format (default: 1) */
+    version?: TreeFormatVersion;
+}
+
+/**
+ * Options for verifying an inclusion proof
+ */
+export interface InclusionOptions {
+    /** Hashing format of the tree (default: 1) */
+    version?: TreeFormatVersion;
+    /** Index of the leaf being proven (required for v2) */
+    leafIndex?: number;
+    /** Tree size the root corresponds to (required for v2) */
+    treeSize?: number;
+}
 
 /**
  * Append-only Merkle tree for causal event hashes
@@ -15,12 +66,21 @@ import type { TreeExport, ProofPathElement } from '../types/index.js';
 export class MerkleTree {
     private leaves: string[] = [];
     private nodes: Map<string, string> = new Map(); // key: "level:index" -> hash
+    private readonly store: MerkleTreeStore | null;
+    private readonly version: TreeFormatVersion;
 
     /**
      * Create a new Merkle tree
      * @param initialLeaves - Optional initial leaf hashes
+     * @param options - Optional tree options
+     * @throws Error if the format version is not supported
      */
-    constructor(initialLeaves?: string[]) {
+    constructor(initialLeaves?: string[], options: MerkleTreeOptions = {}) {
+        this.store = options.store ?? null;
+        this.version = options.version ?? DEFAULT_TREE_VERSION;
+        if (this.version !== 1 && this.version !== 2) {
+            throw new Error(`Unsupported tree format version: ${String(this.version)}`);
+        }
         if (initialLeaves && initialLeaves.length > 0) {
             for (const leaf of initialLeaves) {
                 this.append(leaf);
@@ -28,6 +88,59 @@ export class MerkleTree {
         }
     }
 
+    /**
+     * Restore a tree from previously persisted leaves and internal nodes
+     * No hashes are recomputed; the restored root is exactly the stored one
+     * @param leaves - Leaf hashes in order
+     * @param nodes - Internal node records (level >= 1)
+     * @param options - Optional tree options for subsequent appends
+     * @returns Restored tree
+     */
+    static restore(
+        leaves: string[],
+        nodes: MerkleNodeRecord[],
+        options: MerkleTreeOptions = {}
+    ): MerkleTree {
+        const tree = new MerkleTree(undefined, options);
+        tree.leaves = [...leaves];
+        leaves.forEach((hash, index) => tree.nodes.set(`0:${index}`, MerkleTree.hashLeaf(hash, tree.version)));
+        for (const node of nodes) {
+            if (node.level < 1) continue;
+            tree.nodes.set(`${node.level}:${node.index}`, node.hash);
+        }
+        return tree;
+    }
+
+    /**
+     * Rebuild a tree from a TreeExport, recomputing every node
+     * @param data - Previously exported tree
+     * @param options - Optional tree options for subsequent appends
+     * @returns Rebuilt tree
+     * @throws Error if the recomputed tree does not match the export
+     */
+    static fromExport(data: TreeExport, options: Omit<MerkleTreeOptions, 'version'> = {}): MerkleTree {
+        if (!Array.isArray(data.leaves) || data.leafCount !== data.leaves.length) {
+            throw new Error(
+                `Tree export leaf count mismatch: declared ${data.leafCount}, got ${data.leaves?.length ?? 0} leaves`
+            );
+        }
+
+        const tree = new MerkleTree(data.leaves, { ...options, version: data.version ?? 1 });
+
+        if (tree.getRootHash() !== data.rootHash) {
+            throw new Error(
+                `Tree export root mismatch: expected ${data.rootHash}, recomputed ${tree.getRootHash()}`
+            );
+        }
+
+        const levels = tree.export().levels;
+        if (JSON.stringify(levels) !== JSON.stringify(data.levels)) {
+            throw new Error('Tree export internal nodes do not match recomputed levels');
+        }
+
+        return tree;
+    }
+
     /**
      * Append a new leaf hash and compute only necessary nodes
      * Uses O(log n) algorithm - only updates the path to root
@@ -39,12 +152,14 @@ export class MerkleTree {
         this.leaves.push(leafHash);
 
         // Store the leaf node
-        this.nodes.set(`0:${leafIndex}`, leafHash);
+        const leafNodeHash = MerkleTree.hashLeaf(leafHash, this.version);
+        this.nodes.set(`0:${leafIndex}`, leafNodeHash);
+        this.store?.putLeaf(leafIndex, leafHash);
 
         // Compute path to root - only O(log n) hash computations
         let currentIndex = leafIndex;
         let currentLevel = 0;
-        let currentHash = leafHash;
+        let currentHash = leafNodeHash;
 
         while (true) {
             const parentIndex = Math.floor(currentIndex / 2);
@@ -52,7 +167,7 @@ export class MerkleTree {
 
             if (isLeft) {
                 // We're left child - no sibling yet
-                this.nodes.set(`${currentLevel + 1}:${parentIndex}`, currentHash);
+                this.setNode(currentLevel + 1, parentIndex, currentHash);
             } else {
                 // We're right child - there must be a left sibling
                 const siblingKey = `${currentLevel}:${currentIndex - 1}`;
@@ -60,7 +175,7 @@ export class MerkleTree {
 
                 if (siblingHash) {
                     currentHash = this.hashPair(siblingHash, currentHash);
-                    this.nodes.set(`${currentLevel + 1}:${parentIndex}`, currentHash);
+                    this.setNode(currentLevel + 1, parentIndex, currentHash);
                 }
             }
 
@@ -77,6 +192,14 @@ export class MerkleTree {
         return this.getRootHash();
     }
 
+    /**
+     * Store an internal node and forward it to the persistence store
+     */
+    private setNode(level: number, index: number, hash: string): void {
+        this.nodes.set(`${level}:${index}`, hash);
+        this.store?.putNode(level, index, hash);
+    }
+
     /**
      * Count nodes at a given level based on leaf count
      */
@@ -98,13 +221,39 @@ export class MerkleTree {
     }
 
     /**
-     * Hash two nodes together (sorted ordering for consistency)
+     * Hash two nodes together using this tree's format
      */
     private hashPair(left: string, right: string): string {
-        if (left <= right) {
-            return sha3Concat(left, right);
+        return MerkleTree.hashNode(left, right, this.version);
+    }
+
+    /**
+     * Hash a leaf value into a level-0 node
+     * v1 uses the value as-is; v2 hashes it with the 0x00 leaf prefix
+     * @param leaf - Leaf value (0x-prefixed hex hash for v2)
+     * @param version - Tree format version
+     * @returns Level-0 node hash
+     */
+    static hashLeaf(leaf: string, version: TreeFormatVersion = DEFAULT_TREE_VERSION): string {
+        if (version === 1) {
+            return leaf;
         }
-        return sha3Concat(right, left);
+        return sha3(concatBytes([LEAF_PREFIX], hexToBytes(leaf)));
+    }
+
+    /**
+     * Hash two child nodes into their parent
+     * v1 sorts the children; v2 keeps left/right order and uses the 0x01 node prefix
+     * @param left - Left child hash
+     * @param right - Right child hash
+     * @param version - Tree format version
+     * @returns Parent node hash
+     */
+    static hashNode(left: string, right: string, version: TreeFormatVersion = DEFAULT_TREE_VERSION): string {
+        if (version === 1) {
+            return MerkleTree.hashPairStatic(left, right);
+        }
+        return sha3(concatBytes([NODE_PREFIX], hexToBytes(left), hexToBytes(right)));
     }
 
     /**
@@ -114,7 +263,7 @@ export class MerkleTree {
     getRootHash(): string {
         const len = this.leaves.length;
         if (len === 0) return '';
-        if (len === 1) return this.leaves[0] ?? '';
+        if (len === 1) return this.nodes.get('0:0') ?? '';
 
         // Find root node at top level
         const height = this.getHeight();
@@ -128,6 +277,13 @@ export class MerkleTree {
         return '';
     }
 
+    /**
+     * Get the hashing format of this tree
+     */
+    getVersion(): TreeFormatVersion {
+        return this.version;
+    }
+
     /**
      * Get the number of leaves in the tree
      */
@@ -166,7 +322,7 @@ export class MerkleTree {
                     siblingHash: siblingHash,
                     position: isLeftNode ? 'right' : 'left'
                 });
-            } else {
+            } else if (this.version === 1) {
                 // No sibling, self-paired
                 proofPath.push({
                     eventHash: currentHash,
@@ -181,15 +337,124 @@ export class MerkleTree {
         return proofPath;
     }
 
+    /**
+     * Generate one inclusion proof for several leaves
+     * Sibling hashes are listed level by level, left to right; nodes the
+     * verifier can compute from the proven leaves are left out, so shared
+     * parts of the individual proof paths appear only once
+     * @param leafIndices - Indices of the leaves to prove (any order; duplicates are ignored)
+     * @returns Sibling hashes for verifyMultiProof
+     * @throws Error if no index is given or an index is out of bounds
+     */
+    getMultiProof(leafIndices: number[]): string[] {
+        const indices = [...new Set(leafIndices)].sort((a, b) => a - b);
+        if (indices.length === 0) {
+            throw new Error('Multiproof requires at least one leaf');
+        }
+        for (const index of indices) {
+            if (!Number.isInteger(index) || index < 0 || index >= this.leaves.length) {
+                throw new Error(`Leaf index ${index} out of bounds`);
+            }
+        }
+
+        const siblings: string[] = [];
+        let known = indices;
+        let count = this.leaves.length;
+
+        for (let level = 0; count > 1; level++) {
+            const present = new Set(known);
+            for (const index of known) {
+                const sibling = index ^ 1;
+                // A node without a right sibling is promoted to the next level unchanged
+                if (sibling < count && !present.has(sibling)) {
+                    siblings.push(this.nodes.get(`${level}:${sibling}`) ?? '');
+                }
+            }
+            known = [...new Set(known.map(index => index >> 1))];
+            count = Math.ceil(count / 2);
+        }
+
+        return siblings;
+    }
+
+    /**
+     * Verify a multiproof from getMultiProof
+     * Works for both formats: the tree size fixes the tree shape, and leaf
+     * indices fix the left/right order of every node hashed
+     * @param leaves - Proven leaf values with their indices
+     * @param siblings - Sibling hashes from getMultiProof
+     * @param expectedRoot - Root hash the leaves should lead to
+     * @param options - Format version and the tree size the root corresponds to
+     * @returns True if every leaf is included and every sibling hash was used
+     */
+    static verifyMultiProof(
+        leaves: { index: number; hash: string }[],
+        siblings: string[],
+        expectedRoot: string,
+        options: { version?: TreeFormatVersion; treeSize: number }
+    ): boolean {
+        const version = options.version ?? DEFAULT_TREE_VERSION;
+        const { treeSize } = options;
+        if (!expectedRoot || leaves.length === 0) return false;
+        if (!Number.isInteger(treeSize) || treeSize < 1) return false;
+
+        try {
+            let level = new Map<number, string>();
+            for (const leaf of leaves) {
+                if (!Number.isInteger(leaf.index) || leaf.index < 0 || leaf.index >= treeSize) return false;
+                const hash = MerkleTree.hashLeaf(leaf.hash, version);
+                if (level.has(leaf.index) && level.get(leaf.index) !== hash) return false;
+                level.set(leaf.index, hash);
+            }
+
+            let next = 0;
+            for (let count = treeSize; count > 1; count = Math.ceil(count / 2)) {
+                const parents = new Map<number, string>();
+                for (const index of [...level.keys()].sort((a, b) => a - b)) {
+                    const parent = index >> 1;
+                    if (parents.has(parent)) continue;
+
+                    const hash = level.get(index)!;
+                    const sibling = index ^ 1;
+                    if (sibling >= count) {
+                        parents.set(parent, hash);
+                        continue;
+                    }
+                    const siblingHash = level.get(sibling) ?? siblings[next++];
+                    if (siblingHash === undefined) return false;
+                    parents.set(parent, (index & 1) === 1
+                        ? MerkleTree.hashNode(siblingHash, hash, version)
+                        : MerkleTree.hashNode(hash, siblingHash, version));
+                }
+                level = parents;
+            }
+
+            return next === siblings.length && level.get(0) === expectedRoot;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Verify a proof path leads to the expected root
+     * For v2 trees the leaf index and tree size are required: sibling order is
+     * derived from them (RFC 9162 section 2.1.3.2) and the `position` field of
+     * each step is ignored, so the proof authenticates the leaf position
+     * @param leafHash - Leaf value being proven
+     * @param proofPath - Proof path from getProofPath
+     * @param expectedRoot - Root hash the path should lead to
+     * @param options - Format version and, for v2, leaf index and tree size
      */
     static verifyProof(
         leafHash: string,
         proofPath: ProofPathElement[],
-        expectedRoot: string
+        expectedRoot: string,
+        options: InclusionOptions = {}
     ): boolean {
         if (!expectedRoot) return false;
+        if ((options.version ?? DEFAULT_TREE_VERSION) === 2) {
+            return MerkleTree.verifyInclusionV2(leafHash, proofPath, expectedRoot, options);
+        }
         if (proofPath.length === 0) return leafHash === expectedRoot;
 
         let currentHash = leafHash;
@@ -210,7 +475,48 @@ export class MerkleTree {
     }
 
     /**
-     * Static version of hashPair for verification
+     * RFC 9162 inclusion verification with index-derived ordering
+     */
+    private static verifyInclusionV2(
+        leafHash: string,
+        proofPath: ProofPathElement[],
+        expectedRoot: string,
+        options: InclusionOptions
+    ): boolean {
+        const { leafIndex, treeSize } = options;
+        if (leafIndex === undefined || treeSize === undefined) return false;
+        if (!Number.isInteger(leafIndex) || !Number.isInteger(treeSize)) return false;
+        if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+        try {
+            let fn = leafIndex;
+            let sn = treeSize - 1;
+            let current = MerkleTree.hashLeaf(leafHash, 2);
+
+            for (const step of proofPath) {
+                if (sn === 0) return false;
+
+                if ((fn & 1) === 1 || fn === sn) {
+                    current = MerkleTree.hashNode(step.siblingHash, current, 2);
+                    while ((fn & 1) === 0 && fn !== 0) {
+                        fn >>= 1;
+                        sn >>= 1;
+                    }
+                } else {
+                    current = MerkleTree.hashNode(current, step.siblingHash, 2);
+                }
+                fn >>= 1;
+                sn >>= 1;
+            }
+
+            return sn === 0 && current === expectedRoot;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Static version of hashPair for verification (format 1)
      */
     private static hashPairStatic(left: string, right: string): string {
         if (left <= right) {
@@ -219,6 +525,143 @@ export class MerkleTree {
         return sha3Concat(right, left);
     }
 
+    /**
+     * Get the root hash the tree had when it contained the first `size` leaves
+     * @param size - Historical tree size (1..leafCount)
+     * @returns Root hash at that size
+     * @throws Error if size is out of bounds
+     */
+    getRootHashAt(size: number): string {
+        if (!Number.isInteger(size) || size < 1 || size > this.leaves.length) {
+            throw new Error(`Tree size ${size} out of bounds`);
+        }
+        return this.subtreeHash(0, size);
+    }
+
+    /**
+     * Generate an RFC 6962 consistency proof between two tree sizes
+     * Proves that the tree at `secondSize` is an append-only extension of the tree at `firstSize`
+     * @param firstSize - Earlier tree size
+     * @param secondSize - Later tree size (default: current size)
+     * @returns Ordered list of node hashes
+     * @throws Error if sizes are out of bounds
+     */
+    getConsistencyProof(firstSize: number, secondSize: number = this.leaves.length): string[] {
+        if (!Number.isInteger(secondSize) || secondSize < 1 || secondSize > this.leaves.length) {
+            throw new Error(`Tree size ${secondSize} out of bounds`);
+        }
+        if (!Number.isInteger(firstSize) || firstSize < 1 || firstSize > secondSize) {
+            throw new Error(`Tree size ${firstSize} out of bounds for consistency with size ${secondSize}`);
+        }
+        return this.consistencySubproof(firstSize, 0, secondSize, true);
+    }
+
+    /**
+     * RFC 6962 SUBPROOF(m, D[start:end], b)
+     */
+    private consistencySubproof(m: number, start: number, end: number, complete: boolean): string[] {
+        const n = end - start;
+        if (m === n) {
+            return complete ? [] : [this.subtreeHash(start, end)];
+        }
+
+        const k = largestPowerOfTwoBelow(n);
+        if (m <= k) {
+            return [
+                ...this.consistencySubproof(m, start, start + k, complete),
+                this.subtreeHash(start + k, end)
+            ];
+        }
+        return [
+            ...this.consistencySubproof(m - k, start + k, end, false),
+            this.subtreeHash(start, start + k)
+        ];
+    }
+
+    /**
+     * Hash of the subtree over leaves [start, end)
+     * Complete, aligned subtrees are read from stored nodes; others are split
+     * at the largest power of two, matching the shape of the incremental tree
+     */
+    private subtreeHash(start: number, end: number): string {
+        const n = end - start;
+        if (n === 1) {
+            return this.nodes.get(`0:${start}`) ?? '';
+        }
+
+        if ((n & (n - 1)) === 0 && start % n === 0) {
+            const level = Math.log2(n);
+            const stored = this.nodes.get(`${level}:${start / n}`);
+            if (stored !== undefined) {
+                return stored;
+            }
+        }
+
+        const k = largestPowerOfTwoBelow(n);
+        return this.hashPair(this.subtreeHash(start, start + k), this.subtreeHash(start + k, end));
+    }
+
+    /**
+     * Verify an RFC 6962 consistency proof between two roots
+     * @param firstSize - Earlier tree size
+     * @param secondSize - Later tree size
+     * @param firstRoot - Root hash at the earlier size
+     * @param secondRoot - Root hash at the later size
+     * @param proof - Consistency proof hashes
+     * @param version - Tree format version (default: 1)
+     * @returns True if the later tree is an append-only extension of the earlier one
+     */
+    static verifyConsistency(
+        firstSize: number,
+        secondSize: number,
+        firstRoot: string,
+        secondRoot: string,
+        proof: string[],
+        version: TreeFormatVersion = DEFAULT_TREE_VERSION
+    ): boolean {
+        if (!Number.isInteger(firstSize) || !Number.isInteger(secondSize)) return false;
+        if (firstSize < 1 || firstSize > secondSize) return false;
+        if (!firstRoot || !secondRoot) return false;
+
+        if (firstSize === secondSize) {
+            return proof.length === 0 && firstRoot === secondRoot;
+        }
+        if (proof.length === 0) return false;
+
+        // If the first tree is a complete subtree, its root is the implicit first element
+        const path = (firstSize & (firstSize - 1)) === 0 ? [firstRoot, ...proof] : [...proof];
+
+        let fn = firstSize - 1;
+        let sn = secondSize - 1;
+        while (fn & 1) {
+            fn >>= 1;
+            sn >>= 1;
+        }
+
+        let fr = path[0]!;
+        let sr = path[0]!;
+
+        for (let i = 1; i < path.length; i++) {
+            const c = path[i]!;
+            if (sn === 0) return false;
+
+            if ((fn & 1) === 1 || fn === sn) {
+                fr = MerkleTree.hashNode(c, fr, version);
+                sr = MerkleTree.hashNode(c, sr, version);
+                while ((fn & 1) === 0 && fn !== 0) {
+                    fn >>= 1;
+                    sn >>= 1;
+                }
+            } else {
+                sr = MerkleTree.hashNode(sr, c, version);
+            }
+            fn >>= 1;
+            sn >>= 1;
+        }
+
+        return sn === 0 && fr === firstRoot && sr === secondRoot;
+    }
+
     /**
      * Export tree structure for debugging/inspection
      * @returns Complete tree export
@@ -248,7 +691,8 @@ export class MerkleTree {
             leaves: [...this.leaves],
             levels,
             rootHash: this.getRootHash(),
-            leafCount: this.leaves.length
+            leafCount: this.leaves.length,
+            version: this.version
         };
     }
 
@@ -261,3 +705,43 @@ export class MerkleTree {
         return this.leaves[index];
     }
 }
+
+/**
+ * Largest power of two strictly less than n (n >= 2)
+ */
+function largestPowerOfTwoBelow(n: number): number {
+    let k = 1;
+    while (k * 2 < n) {
+        k *= 2;
+    }
+    return k;
+}
+
+/**
+ * Decode a 0x-prefixed hex string into bytes
+ */
+function hexToBytes(hex: string): Uint8Array {
+    const h = hex.startsWith('0x') ? hex.slice(2) : hex;
+    if (h.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(h)) {
+        throw new Error(`Invalid hex hash: ${hex}`);
+    }
+    const bytes = new Uint8Array(h.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * Concatenate byte sequences
+ */
+function concatBytes(...parts: ArrayLike<number>[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
@@ -0,0 +1,9 @@
+/**
+ * CausalVerify - Node.js entry
+ * Node-only additions to the main entry (file system backed storage and key resolution);
+ * import from '@logiccrafterdz/causal-verify/node'
+ * @module @causal-proofs/core/node
+ */
+
+export { FileStorageAdapter, openFileRegistry } from './storage/file.js';
+export { FileKeyResolver } from './identity/file.js';
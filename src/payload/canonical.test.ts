@@ -0,0 +1,62 @@
+/**
+ * JSON Canonicalization Tests
+ * Validates against the RFC 8785 examples
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalizeJson } from './canonical.js';
+
+describe('canonicalizeJson', () => {
+    it('should reproduce the RFC 8785 section 3.2.2 example', () => {
+        const input = JSON.parse(
+            '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+            '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/",' +
+            '"literals":[null,true,false]}'
+        );
+        expect(canonicalizeJson(input)).toBe(
+            '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+            '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+        );
+    });
+
+    it('should sort members by UTF-16 code units (RFC 8785 section 3.2.3)', () => {
+        const input = {
+            '€': 'Euro Sign',
+            '\r': 'Carriage Return',
+            'דּ': 'Hebrew Letter Dalet With Dagesh',
+            '1': 'One',
+            '😀': 'Emoji: Grinning Face',
+            '\u0080': 'Control',
+            'ö': 'Latin Small Letter O With Diaeresis'
+        };
+        // Read the order from the text: JavaScript objects list integer-like keys first
+        const keys = [...canonicalizeJson(input).matchAll(/"((?:[^"\\]|\\.)*)":/g)].map(m => JSON.parse(`"${m[1]}"`));
+        expect(keys).toEqual(['\r', '1', '\u0080', 'ö', '€', '😀', 'דּ']);
+    });
+
+    it('should be independent of member order and whitespace', () => {
+        const a = canonicalizeJson(JSON.parse('{ "b": [1, {"y": 2, "x": 1}], "a": "text" }'));
+        const b = canonicalizeJson({ a: 'text', b: [1, { x: 1, y: 2 }] });
+        expect(a).toBe('{"a":"text","b":[1,{"x":1,"y":2}]}');
+        expect(b).toBe(a);
+    });
+
+    it('should follow JSON.stringify for toJSON, undefined members and -0', () => {
+        expect(canonicalizeJson({ at: new Date(0), skip: undefined, zero: -0 }))
+            .toBe('{"at":"1970-01-01T00:00:00.000Z","zero":0}');
+    });
+
+    it('should reject values JSON cannot represent', () => {
+        expect(() => canonicalizeJson({ n: NaN })).toThrow('non-finite number at $.n');
+        expect(() => canonicalizeJson([1, undefined])).toThrow('Cannot canonicalize undefined at $[1]');
+        expect(() => canonicalizeJson({ big: 1n })).toThrow('Cannot canonicalize bigint');
+        expect(() => canonicalizeJson('\ud800')).toThrow('lone surrogate');
+
+        const cyclic: Record<string, unknown> = {};
+        cyclic.self = cyclic;
+        expect(() => canonicalizeJson(cyclic)).toThrow('circular structure at $.self');
+
+        const shared = { v: 1 };
+        expect(canonicalizeJson([shared, shared])).toBe('[{"v":1},{"v":1}]');
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * JSON Canonicalization Scheme (RFC 8785)
+ * Deterministic JSON serialization so independent parties hash identical bytes
+ * @module payload/canonical
+ */
+
+/**
+ * Serialize a JSON value per RFC 8785
+ *
+ * Object members are sorted by the UTF-16 code units of their names, numbers
+ * use the ECMAScript shortest round-trip form and strings use JSON escaping.
+ * As with JSON.stringify, toJSON() is honoured and object members whose value
+ * is undefined are omitted.
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON text
+ * @throws Error on values JSON cannot represent (non-finite numbers, bigint,
+ *   functions, symbols, undefined array elements), lone surrogates and cycles
+ */
+export function canonicalizeJson(value: unknown): string {
+    return serialize(value, new Set(), '$');
+}
+
+function serialize(value: unknown, ancestors: Set<object>, path: string): string {
+    if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        value = (value as { toJSON: () => unknown }).toJSON();
+    }
+
+    switch (typeof value) {
+        case 'string':
+            return serializeString(value, path);
+        case 'number':
+            if (!Number.isFinite(value)) {
+                throw new Error(`Cannot canonicalize non-finite number at ${path}`);
+            }
+            // Number-to-string per ECMAScript, as RFC 8785 requires (-0 becomes 0)
+            return JSON.stringify(value);
+        case 'boolean':
+            return value ? 'true' : 'false';
+        case 'object':
+            break;
+        default:
+            throw new Error(`Cannot canonicalize ${typeof value} at ${path}`);
+    }
+
+    if (value === null) {
+        return 'null';
+    }
+    if (ancestors.has(value)) {
+        throw new Error(`Cannot canonicalize circular structure at ${path}`);
+    }
+    ancestors.add(value);
+
+    let result: string;
+    if (Array.isArray(value)) {
+        result = '[' + value.map((item, i) => serialize(item, ancestors, `${path}[${i}]`)).join(',') + ']';
+    } else {
+        const record = value as Record<string, unknown>;
+        // Default sort compares UTF-16 code units, exactly as RFC 8785 section 3.2.3 specifies
+        const members = Object.keys(record)
+            .filter(key => record[key] !== undefined)
+            .sort()
+            .map(key => serializeString(key, path) + ':' + serialize(record[key], ancestors, `${path}.${key}`));
+        result = '{' + members.join(',') + '}';
+    }
+
+    ancestors.delete(value);
+    return result;
+}
+
+function serializeString(value: string, path: string): string {
+    for (let i = 0; i < value.length; i++) {
+        const unit = value.charCodeAt(i);
+        if (unit >= 0xd800 && unit <= 0xdbff) {
+            const next = value.charCodeAt(i + 1);
+            if (next >= 0xdc00 && next <= 0xdfff) {
+                i++;
+                continue;
+            }
+            throw new Error(`Cannot canonicalize string with a lone surrogate at ${path}`);
+        }
+        if (unit >= 0xdc00 && unit <= 0xdfff) {
+            throw new Error(`Cannot canonicalize string with a lone surrogate at ${path}`);
+        }
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,85 @@
+/**
+ * Payload Disclosure Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    commitPayloadFields,
+    discloseFields,
+    disclosePayload,
+    hashDisclosedField,
+    hashFieldCommitments,
+    FIELD_COMMITMENTS_TYPE
+} from './disclosure.js';
+import { hashPayload } from './hash.js';
+import { sha3 } from '../crypto/sha3.js';
+
+const event = (payloadHash: string) => ({ eventHash: sha3('event'), payloadHash });
+
+describe('commitPayloadFields', () => {
+    it('should commit to each field with a fresh salt', () => {
+        const committed = commitPayloadFields({ amount: 5, to: '0xabc', memo: undefined });
+        expect(committed.fields.map(f => f.name)).toEqual(['amount', 'to']);
+        expect(committed.fields[0]!.salt).toMatch(/^0x[0-9a-f]{32}$/);
+        expect(committed.commitments).toEqual(committed.fields.map(hashDisclosedField).sort());
+        expect(committed.payloadHash).toBe(sha3(
+            `{"commitments":${JSON.stringify(committed.commitments)},"type":"${FIELD_COMMITMENTS_TYPE}"}`
+        ));
+
+        // Same payload, different salts
+        expect(commitPayloadFields({ amount: 5, to: '0xabc' }).payloadHash).not.toBe(committed.payloadHash);
+    });
+
+    it('should reject non-object payloads', () => {
+        expect(() => commitPayloadFields([1] as unknown as Record<string, unknown>))
+            .toThrow('Field commitments require a payload object');
+    });
+});
+
+describe('discloseFields', () => {
+    it('should reveal only the named fields', () => {
+        const committed = commitPayloadFields({ amount: 5, to: '0xabc', secret: 'x' });
+        const disclosure = discloseFields(event(committed.payloadHash), committed, ['amount']);
+
+        expect(disclosure.kind).toBe('fields');
+        expect(disclosure.fields).toEqual([committed.fields[0]]);
+        expect(hashFieldCommitments(disclosure.commitments)).toBe(committed.payloadHash);
+        expect(JSON.stringify(disclosure)).not.toContain('secret');
+    });
+
+    it('should reject unknown fields and foreign commitments', () => {
+        const committed = commitPayloadFields({ amount: 5 });
+        expect(() => discloseFields(event(committed.payloadHash), committed, ['to']))
+            .toThrow('Payload has no field to');
+        expect(() => discloseFields(event(sha3('other')), committed, ['amount']))
+            .toThrow('Field commitments do not match the payloadHash');
+    });
+});
+
+describe('disclosePayload', () => {
+    it('should hex-encode byte payloads so the disclosure is JSON-safe', () => {
+        const data = new Uint8Array([0, 1, 255]);
+        const disclosure = disclosePayload(event(hashPayload({ mode: 'raw', data })), { mode: 'raw', data });
+        expect(disclosure.payload).toEqual({ mode: 'raw', data: '0x0001ff', encoding: 'hex' });
+
+        const roundTripped = JSON.parse(JSON.stringify(disclosure));
+        expect(hashPayload(roundTripped.payload)).toBe(hashPayload({ mode: 'raw', data }));
+    });
+
+    it('should keep only the hashed HTTP headers', () => {
+        const payload = {
+            mode: 'http-response' as const,
+            status: 200,
+            headers: new Headers({ 'content-type': 'text/plain', authorization: 'Bearer token' }),
+            body: 'ok'
+        };
+        const disclosure = disclosePayload(event(hashPayload(payload)), payload);
+        expect(disclosure.payload).toMatchObject({ headers: { 'content-type': 'text/plain' } });
+        expect(JSON.stringify(disclosure)).not.toContain('Bearer');
+    });
+
+    it('should reject a payload that does not match the event', () => {
+        expect(() => disclosePayload(event(sha3('other')), { mode: 'json', value: { a: 1 } }))
+            .toThrow('Payload does not match the payloadHash');
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * Payload Disclosure
+ * Reveal the preimage of an event's payloadHash: the whole payload, or
+ * selected fields of a payload committed to field by field with salts
+ * @module payload/disclosure
+ */
+
+import {
+    CausalEvent,
+    DisclosedField,
+    FieldPayloadDisclosure,
+    FullPayloadDisclosure,
+    PayloadDescriptor
+} from '../types/index.js';
+import { sha3 } from '../crypto/sha3.js';
+import { canonicalizeJson } from './canonical.js';
+import { hashPayload, selectHeaders, DEFAULT_HASHED_HEADERS } from './hash.js';
+
+/**
+ * Type tag of the document whose hash is a field-committed payloadHash
+ */
+export const FIELD_COMMITMENTS_TYPE = 'causal-payload-fields-v1';
+
+/** Salt length in bytes */
+const SALT_BYTES = 16;
+
+/**
+ * Field-committed payload as kept by the agent (contains every salt; keep private)
+ */
+export interface CommittedPayload {
+    /** Hash to register as the event's payloadHash */
+    payloadHash: string;
+    /** Commitments to every field, sorted */
+    commitments: string[];
+    /** Every field with its salt */
+    fields: DisclosedField[];
+}
+
+/**
+ * Compute the commitment to one payload field
+ * @param field - Field name, salt and value
+ * @returns SHA3-256 of the canonical JSON array [salt, name, value]
+ */
+export function hashDisclosedField(field: DisclosedField): string {
+    return sha3(canonicalizeJson([field.salt, field.name, field.value]));
+}
+
+/**
+ * Compute the payloadHash of a field-committed payload
+ * @param commitments - Commitments to every field, in any order
+ * @returns SHA3-256 of the canonical JSON {"commitments": sorted, "type": FIELD_COMMITMENTS_TYPE}
+ */
+export function hashFieldCommitments(commitments: readonly string[]): string {
+    return sha3(canonicalizeJson({ type: FIELD_COMMITMENTS_TYPE, commitments: [...commitments].sort() }));
+}
+
+/**
+ * Commit to a payload field by field, so fields can later be revealed one at a time
+ * Register the returned payloadHash and keep the result to create disclosures.
+ * @param value - Payload object; each top-level member becomes a field (undefined members are skipped)
+ * @returns Commitments, salts and the payloadHash
+ * @throws Error if the payload is not a plain object or a field cannot be canonicalized
+ */
+export function commitPayloadFields(value: Record<string, unknown>): CommittedPayload {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Field commitments require a payload object');
+    }
+
+    const fields = Object.keys(value)
+        .filter(name => value[name] !== undefined)
+        .map(name => ({ name, salt: generateSalt(), value: value[name] }));
+    const commitments = fields.map(hashDisclosedField).sort();
+
+    return {
+        payloadHash: hashFieldCommitments(commitments),
+        commitments,
+        fields
+    };
+}
+
+/**
+ * Reveal selected fields of a field-committed payload
+ * @param event - Event registered with committed.payloadHash
+ * @param committed - Result of commitPayloadFields for the event's payload
+ * @param names - Fields to reveal
+ * @returns Disclosure that opens only the named fields
+ * @throws Error if the commitments do not belong to the event or a field does not exist
+ */
+export function discloseFields(
+    event: Pick<CausalEvent, 'eventHash' | 'payloadHash'>,
+    committed: CommittedPayload,
+    names: readonly string[]
+): FieldPayloadDisclosure {
+    if (hashFieldCommitments(committed.commitments) !== event.payloadHash) {
+        throw new Error(`Field commitments do not match the payloadHash of event ${event.eventHash}`);
+    }
+
+    const fields = names.map(name => {
+        const field = committed.fields.find(f => f.name === name);
+        if (!field) {
+            throw new Error(`Payload has no field ${name}`);
+        }
+        return { ...field };
+    });
+
+    return {
+        kind: 'fields',
+        eventHash: event.eventHash,
+        commitments: [...committed.commitments],
+        fields
+    };
+}
+
+/**
+ * Reveal the whole payload of an event
+ * Byte data is hex-encoded so the disclosure survives JSON transport.
+ * @param event - Event whose payloadHash was computed with hashPayload(payload)
+ * @param payload - The payload and its hashing mode
+ * @returns Disclosure of the full payload
+ * @throws Error if the payload does not hash to the event's payloadHash
+ */
+export function disclosePayload(
+    event: Pick<CausalEvent, 'eventHash' | 'payloadHash'>,
+    payload: PayloadDescriptor
+): FullPayloadDisclosure {
+    const portable = toPortablePayload(payload);
+    if (hashPayload(portable) !== event.payloadHash) {
+        throw new Error(`Payload does not match the payloadHash of event ${event.eventHash}`);
+    }
+    return { kind: 'full', eventHash: event.eventHash, payload: portable };
+}
+
+/**
+ * Make a payload JSON-safe: byte data becomes hex, and HTTP headers are
+ * reduced to a plain record of the hashed headers
+ */
+function toPortablePayload(payload: PayloadDescriptor): PayloadDescriptor {
+    if (payload.mode === 'raw' && payload.data instanceof Uint8Array) {
+        return { ...payload, data: bytesToHex(payload.data), encoding: 'hex' };
+    }
+    if (payload.mode === 'http-request' || payload.mode === 'http-response') {
+        const portable = { ...payload };
+        if (payload.headers !== undefined) {
+            portable.headers = selectHeaders(payload.headers, payload.includeHeaders ?? DEFAULT_HASHED_HEADERS);
+        }
+        if (payload.body instanceof Uint8Array) {
+            portable.body = bytesToHex(payload.body);
+            portable.encoding = 'hex';
+        }
+        return portable;
+    }
+    return payload;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function generateSalt(): string {
+    if (typeof crypto === 'undefined' || !crypto.getRandomValues) {
+        // SECURITY: Predictable salts would let verifiers brute-force undisclosed fields
+        throw new Error(
+            'Secure random number generator unavailable. ' +
+            'crypto.getRandomValues() is required for payload field salts.'
+        );
+    }
+    return bytesToHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
@@ -0,0 +1,77 @@
+/**
+ * Payload Hashing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashPayload, canonicalizeHttpPayload } from './hash.js';
+import { sha3 } from '../crypto/sha3.js';
+
+describe('hashPayload', () => {
+    it('should hash JSON payloads by their canonical form', () => {
+        const hash = hashPayload({ mode: 'json', value: { b: 2, a: [1, 'x'] } });
+        expect(hash).toBe(sha3('{"a":[1,"x"],"b":2}'));
+        expect(hashPayload({ mode: 'json', value: JSON.parse('{"a": [1.0, "x"], "b": 2}') })).toBe(hash);
+    });
+
+    it('should hash raw payloads as bytes', () => {
+        expect(hashPayload({ mode: 'raw', data: 'hello' })).toBe(sha3('hello'));
+        expect(hashPayload({ mode: 'raw', data: new Uint8Array([1, 2, 3]) })).toBe(sha3(new Uint8Array([1, 2, 3])));
+    });
+
+    it('should hash HTTP requests from method, URL, selected headers and body', () => {
+        const body = '{"q":1}';
+        const document = canonicalizeHttpPayload({
+            mode: 'http-request',
+            method: 'post',
+            url: 'https://api.example/data?x=1',
+            headers: { 'Content-Type': 'application/json ', 'X-Trace': 'abc' },
+            body
+        });
+        expect(document).toBe(
+            '{"bodyHash":"' + sha3(body) + '","headers":{"content-type":"application/json"},' +
+            '"method":"POST","type":"http-request","url":"https://api.example/data?x=1"}'
+        );
+
+        // A fetch Headers object and a precomputed body hash give the same result
+        const viaHeaders = hashPayload({
+            mode: 'http-request',
+            method: 'POST',
+            url: 'https://api.example/data?x=1',
+            headers: new Headers({ 'content-type': 'application/json', 'x-trace': 'other' }),
+            bodyHash: sha3(body)
+        });
+        expect(viaHeaders).toBe(sha3(document));
+    });
+
+    it('should hash HTTP responses and honour includeHeaders', () => {
+        const base = { mode: 'http-response' as const, status: 200, body: 'ok' };
+        const plain = hashPayload({ ...base, headers: { 'cache-control': 'no-store' } });
+        expect(plain).toBe(hashPayload(base));
+
+        const selected = canonicalizeHttpPayload({
+            ...base,
+            headers: { 'Cache-Control': ['no-store', 'private'], 'Content-Length': 2 },
+            includeHeaders: ['cache-control', 'Content-Length', 'etag']
+        });
+        expect(JSON.parse(selected).headers).toEqual({ 'cache-control': 'no-store, private', 'content-length': '2' });
+        expect(JSON.parse(canonicalizeHttpPayload({ mode: 'http-response', status: 204 })).bodyHash).toBeNull();
+    });
+
+    it('should separate request and response documents', () => {
+        const request = hashPayload({ mode: 'http-request', method: 'GET', url: '/a' });
+        const response = hashPayload({ mode: 'http-response', status: 200 });
+        expect(request).not.toBe(response);
+    });
+
+    it('should reject malformed HTTP payloads', () => {
+        expect(() => hashPayload({ mode: 'http-request', method: 'GE T', url: '/a' })).toThrow('Invalid HTTP method');
+        expect(() => hashPayload({ mode: 'http-request', method: 'GET', url: '' })).toThrow('URL is required');
+        expect(() => hashPayload({ mode: 'http-response', status: 42 })).toThrow('Invalid HTTP status: 42');
+        expect(() => hashPayload({ mode: 'http-response', status: 200, body: 'x', bodyHash: sha3('x') }))
+            .toThrow('either body or bodyHash');
+        expect(() => hashPayload({ mode: 'http-response', status: 200, bodyHash: 'abc' })).toThrow('bodyHash must be');
+        expect(() => hashPayload({ mode: 'http-response', status: 200, includeHeaders: ['bad header'] }))
+            .toThrow('Invalid header name: bad header');
+        expect(() => hashPayload({ mode: 'xml' } as never)).toThrow('Unknown payload mode: xml');
+    });
+});
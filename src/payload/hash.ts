@@ -0,0 +1,167 @@
+/**
+ * Payload Hashing
+ * Standard ways to derive EventInput.payloadHash, so a counterparty holding
+ * the same payload can recompute and check it
+ * @module payload/hash
+ */
+
+import {
+    HeaderSource,
+    HttpPayloadFields,
+    HttpRequestPayload,
+    HttpResponsePayload,
+    PayloadDescriptor,
+    PayloadEncoding
+} from '../types/index.js';
+import { sha3 } from '../crypto/sha3.js';
+import { canonicalizeJson } from './canonical.js';
+
+/**
+ * Headers hashed in the HTTP modes when includeHeaders is not given
+ */
+export const DEFAULT_HASHED_HEADERS: readonly string[] = ['content-type'];
+
+/**
+ * Compute the payload hash of an event
+ *
+ * - json: sha3(canonicalizeJson(value))
+ * - raw: sha3(data), string data decoded per encoding
+ * - http-request / http-response: sha3 of the canonical JSON document
+ *   returned by canonicalizeHttpPayload
+ * @param payload - Payload and hashing mode
+ * @returns SHA3-256 hash suitable for EventInput.payloadHash
+ * @throws Error if the payload cannot be canonicalized or is malformed
+ */
+export function hashPayload(payload: PayloadDescriptor): string {
+    switch (payload.mode) {
+        case 'json':
+            return sha3(canonicalizeJson(payload.value));
+        case 'raw':
+            return sha3(payloadBytes(payload.data, payload.encoding));
+        case 'http-request':
+        case 'http-response':
+            return sha3(canonicalizeHttpPayload(payload));
+        default:
+            throw new Error(`Unknown payload mode: ${String((payload as { mode?: unknown }).mode)}`);
+    }
+}
+
+/**
+ * Build the canonical document hashed for an HTTP request or response
+ *
+ * Requests: {"bodyHash","headers","method","type":"http-request","url"};
+ * responses: {"bodyHash","headers","status","type":"http-response"}.
+ * Header names are lower-cased, repeated values joined with ", " and
+ * missing headers left out; bodyHash is null when there is no body.
+ * @param payload - HTTP request or response
+ * @returns RFC 8785 canonical JSON text
+ * @throws Error if the method, status, header names or body hash are malformed
+ */
+export function canonicalizeHttpPayload(payload: HttpRequestPayload | HttpResponsePayload): string {
+    const headers = selectHeaders(payload.headers, payload.includeHeaders ?? DEFAULT_HASHED_HEADERS);
+    const bodyHash = resolveBodyHash(payload);
+
+    if (payload.mode === 'http-request') {
+        if (typeof payload.method !== 'string' || !/^[A-Za-z]+$/.test(payload.method)) {
+            throw new Error(`Invalid HTTP method: ${String(payload.method)}`);
+        }
+        if (typeof payload.url !== 'string' || payload.url === '') {
+            throw new Error('HTTP request URL is required');
+        }
+        return canonicalizeJson({
+            type: 'http-request',
+            method: payload.method.toUpperCase(),
+            url: payload.url,
+            headers,
+            bodyHash
+        });
+    }
+
+    if (!Number.isInteger(payload.status) || payload.status < 100 || payload.status > 599) {
+        throw new Error(`Invalid HTTP status: ${String(payload.status)}`);
+    }
+    return canonicalizeJson({
+        type: 'http-response',
+        status: payload.status,
+        headers,
+        bodyHash
+    });
+}
+
+function resolveBodyHash(payload: HttpPayloadFields): string | null {
+    const hasBody = payload.body !== undefined && payload.body !== null;
+    if (payload.bodyHash !== undefined) {
+        if (hasBody) {
+            throw new Error('Pass either body or bodyHash, not both');
+        }
+        if (!/^0x[0-9a-f]{64}$/.test(payload.bodyHash)) {
+            throw new Error('bodyHash must be a lower-case 0x-prefixed SHA3-256 hash');
+        }
+        return payload.bodyHash;
+    }
+    return hasBody ? sha3(payloadBytes(payload.body as string | Uint8Array, payload.encoding)) : null;
+}
+
+/**
+ * Turn payload data into the bytes that are hashed
+ * @throws Error if hex data is malformed or the encoding is unknown
+ */
+function payloadBytes(data: string | Uint8Array, encoding: PayloadEncoding = 'utf8'): string | Uint8Array {
+    if (typeof data !== 'string' || encoding === 'utf8') {
+        return data;
+    }
+    if (encoding !== 'hex') {
+        throw new Error(`Unknown payload encoding: ${String(encoding)}`);
+    }
+    const hex = data.startsWith('0x') ? data.slice(2) : data;
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error('Hex payload data is malformed');
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * Pick the hashed headers out of a header source
+ * @param source - Message headers
+ * @param names - Header names to keep, case-insensitive
+ * @returns Lower-cased names mapped to their values (repeated values joined with ", ")
+ * @throws Error if a header name is malformed
+ */
+export function selectHeaders(source: HeaderSource | undefined, names: readonly string[]): Record<string, string> {
+    const wanted = new Set(names.map(name => {
+        if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+            throw new Error(`Invalid header name: ${name}`);
+        }
+        return name.toLowerCase();
+    }));
+
+    const values = new Map<string, string[]>();
+    const add = (name: string, value: string) => {
+        const key = name.toLowerCase();
+        if (wanted.has(key)) {
+            values.set(key, [...(values.get(key) ?? []), value.trim()]);
+        }
+    };
+
+    if (source && typeof (source as { forEach?: unknown }).forEach === 'function') {
+        (source as { forEach(callback: (value: string, name: string) => void): void })
+            .forEach((value, name) => add(name, value));
+    } else if (source) {
+        for (const [name, value] of Object.entries(source as Record<string, string | string[] | number | undefined>)) {
+            if (value === undefined) continue;
+            for (const item of Array.isArray(value) ? value : [value]) {
+                add(name, String(item));
+            }
+        }
+    }
+
+    const selected: Record<string, string> = {};
+    for (const [name, list] of values) {
+        selected[name] = list.join(', ');
+    }
+    return selected;
+}
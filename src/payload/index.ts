@@ -0,0 +1,16 @@
+/**
+ * Payload module exports
+ * @module payload
+ */
+
+export { canonicalizeJson } from './canonical.js';
+export { hashPayload, canonicalizeHttpPayload, selectHeaders, DEFAULT_HASHED_HEADERS } from './hash.js';
+export {
+    FIELD_COMMITMENTS_TYPE,
+    hashDisclosedField,
+    hashFieldCommitments,
+    commitPayloadFields,
+    discloseFields,
+    disclosePayload
+} from './disclosure.js';
+export type { CommittedPayload } from './disclosure.js';
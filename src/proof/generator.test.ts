@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import { ProofGenerator } from './generator.js';
 import { CausalEventRegistry } from '../registry/registry.js';
-import { generateKeyPair, sha3 } from '../crypto/index.js';
+import { generateKeyPair, sha3, verify } from '../crypto/index.js';
+import { hashTreeHead, verifyTreeHeadSignature } from './tree-head.js';
+import { verifyLightProof } from '../verification/light-proof.js';
+import { ProgressiveVerifier } from '../verification/progressive.js';
 
 describe('ProofGenerator', () => {
     const agentId = '0xAgent';
@@ -43,4 +46,75 @@ describe('ProofGenerator', () => {
         const proofs = generator.generateBatchProofs([event.causalEventId], privateKey);
         expect(proofs.length).toBe(1);
     });
+
+    it('should sign a tree head binding agent, size, root and format', () => {
+        const { privateKey, publicKey } = generateKeyPair();
+        const registry = new CausalEventRegistry(agentId);
+        const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p'), predecessorHash: null, timestamp: Date.now() });
+        const generator = new ProofGenerator(registry);
+
+        const before = Date.now();
+        const proof = generator.generateProof(event.causalEventId, privateKey);
+        const head = proof.signedTreeHead!;
+        expect(head.agentId).toBe(agentId);
+        expect(head.treeSize).toBe(1);
+        expect(head.rootHash).toBe(registry.getRootHash());
+        expect(head.treeVersion).toBe(1);
+        expect(head.issuedAt).toBeGreaterThanOrEqual(before);
+
+        expect(verifyTreeHeadSignature(head, proof.agentSignature, publicKey)).toBe(true);
+        expect(verify(proof.treeRootHash, proof.agentSignature, publicKey)).toBe(false);
+        expect(verifyTreeHeadSignature({ ...head, agentId: '0xOther' }, proof.agentSignature, publicKey)).toBe(false);
+        expect(hashTreeHead(head)).not.toBe(hashTreeHead({ ...head, treeSize: 2 }));
+
+        const published = generator.generateTreeHead(privateKey);
+        expect(published.signedTreeHead.rootHash).toBe(head.rootHash);
+        expect(verifyTreeHeadSignature(published.signedTreeHead, published.agentSignature, publicKey)).toBe(true);
+    });
+
+    describe('light proofs', () => {
+        const buildRegistry = (count: number) => {
+            const registry = new CausalEventRegistry(agentId);
+            for (let i = 0; i < count; i++) {
+                registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3(String(i)), predecessorHash: registry.getLastEventHash(), timestamp: Date.now() });
+            }
+            return registry;
+        };
+
+        it('should generate a light proof accepted by verifyLightProof', () => {
+            const registry = buildRegistry(4);
+            const target = registry.export().events[3]!;
+            const light = new ProofGenerator(registry).generateLightProof(target.causalEventId);
+
+            expect(light.agentId).toBe(agentId);
+            expect(light.targetEventHash).toBe(target.eventHash);
+            expect(light.causalChain.length).toBe(4);
+            expect(light.causalChain[3]).toEqual({ eventHash: target.eventHash, timestamp: target.timestamp });
+            expect(verifyLightProof(light, agentId)).toBe(true);
+        });
+
+        it('should honour the requested depth', () => {
+            const registry = buildRegistry(6);
+            const target = registry.export().events[5]!;
+            const generator = new ProofGenerator(registry);
+            expect(generator.generateLightProof(target.causalEventId, 2).causalChain.length).toBe(2);
+            expect(generator.generateLightProof(target.causalEventId, 10).causalChain.length).toBe(6);
+            expect(() => generator.generateLightProof('missing')).toThrow('Event missing not found');
+        });
+
+        it('should build a proof package for the progressive verifier', async () => {
+            const { privateKey, publicKey } = generateKeyPair();
+            const registry = buildRegistry(3);
+            const target = registry.export().events[2]!;
+            const pkg = new ProofGenerator(registry).generateProofPackage(target.causalEventId, privateKey, { lightDepth: 3, nonce: '0x01' });
+
+            expect(pkg.full!.targetEvent.eventHash).toBe(pkg.light.targetEventHash);
+            expect(pkg.full!.signedTreeHead!.nonce).toBe('0x01');
+
+            const result = await new ProgressiveVerifier().verify(pkg, { agentId, publicKey });
+            expect(result.canProceed).toBe(true);
+            expect((await result.fullResult)!.isValid).toBe(true);
+        });
+    });
 });
+
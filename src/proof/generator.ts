@@ -8,10 +8,47 @@ import {
     CausalEvent,
     CausalProof,
     CausalChainElement,
-    ProofPathElement
+    ProofPathElement,
+    SignedTreeHead,
+    LightProof,
+    ProofPackage,
+    BatchCausalProof,
+    SignatureSchemeId,
+    PayloadDisclosure
 } from '../types/index.js';
 import { CausalEventRegistry } from '../registry/registry.js';
-import { sign } from '../crypto/ecdsa.js';
+import { signTreeHead } from './tree-head.js';
+import { hashLightProof, commitToFullProof } from './light-proof.js';
+import { getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import { CURRENT_CAUSAL_PROOF_VERSION } from './schema.js';
+
+/**
+ * Options for generating a proof
+ */
+export interface ProofOptions {
+    /** Verifier-issued challenge to bind into the signed tree head */
+    nonce?: string;
+    /** Sign with a 65-byte recoverable signature so the signer's address can be derived (secp256k1 only) */
+    recoverable?: boolean;
+    /** Signature scheme of the private key (default: secp256k1) */
+    scheme?: SignatureSchemeId;
+    /** Payload disclosures to attach (see disclosePayload and discloseFields) */
+    disclosures?: PayloadDisclosure[];
+    /** Include agentId and payloadHash in chain elements so their hashes can be recomputed */
+    includeEventData?: boolean;
+    /** Include a Merkle inclusion path for every chain element */
+    includeInclusionProofs?: boolean;
+}
+
+/**
+ * Options for building a light/full proof package
+ */
+export interface ProofPackageOptions extends ProofOptions {
+    /** Number of events in the light proof chain (default: registry default) */
+    lightDepth?: number;
+    /** Number of events in the full proof chain (default: registry default) */
+    chainDepth?: number;
+}
 
 /**
  * Generates atomic causal proofs from a registry
@@ -31,10 +68,16 @@ export class ProofGenerator {
      * @param eventId - The ID of the event to prove
      * @param privateKey - Agent's private key for signing
      * @param chainDepth - How many preceding events to include (default: all)
+     * @param options - Optional verifier challenge and signature format
      * @returns Complete signed causal proof
-     * @throws Error if event not found or registration is incomplete
+     * @throws Error if event not found, registration is incomplete or the scheme is unsupported
      */
-    generateProof(eventId: string, privateKey: string, chainDepth?: number): CausalProof {
+    generateProof(
+        eventId: string,
+        privateKey: string,
+        chainDepth?: number,
+        options: ProofOptions = {}
+    ): CausalProof {
         const targetEvent = this.registry.getEvent(eventId);
         if (!targetEvent) {
             throw new Error(`Event ${eventId} not found in registry`);
@@ -48,28 +91,160 @@ export class ProofGenerator {
 
         // 2. Extract causal chain
         const causalChain = this.registry.getEventChain(eventId, chainDepth)
-            .map(event => ({
-                eventHash: event.eventHash,
-                actionType: event.actionType,
-                timestamp: event.timestamp,
-                predecessorHash: event.predecessorHash
-            }));
+            .map(event => this.toChainElement(event, options));
 
-        // 3. Get current root hash and sign it
-        const treeRootHash = this.registry.getRootHash();
-        const agentSignature = sign(treeRootHash, privateKey);
+        // 3. Sign the current tree head (agent, size, root, time, format, challenge)
+        const scheme = options.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+        const signedTreeHead = this.createTreeHead(options.nonce);
+        const agentSignature = signTreeHead(signedTreeHead, privateKey, options.recoverable, scheme);
 
-        return {
+        const proof: CausalProof = {
+            schemaVersion: CURRENT_CAUSAL_PROOF_VERSION,
             targetEvent,
             proofPath,
             causalChain,
-            treeRootHash,
-            agentSignature
+            treeRootHash: signedTreeHead.rootHash,
+            agentSignature,
+            signedTreeHead,
+            treeVersion: signedTreeHead.treeVersion,
+            treeSize: signedTreeHead.treeSize,
+            signatureScheme: scheme
+        };
+        if (options.disclosures !== undefined) {
+            proof.disclosures = [...options.disclosures];
+        }
+        return proof;
+    }
+
+    /**
+     * Sign the registry's current tree head, e.g. for publication to auditors
+     * @param privateKey - Agent's private key
+     * @param scheme - Signature scheme of the private key (default: secp256k1)
+     * @returns Tree head and the agent signature over it
+     */
+    generateTreeHead(
+        privateKey: string,
+        scheme: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+    ): { signedTreeHead: SignedTreeHead; agentSignature: string } {
+        const signedTreeHead = this.createTreeHead();
+        return { signedTreeHead, agentSignature: signTreeHead(signedTreeHead, privateKey, false, scheme) };
+    }
+
+    /**
+     * Describe a chain event, with as much detail as the options ask for
+     */
+    private toChainElement(event: CausalEvent, options: ProofOptions): CausalChainElement {
+        const element: CausalChainElement = {
+            eventHash: event.eventHash,
+            actionType: event.actionType,
+            timestamp: event.timestamp,
+            predecessorHash: event.predecessorHash
+        };
+        if (options.includeEventData) {
+            element.agentId = event.agentId;
+            element.payloadHash = event.payloadHash;
+        }
+        if (options.includeInclusionProofs) {
+            const proofPath = this.registry.getProofPath(event.causalEventId);
+            if (!proofPath) {
+                throw new Error(`Merkle proof path not found for event ${event.causalEventId}`);
+            }
+            element.positionInTree = event.positionInTree;
+            element.proofPath = proofPath;
+        }
+        return element;
+    }
+
+    /**
+     * Snapshot the registry's current tree head
+     */
+    private createTreeHead(nonce?: string): SignedTreeHead {
+        const head: SignedTreeHead = {
+            agentId: this.registry.getAgentId(),
+            treeSize: this.registry.getEventCount(),
+            rootHash: this.registry.getRootHash(),
+            issuedAt: Date.now(),
+            treeVersion: this.registry.getTreeVersion()
+        };
+        if (nonce !== undefined) {
+            head.nonce = nonce;
+        }
+        return head;
+    }
+
+    /**
+     * Generate a light proof for immediate trust decisions
+     * @param eventId - The ID of the event to prove
+     * @param depth - How many events (including the target) to include
+     * @param privateKey - If given, the light proof is signed by the agent
+     * @param scheme - Signature scheme of the private key (default: secp256k1)
+     * @returns Light proof consumable by verifyLightProof
+     * @throws Error if event not found
+     */
+    generateLightProof(
+        eventId: string,
+        depth?: number,
+        privateKey?: string,
+        scheme: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+    ): LightProof {
+        const targetEvent = this.registry.getEvent(eventId);
+        if (!targetEvent) {
+            throw new Error(`Event ${eventId} not found in registry`);
+        }
+
+        const causalChain = this.registry.getEventChain(eventId, depth)
+            .map(event => ({
+                eventHash: event.eventHash,
+                timestamp: event.timestamp
+            }));
+
+        const light: LightProof = {
+            agentId: targetEvent.agentId,
+            targetEventHash: targetEvent.eventHash,
+            causalChain,
+            timestamp: Date.now()
         };
+        if (privateKey !== undefined) {
+            light.signatureScheme = scheme;
+            light.agentSignature = getSignatureScheme(scheme).sign(hashLightProof(light), privateKey);
+        }
+        return light;
+    }
+
+    /**
+     * Generate a light proof and a full signed proof for the same event,
+     * in the shape ProgressiveVerifier.verify expects. The light proof
+     * carries a commitment to the full proof and is signed by the agent.
+     * @param eventId - The ID of the event to prove
+     * @param privateKey - Agent's private key for signing the full proof
+     * @param options - Chain depths, optional verifier challenge and signature scheme
+     * @returns Proof package with light and full proofs
+     * @throws Error if event not found
+     */
+    generateProofPackage(
+        eventId: string,
+        privateKey: string,
+        options: ProofPackageOptions = {}
+    ): ProofPackage {
+        const full = this.generateProof(eventId, privateKey, options.chainDepth, {
+            nonce: options.nonce,
+            recoverable: options.recoverable,
+            scheme: options.scheme,
+            disclosures: options.disclosures,
+            includeEventData: options.includeEventData,
+            includeInclusionProofs: options.includeInclusionProofs
+        });
+        const scheme = options.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+        const light = this.generateLightProof(eventId, options.lightDepth);
+        light.fullProofCommitment = commitToFullProof(full);
+        light.signatureScheme = scheme;
+        light.agentSignature = getSignatureScheme(scheme).sign(hashLightProof(light), privateKey);
+        return { light, full };
     }
 
     /**
      * Generate batch proofs for multiple events
+     * Each proof is signed separately; see generateMultiProof for one compact proof
      * @param eventIds - IDs of events to prove
      * @param privateKey - Agent's private key
      * @returns Array of signed causal proofs
@@ -77,4 +252,54 @@ export class ProofGenerator {
     generateBatchProofs(eventIds: string[], privateKey: string): CausalProof[] {
         return eventIds.map(id => this.generateProof(id, privateKey));
     }
+
+    /**
+     * Prove several events with one signature and one Merkle multiproof
+     * @param eventIds - IDs of events to prove
+     * @param privateKey - Agent's private key
+     * @param options - Optional verifier challenge and signature scheme
+     * @returns Batch proof covering every event
+     * @throws Error if no event is given, an event ID repeats or an event is not found
+     */
+    generateMultiProof(
+        eventIds: string[],
+        privateKey: string,
+        options: Pick<ProofOptions, 'nonce' | 'scheme'> = {}
+    ): BatchCausalProof {
+        if (eventIds.length === 0) {
+            throw new Error('Batch proof requires at least one event');
+        }
+
+        const events: CausalEvent[] = [];
+        for (const eventId of eventIds) {
+            const event = this.registry.getEvent(eventId);
+            if (!event) {
+                throw new Error(`Event ${eventId} not found in registry`);
+            }
+            if (events.some(e => e.causalEventId === eventId)) {
+                throw new Error(`Duplicate event ID in batch: ${eventId}`);
+            }
+            events.push(event);
+        }
+        events.sort((a, b) => a.positionInTree - b.positionInTree);
+
+        const multiProof = this.registry.getMultiProof(eventIds);
+        if (!multiProof) {
+            throw new Error('Merkle multiproof not available for batch');
+        }
+
+        const scheme = options.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+        const signedTreeHead = this.createTreeHead(options.nonce);
+
+        return {
+            events,
+            multiProof,
+            treeRootHash: signedTreeHead.rootHash,
+            agentSignature: signTreeHead(signedTreeHead, privateKey, false, scheme),
+            signedTreeHead,
+            treeVersion: signedTreeHead.treeVersion,
+            treeSize: signedTreeHead.treeSize,
+            signatureScheme: scheme
+        };
+    }
 }
@@ -4,3 +4,28 @@
  */
 
 export { ProofGenerator } from './generator.js';
+export type { ProofOptions, ProofPackageOptions } from './generator.js';
+export {
+    TREE_HEAD_DOMAIN,
+    hashTreeHead,
+    signTreeHead,
+    verifyTreeHeadSignature
+} from './tree-head.js';
+export {
+    LIGHT_PROOF_DOMAIN,
+    FULL_PROOF_COMMITMENT_DOMAIN,
+    hashLightProof,
+    commitToFullProof
+} from './light-proof.js';
+export {
+    CAUSAL_PROOF_V1,
+    CAUSAL_PROOF_V2,
+    CURRENT_CAUSAL_PROOF_VERSION,
+    ProofSchemaRegistry,
+    createProofSchemaRegistry,
+    defaultProofSchemas,
+    detectProofVersion,
+    upgradeProof,
+    isValidCausalProofV2
+} from './schema.js';
+export type { CausalProofVersion, ProofSchema, ProofUpgrade } from './schema.js';
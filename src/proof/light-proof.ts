@@ -0,0 +1,57 @@
+/**
+ * Light Proof Binding
+ * Signature and commitment helpers tying a light proof to its full proof
+ * @module proof/light-proof
+ */
+
+import { CausalProof, LightProof } from '../types/index.js';
+import { sha3Concat } from '../crypto/sha3.js';
+
+/**
+ * Domain separation tag for light proof signatures
+ */
+export const LIGHT_PROOF_DOMAIN = 'causal-light-proof-v1';
+
+/**
+ * Domain separation tag for full proof commitments
+ */
+export const FULL_PROOF_COMMITMENT_DOMAIN = 'causal-full-proof-commitment-v1';
+
+/**
+ * Compute the message hash an agent signs for a light proof
+ * Covers every light proof field except the signature itself
+ * @param proof - Light proof to hash
+ * @returns SHA3-256 hash of the light proof contents
+ */
+export function hashLightProof(proof: LightProof): string {
+    const fields: (string | null)[] = [
+        LIGHT_PROOF_DOMAIN,
+        proof.agentId,
+        proof.targetEventHash,
+        String(proof.timestamp),
+        proof.fullProofCommitment ?? null,
+        ...proof.causalChain.flatMap(el => [el.eventHash, String(el.timestamp)])
+    ];
+    // The scheme is appended only when present so secp256k1 proofs without one hash as before
+    if (proof.signatureScheme !== undefined) {
+        fields.push(proof.signatureScheme);
+    }
+    return sha3Concat(...fields);
+}
+
+/**
+ * Compute a commitment to a full proof for embedding in a light proof
+ * Covers the target event, the signed root and signature, and the chain
+ * @param full - Full signed causal proof
+ * @returns SHA3-256 commitment hash
+ */
+export function commitToFullProof(full: CausalProof): string {
+    return sha3Concat(
+        FULL_PROOF_COMMITMENT_DOMAIN,
+        full.targetEvent.agentId,
+        full.targetEvent.eventHash,
+        full.treeRootHash,
+        full.agentSignature,
+        ...full.causalChain.flatMap(el => [el.eventHash, String(el.timestamp)])
+    );
+}
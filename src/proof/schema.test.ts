@@ -0,0 +1,136 @@
+/**
+ * Proof Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    CAUSAL_PROOF_V1,
+    CAUSAL_PROOF_V2,
+    ProofSchemaRegistry,
+    createProofSchemaRegistry,
+    defaultProofSchemas,
+    detectProofVersion,
+    upgradeProof,
+    isValidCausalProofV2
+} from './schema.js';
+import { ProofGenerator } from './generator.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { verifyProof } from '../verification/verifier.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+import { CausalProof } from '../types/index.js';
+
+describe('Proof schemas', () => {
+    const agentId = '0xAgent';
+    const { privateKey, publicKey } = generateKeyPair();
+
+    function buildProof(): CausalProof {
+        const registry = new CausalEventRegistry(agentId);
+        const event = registry.registerEvent({
+            agentId,
+            actionType: 'request',
+            payloadHash: sha3('schema'),
+            predecessorHash: null,
+            timestamp: Date.now()
+        });
+        return new ProofGenerator(registry).generateProof(event.causalEventId, privateKey);
+    }
+
+    /** A proof as written before schema versions existed */
+    function legacyProof(): Record<string, unknown> {
+        const { schemaVersion: _version, treeVersion: _tree, signatureScheme: _scheme, ...legacy } = buildProof();
+        return legacy;
+    }
+
+    it('should generate proofs in the current version', () => {
+        const proof = buildProof();
+        expect(proof.schemaVersion).toBe(CAUSAL_PROOF_V2);
+        expect(isValidCausalProofV2(proof)).toBe(true);
+        expect(defaultProofSchemas.getCurrentVersion()).toBe(CAUSAL_PROOF_V2);
+        expect(defaultProofSchemas.getVersions()).toEqual([CAUSAL_PROOF_V2, CAUSAL_PROOF_V1]);
+    });
+
+    it('should upgrade causal-v1 proofs with the old defaults made explicit', () => {
+        const legacy = legacyProof();
+        expect(detectProofVersion(legacy)).toBe(CAUSAL_PROOF_V1);
+        expect(isValidCausalProofV2(legacy)).toBe(false);
+
+        const upgraded = upgradeProof(legacy);
+        expect(upgraded.schemaVersion).toBe(CAUSAL_PROOF_V2);
+        expect(upgraded.treeVersion).toBe(1);
+        expect(upgraded.signatureScheme).toBe('secp256k1');
+        expect(legacy.schemaVersion).toBeUndefined();
+        expect(verifyProof(upgraded, agentId, publicKey).isValid).toBe(true);
+    });
+
+    it('should validate proofs against the version they declare', () => {
+        const proof = buildProof();
+        expect(() => defaultProofSchemas.decode({ ...proof, signatureScheme: undefined }, CAUSAL_PROOF_V2))
+            .toThrow('Invalid CausalProof structure');
+        expect(() => defaultProofSchemas.decode(proof, 'causal-v9')).toThrow('Unsupported proof schema: causal-v9');
+        expect(() => upgradeProof({ ...proof, schemaVersion: 'causal-v9' })).toThrow('Unsupported proof schema');
+    });
+
+    it('should reject proofs with malformed array elements', () => {
+        const proof = buildProof();
+        const chainElement = { eventHash: sha3('e'), actionType: 'request', timestamp: 1, predecessorHash: null };
+        const malformed: Record<string, unknown>[] = [
+            { proofPath: [null] },
+            { proofPath: [42] },
+            { proofPath: [{ eventHash: sha3('a'), siblingHash: sha3('b'), position: 'up' }] },
+            { proofPath: [{ eventHash: sha3('a'), siblingHash: 7, position: 'left' }] },
+            { causalChain: [null] },
+            { causalChain: ['event'] },
+            { causalChain: [{ ...chainElement, timestamp: '1' }] },
+            { causalChain: [{ ...chainElement, proofPath: [null] }] },
+            { disclosures: [null] },
+            { disclosures: [7] },
+            { disclosures: [{ kind: 'secret', eventHash: sha3('e') }] },
+            { disclosures: [{ kind: 'full', eventHash: sha3('e'), payload: null }] },
+            { disclosures: [{ kind: 'fields', eventHash: sha3('e'), commitments: [], fields: [null] }] }
+        ];
+        for (const patch of malformed) {
+            expect(() => defaultProofSchemas.decode({ ...proof, ...patch }, CAUSAL_PROOF_V2))
+                .toThrow('Invalid CausalProof structure');
+        }
+        expect(defaultProofSchemas.decode({ ...proof, causalChain: [chainElement] }, CAUSAL_PROOF_V2).causalChain)
+            .toHaveLength(1);
+    });
+
+    it('should downgrade current proofs for causal-v1 verifiers', () => {
+        const proof = buildProof();
+        const v1 = defaultProofSchemas.convert({ ...proof }, CAUSAL_PROOF_V2, CAUSAL_PROOF_V1);
+        expect(v1.schemaVersion).toBeUndefined();
+        expect(defaultProofSchemas.decode(v1, CAUSAL_PROOF_V1)).toEqual(proof);
+    });
+
+    it('should chain registered upgrades to the current version', () => {
+        const registry = new ProofSchemaRegistry('causal-v3')
+            .register({ version: CAUSAL_PROOF_V2, validate: isValidCausalProofV2 })
+            .register({
+                version: 'causal-v3',
+                validate: value => (value as { schemaVersion?: unknown }).schemaVersion === 'causal-v3'
+            });
+        expect(registry.accepts(CAUSAL_PROOF_V2)).toBe(false);
+
+        registry.registerUpgrade({
+            from: CAUSAL_PROOF_V2,
+            to: 'causal-v3',
+            upgrade: proof => ({ ...proof, schemaVersion: 'causal-v3' })
+        });
+        expect(registry.getVersions()).toEqual(['causal-v3', CAUSAL_PROOF_V2]);
+        expect(upgradeProof(buildProof(), registry).schemaVersion).toBe('causal-v3');
+        expect(() => registry.convert({}, 'causal-v3', CAUSAL_PROOF_V2)).toThrow('Cannot convert proof from causal-v3 to causal-v2');
+    });
+
+    it('should reject conflicting registrations', () => {
+        const registry = createProofSchemaRegistry();
+        expect(() => registry.register({ version: CAUSAL_PROOF_V1, validate: () => true }))
+            .toThrow('Proof schema causal-v1 is already registered');
+        expect(() => registry.registerUpgrade({ from: CAUSAL_PROOF_V1, to: 'causal-v9', upgrade: p => p }))
+            .toThrow('Unknown proof schema: causal-v9');
+        expect(() => registry.registerUpgrade({ from: CAUSAL_PROOF_V1, to: CAUSAL_PROOF_V2, upgrade: p => p }))
+            .toThrow('Proof schema causal-v1 already has an upgrade');
+        expect(() => registry.registerUpgrade({ from: CAUSAL_PROOF_V2, to: CAUSAL_PROOF_V1, upgrade: p => p }))
+            .toThrow('would form a cycle');
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * Proof Schema Versions
+ * Versioned CausalProof shapes, validated by version and upgraded to the
+ * version this library verifies
+ * @module proof/schema
+ */
+
+import { CausalProof } from '../types/index.js';
+import { DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+
+/**
+ * Original proof shape: format fields optional, no version marker
+ */
+export const CAUSAL_PROOF_V1 = 'causal-v1';
+
+/**
+ * Self-describing proof shape: schemaVersion, treeVersion and signatureScheme are required
+ */
+export const CAUSAL_PROOF_V2 = 'causal-v2';
+
+/**
+ * Version produced by ProofGenerator and returned by decoders
+ */
+export const CURRENT_CAUSAL_PROOF_VERSION = CAUSAL_PROOF_V2;
+
+/**
+ * Proof schema versions built into this library
+ */
+export type CausalProofVersion = typeof CAUSAL_PROOF_V1 | typeof CAUSAL_PROOF_V2;
+
+/**
+ * Structure check for one proof schema version
+ */
+export interface ProofSchema {
+    /** Version identifier, e.g. causal-v2 */
+    version: string;
+    /** Check that a decoded value has this version's shape */
+    validate(value: unknown): boolean;
+}
+
+/**
+ * Conversion from one proof schema version to the next
+ */
+export interface ProofUpgrade {
+    /** Version converted from */
+    from: string;
+    /** Version converted to */
+    to: string;
+    /** Convert a proof that passed the `from` schema's validation */
+    upgrade(proof: Record<string, unknown>): Record<string, unknown>;
+    /** Inverse conversion, for senders talking to verifiers that only accept `from` */
+    downgrade?(proof: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Proof schemas keyed by version, and the upgrades between them
+ * Versions form a chain: each version has at most one upgrade, and every
+ * version with a path to the current version can be decoded.
+ */
+export class ProofSchemaRegistry {
+    private readonly currentVersion: string;
+    private readonly schemas: Map<string, ProofSchema> = new Map();
+    private readonly upgrades: Map<string, ProofUpgrade> = new Map(); // from -> upgrade
+
+    /**
+     * @param currentVersion - Version that decoded proofs are upgraded to
+     */
+    constructor(currentVersion: string) {
+        this.currentVersion = currentVersion;
+    }
+
+    /**
+     * Get the version decoded proofs are upgraded to
+     */
+    getCurrentVersion(): string {
+        return this.currentVersion;
+    }
+
+    /**
+     * Add a schema version
+     * @param schema - Version identifier and structure check
+     * @returns This registry
+     * @throws Error if the version is already registered
+     */
+    register(schema: ProofSchema): this {
+        if (this.schemas.has(schema.version)) {
+            throw new Error(`Proof schema ${schema.version} is already registered`);
+        }
+        this.schemas.set(schema.version, schema);
+        return this;
+    }
+
+    /**
+     * Add the upgrade from one registered version to another
+     * @param upgrade - Source and target versions and the conversion
+     * @returns This registry
+     * @throws Error if a version is unknown, the source already has an upgrade, or the upgrade would form a cycle
+     */
+    registerUpgrade(upgrade: ProofUpgrade): this {
+        for (const version of [upgrade.from, upgrade.to]) {
+            if (!this.schemas.has(version)) {
+                throw new Error(`Unknown proof schema: ${version}`);
+            }
+        }
+        if (this.upgrades.has(upgrade.from)) {
+            throw new Error(`Proof schema ${upgrade.from} already has an upgrade`);
+        }
+        if (upgrade.from === upgrade.to || this.upgradePath(upgrade.to).includes(upgrade.from)) {
+            throw new Error(`Upgrade from ${upgrade.from} to ${upgrade.to} would form a cycle`);
+        }
+        this.upgrades.set(upgrade.from, upgrade);
+        return this;
+    }
+
+    /**
+     * Check whether proofs of a version can be decoded (registered and upgradable to the current version)
+     * @param version - Version identifier
+     */
+    accepts(version: string): boolean {
+        return this.schemas.has(version) && this.upgradePath(version).at(-1) === this.currentVersion;
+    }
+
+    /**
+     * List the versions that can be decoded, fewest upgrades first
+     * @returns Version identifiers, starting with the current version
+     */
+    getVersions(): string[] {
+        return [...this.schemas.keys()]
+            .filter(version => this.accepts(version))
+            .sort((a, b) => this.upgradePath(a).length - this.upgradePath(b).length);
+    }
+
+    /**
+     * Validate a proof against its version and upgrade it to the current version
+     * @param value - Decoded proof data
+     * @param version - Version the sender declared
+     * @returns Proof in the current version
+     * @throws Error if the version is not accepted or the proof does not match its schema
+     */
+    decode(value: unknown, version: string): CausalProof {
+        const schema = this.schemas.get(version);
+        if (!schema || !this.accepts(version)) {
+            throw new Error(`Unsupported proof schema: ${version}`);
+        }
+        if (!schema.validate(value)) {
+            throw new Error('Invalid CausalProof structure');
+        }
+
+        const upgraded = this.convert(value as Record<string, unknown>, version, this.currentVersion);
+        if (!this.schemas.get(this.currentVersion)!.validate(upgraded)) {
+            throw new Error(`Upgraded proof does not match schema ${this.currentVersion}`);
+        }
+        return upgraded as unknown as CausalProof;
+    }
+
+    /**
+     * Convert a proof between two versions along the upgrade chain
+     * Converting to an older version requires every upgrade on the way to have a downgrade.
+     * @param proof - Proof in the `from` version (not validated here)
+     * @param from - Version of the proof
+     * @param to - Version to convert to
+     * @returns Converted proof (the input is not modified)
+     * @throws Error if there is no conversion between the versions
+     */
+    convert(proof: Record<string, unknown>, from: string, to: string): Record<string, unknown> {
+        const forward = this.upgradePath(from);
+        if (forward.includes(to)) {
+            let result = proof;
+            for (const version of forward.slice(0, forward.indexOf(to))) {
+                result = this.upgrades.get(version)!.upgrade(result);
+            }
+            return result;
+        }
+
+        const backward = this.upgradePath(to);
+        if (backward.includes(from)) {
+            let result = proof;
+            for (const version of backward.slice(0, backward.indexOf(from)).reverse()) {
+                const upgrade = this.upgrades.get(version)!;
+                if (!upgrade.downgrade) {
+                    throw new Error(`Cannot convert proof from ${upgrade.to} to ${upgrade.from}`);
+                }
+                result = upgrade.downgrade(result);
+            }
+            return result;
+        }
+
+        throw new Error(`Cannot convert proof from ${from} to ${to}`);
+    }
+
+    /**
+     * Versions visited when upgrading from a version, starting with the version itself
+     */
+    private upgradePath(version: string): string[] {
+        const path = [version];
+        let upgrade = this.upgrades.get(version);
+        while (upgrade) {
+            path.push(upgrade.to);
+            upgrade = this.upgrades.get(upgrade.to);
+        }
+        return path;
+    }
+}
+
+/**
+ * Create a registry with the built-in versions (causal-v1 upgraded to causal-v2)
+ * Register further versions on the returned registry to accept them.
+ * @returns New registry whose current version is CURRENT_CAUSAL_PROOF_VERSION
+ */
+export function createProofSchemaRegistry(): ProofSchemaRegistry {
+    return new ProofSchemaRegistry(CURRENT_CAUSAL_PROOF_VERSION)
+        .register({ version: CAUSAL_PROOF_V1, validate: isValidCausalProof })
+        .register({ version: CAUSAL_PROOF_V2, validate: isValidCausalProofV2 })
+        .registerUpgrade({
+            from: CAUSAL_PROOF_V1,
+            to: CAUSAL_PROOF_V2,
+            // Absent format fields had these defaults in causal-v1, so both conversions are lossless
+            upgrade: proof => ({
+                ...proof,
+                schemaVersion: CAUSAL_PROOF_V2,
+                treeVersion: proof.treeVersion ?? 1,
+                signatureScheme: proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME
+            }),
+            downgrade: proof => {
+                const { schemaVersion: _schemaVersion, ...rest } = proof;
+                return rest;
+            }
+        });
+}
+
+/**
+ * Registry used by the header codec, middleware and CLI unless another is given
+ */
+export const defaultProofSchemas: ProofSchemaRegistry = createProofSchemaRegistry();
+
+/**
+ * Read the version a proof declares about itself
+ * @param value - Decoded proof data
+ * @returns Its schemaVersion, or causal-v1 for proofs without one
+ */
+export function detectProofVersion(value: unknown): string {
+    const version = value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>).schemaVersion
+        : undefined;
+    return typeof version === 'string' ? version : CAUSAL_PROOF_V1;
+}
+
+/**
+ * Upgrade a stored or received proof to the current version, using the version it declares
+ * @param value - Decoded proof data
+ * @param registry - Accepted versions (default: defaultProofSchemas)
+ * @returns Proof in the registry's current version
+ * @throws Error if the version is not accepted or the proof does not match its schema
+ */
+export function upgradeProof(value: unknown, registry: ProofSchemaRegistry = defaultProofSchemas): CausalProof {
+    return registry.decode(value, detectProofVersion(value));
+}
+
+/**
+ * Validate that an object has the required CausalProof structure (causal-v1)
+ * @param obj - Object to validate
+ * @returns True if the object matches CausalProof schema
+ */
+export function isValidCausalProof(obj: unknown): obj is CausalProof {
+    if (obj === null || typeof obj !== 'object') return false;
+
+    const proof = obj as Record<string, unknown>;
+
+    // Required top-level fields
+    if (!proof.targetEvent || typeof proof.targetEvent !== 'object') return false;
+    if (!isValidProofPath(proof.proofPath)) return false;
+    if (!Array.isArray(proof.causalChain) || !proof.causalChain.every(isValidChainElement)) return false;
+    if (typeof proof.treeRootHash !== 'string') return false;
+    if (typeof proof.agentSignature !== 'string') return false;
+    if (proof.treeVersion !== undefined && proof.treeVersion !== 1 && proof.treeVersion !== 2) return false;
+    if (proof.treeSize !== undefined && typeof proof.treeSize !== 'number') return false;
+    if (proof.signedTreeHead !== undefined && !isValidTreeHead(proof.signedTreeHead)) return false;
+    if (proof.signatureScheme !== undefined && typeof proof.signatureScheme !== 'string') return false;
+    if (proof.disclosures !== undefined
+        && (!Array.isArray(proof.disclosures) || !proof.disclosures.every(isValidDisclosure))) return false;
+
+    // Validate targetEvent structure
+    const event = proof.targetEvent as Record<string, unknown>;
+    if (typeof event.causalEventId !== 'string') return false;
+    if (typeof event.agentId !== 'string') return false;
+    if (typeof event.eventHash !== 'string') return false;
+    if (typeof event.actionType !== 'string') return false;
+    if (typeof event.payloadHash !== 'string') return false;
+    if (typeof event.timestamp !== 'number') return false;
+    if (typeof event.positionInTree !== 'number') return false;
+    if (typeof event.treeRootHash !== 'string') return false;
+
+    return true;
+}
+
+/**
+ * Validate that an object has the causal-v2 structure
+ * @param obj - Object to validate
+ * @returns True if the object is a causal-v1 proof with the causal-v2 marker and explicit format fields
+ */
+export function isValidCausalProofV2(obj: unknown): obj is CausalProof {
+    if (!isValidCausalProof(obj)) return false;
+    return obj.schemaVersion === CAUSAL_PROOF_V2
+        && obj.treeVersion !== undefined
+        && typeof obj.signatureScheme === 'string';
+}
+
+/**
+ * Validate a Merkle inclusion path
+ */
+function isValidProofPath(obj: unknown): boolean {
+    return Array.isArray(obj) && obj.every(step => {
+        if (step === null || typeof step !== 'object') return false;
+        const element = step as Record<string, unknown>;
+        return typeof element.eventHash === 'string'
+            && typeof element.siblingHash === 'string'
+            && (element.position === 'left' || element.position === 'right');
+    });
+}
+
+/**
+ * Validate a causal chain element (full event data and inclusion proof optional)
+ */
+function isValidChainElement(obj: unknown): boolean {
+    if (obj === null || typeof obj !== 'object') return false;
+    const element = obj as Record<string, unknown>;
+    return typeof element.eventHash === 'string'
+        && typeof element.actionType === 'string'
+        && typeof element.timestamp === 'number'
+        && (element.predecessorHash === null || typeof element.predecessorHash === 'string')
+        && (element.agentId === undefined || typeof element.agentId === 'string')
+        && (element.payloadHash === undefined || typeof element.payloadHash === 'string')
+        && (element.positionInTree === undefined || typeof element.positionInTree === 'number')
+        && (element.proofPath === undefined || isValidProofPath(element.proofPath));
+}
+
+/**
+ * Validate a payload disclosure's envelope (its contents are checked by verifyPayloadDisclosure)
+ */
+function isValidDisclosure(obj: unknown): boolean {
+    if (obj === null || typeof obj !== 'object') return false;
+    const disclosure = obj as Record<string, unknown>;
+    if (typeof disclosure.eventHash !== 'string') return false;
+    if (disclosure.kind === 'full') {
+        return disclosure.payload !== null && typeof disclosure.payload === 'object';
+    }
+    if (disclosure.kind === 'fields') {
+        return Array.isArray(disclosure.commitments)
+            && disclosure.commitments.every(commitment => typeof commitment === 'string')
+            && Array.isArray(disclosure.fields)
+            && disclosure.fields.every(field => field !== null && typeof field === 'object'
+                && typeof (field as Record<string, unknown>).name === 'string'
+                && typeof (field as Record<string, unknown>).salt === 'string');
+    }
+    return false;
+}
+
+/**
+ * Validate the structure of a signed tree head
+ */
+function isValidTreeHead(obj: unknown): boolean {
+    if (obj === null || typeof obj !== 'object') return false;
+    const head = obj as Record<string, unknown>;
+    return typeof head.agentId === 'string'
+        && typeof head.treeSize === 'number'
+        && typeof head.rootHash === 'string'
+        && typeof head.issuedAt === 'number'
+        && (head.treeVersion === 1 || head.treeVersion === 2)
+        && (head.nonce === undefined || typeof head.nonce === 'string');
+}
@@ -0,0 +1,79 @@
+/**
+ * Signed Tree Heads
+ * Binds an agent signature to agent, tree size, root, time and format
+ * @module proof/tree-head
+ */
+
+import { SignedTreeHead, SignatureSchemeId } from '../types/index.js';
+import { sha3Concat } from '../crypto/sha3.js';
+import { signRecoverable } from '../crypto/ecdsa.js';
+import { getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+
+/**
+ * Domain separation tag for tree head hashes
+ */
+export const TREE_HEAD_DOMAIN = 'causal-tree-head-v1';
+
+/**
+ * Compute the message hash an agent signs for a tree head
+ * @param head - Tree head to hash
+ * @returns SHA3-256 hash of the domain tag and every tree head field
+ */
+export function hashTreeHead(head: SignedTreeHead): string {
+    const fields = [
+        TREE_HEAD_DOMAIN,
+        head.agentId,
+        String(head.treeSize),
+        head.rootHash,
+        String(head.issuedAt),
+        String(head.treeVersion)
+    ];
+    // The nonce is appended only when present so heads without one hash as before
+    if (head.nonce !== undefined) {
+        fields.push(head.nonce);
+    }
+    return sha3Concat(...fields);
+}
+
+/**
+ * Sign a tree head
+ * @param head - Tree head to sign
+ * @param privateKey - Agent's private key
+ * @param recoverable - Produce a 65-byte signature the signer can be recovered from
+ * @param scheme - Signature scheme of the private key (default: secp256k1)
+ * @returns Signature over the tree head hash
+ * @throws Error if the scheme is unsupported or cannot produce recoverable signatures
+ */
+export function signTreeHead(
+    head: SignedTreeHead,
+    privateKey: string,
+    recoverable = false,
+    scheme: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+): string {
+    const hash = hashTreeHead(head);
+    if (recoverable) {
+        if (scheme !== 'secp256k1') {
+            throw new Error(`Recoverable signatures are not supported by ${scheme}`);
+        }
+        return signRecoverable(hash, privateKey);
+    }
+    return getSignatureScheme(scheme).sign(hash, privateKey);
+}
+
+/**
+ * Verify an agent signature over a tree head
+ * @param head - Signed tree head
+ * @param signature - Agent signature
+ * @param publicKey - Agent's public key
+ * @param scheme - Signature scheme of the key (default: secp256k1)
+ * @returns True if the signature covers exactly this tree head
+ * @throws Error if the scheme is unsupported
+ */
+export function verifyTreeHeadSignature(
+    head: SignedTreeHead,
+    signature: string,
+    publicKey: string,
+    scheme: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+): boolean {
+    return getSignatureScheme(scheme).verify(hashTreeHead(head), signature, publicKey);
+}
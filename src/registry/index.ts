@@ -3,4 +3,5 @@
  * @module registry
  */
 
-export { CausalEventRegistry } from './registry.js';
+export { CausalEventRegistry, hashEventInput } from './registry.js';
+export type { RegistryOptions } from './registry.js';
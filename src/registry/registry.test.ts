@@ -5,6 +5,8 @@
 import { describe, it, expect } from 'vitest';
 import { CausalEventRegistry } from './registry.js';
 import { sha3 } from '../crypto/sha3.js';
+import { MemoryStorageAdapter } from '../storage/memory.js';
+import { verifyConsistencyProof } from '../verification/verifier.js';
 
 describe('CausalEventRegistry', () => {
     const agentId = '0xAgent';
@@ -178,4 +180,115 @@ describe('CausalEventRegistry', () => {
             expect(exported.tree).toBeDefined();
         });
     });
+
+    describe('fromExport', () => {
+        const buildRegistry = () => {
+            const registry = new CausalEventRegistry(agentId);
+            const e1 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+            const e2 = registry.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: e1.eventHash, timestamp: Date.now() });
+            registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('3'), predecessorHash: e2.eventHash, timestamp: Date.now() });
+            return registry;
+        };
+
+        it('should round-trip an export', () => {
+            const registry = buildRegistry();
+            const restored = CausalEventRegistry.fromExport(JSON.parse(JSON.stringify(registry.export())));
+            expect(restored.getRootHash()).toBe(registry.getRootHash());
+            expect(restored.getLastEventHash()).toBe(registry.getLastEventHash());
+            expect(restored.export()).toEqual(registry.export());
+
+            // Restored registry keeps accepting events
+            restored.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('4'), predecessorHash: restored.getLastEventHash(), timestamp: Date.now() });
+            expect(restored.getEventCount()).toBe(4);
+        });
+
+        it('should preserve the tree format version', () => {
+            const registry = new CausalEventRegistry(agentId, { treeVersion: 2 });
+            registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+            const exported = registry.export();
+            expect(exported.tree.version).toBe(2);
+
+            const restored = CausalEventRegistry.fromExport(exported);
+            expect(restored.getTreeVersion()).toBe(2);
+            expect(restored.getRootHash()).toBe(registry.getRootHash());
+            expect(() => CausalEventRegistry.fromExport(exported, { treeVersion: 1 })).toThrow('Tree format mismatch');
+        });
+
+        it('should import into an empty storage backend', () => {
+            const storage = new MemoryStorageAdapter();
+            const restored = CausalEventRegistry.fromExport(buildRegistry().export(), { storage });
+            expect(new CausalEventRegistry(agentId, { storage }).getRootHash()).toBe(restored.getRootHash());
+            expect(() => CausalEventRegistry.fromExport(restored.export(), { storage })).toThrow('already holds events');
+        });
+
+        it('should leave the storage backend empty when an import fails', () => {
+            const storage = new MemoryStorageAdapter();
+            const exported = buildRegistry().export();
+            exported.events[2]!.payloadHash = sha3('forged');
+
+            expect(() => CausalEventRegistry.fromExport(exported, { storage })).toThrow('Event hash mismatch');
+            expect(storage.load()).toEqual(new MemoryStorageAdapter().load());
+            expect(new CausalEventRegistry(agentId, { storage }).getEventCount()).toBe(0);
+        });
+
+        it('should reject a tampered event hash', () => {
+            const exported = buildRegistry().export();
+            exported.events[1]!.payloadHash = sha3('forged');
+            expect(() => CausalEventRegistry.fromExport(exported)).toThrow('Event hash mismatch');
+        });
+
+        it('should reject a broken predecessor link', () => {
+            const exported = buildRegistry().export();
+            const [first, second, third] = exported.events;
+            exported.events = [first!, third!, second!].map((e, i) => ({ ...e, positionInTree: i }));
+            expect(() => CausalEventRegistry.fromExport(exported)).toThrow('Invalid predecessor hash');
+        });
+
+        it('should reject wrong positions, agents and roots', () => {
+            const wrongPosition = buildRegistry().export();
+            wrongPosition.events[0]!.positionInTree = 7;
+            expect(() => CausalEventRegistry.fromExport(wrongPosition)).toThrow('Invalid position');
+
+            const wrongAgent = buildRegistry().export();
+            wrongAgent.events[0]!.agentId = '0xOther';
+            expect(() => CausalEventRegistry.fromExport(wrongAgent)).toThrow('Agent ID mismatch in export');
+
+            const wrongEventRoot = buildRegistry().export();
+            wrongEventRoot.events[2]!.treeRootHash = sha3('x');
+            expect(() => CausalEventRegistry.fromExport(wrongEventRoot)).toThrow('Tree root mismatch');
+
+            const wrongRoot = buildRegistry().export();
+            wrongRoot.tree.rootHash = sha3('x');
+            expect(() => CausalEventRegistry.fromExport(wrongRoot)).toThrow('root mismatch');
+
+            const missingEvent = buildRegistry().export();
+            missingEvent.events.pop();
+            expect(() => CausalEventRegistry.fromExport(missingEvent)).toThrow('3 tree leaves');
+        });
+    });
+
+    describe('consistency', () => {
+        it('should prove append-only growth to auditors', () => {
+            const registry = new CausalEventRegistry(agentId);
+            let predecessorHash: string | null = null;
+            for (let i = 0; i < 3; i++) {
+                predecessorHash = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3(String(i)), predecessorHash, timestamp: Date.now() }).eventHash;
+            }
+            const observedRoot = registry.getRootHash();
+
+            for (let i = 3; i < 7; i++) {
+                predecessorHash = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3(String(i)), predecessorHash, timestamp: Date.now() }).eventHash;
+            }
+
+            const proof = registry.getConsistencyProof(3);
+            expect(proof.firstRootHash).toBe(observedRoot);
+            expect(proof.secondRootHash).toBe(registry.getRootHash());
+            expect(proof.secondSize).toBe(7);
+            expect(registry.getRootHashAt(3)).toBe(observedRoot);
+            expect(verifyConsistencyProof(proof, observedRoot)).toBe(true);
+            expect(verifyConsistencyProof(proof, sha3('other'))).toBe(false);
+            expect(verifyConsistencyProof({ ...proof, firstRootHash: sha3('other') })).toBe(false);
+        });
+    });
 });
+
@@ -6,19 +6,63 @@
 
 import { sha3Concat } from '../crypto/sha3.js';
 import { generateUUIDv7, extractTimestamp } from '../crypto/uuid.js';
-import { MerkleTree } from '../merkle/tree.js';
+import { MerkleTree, DEFAULT_TREE_VERSION } from '../merkle/tree.js';
 import type {
     EventInput,
     CausalEvent,
     RegistryExport,
-    ProofPathElement
+    ProofPathElement,
+    ConsistencyProof,
+    StoredRegistryState,
+    TreeFormatVersion,
+    KeyAnnouncement,
+    KeyEventRecord,
+    KeyEventType,
+    SignatureSchemeId,
+    SignedTreeHead
 } from '../types/index.js';
+import type { StorageAdapter } from '../storage/adapter.js';
+import { getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import { signTreeHead } from '../proof/tree-head.js';
+import { KeyHistory, hashKeyAnnouncement, signKeyAnnouncement } from '../identity/rotation.js';
 
 /**
  * Maximum allowed difference between input timestamp and UUID timestamp (in ms)
  */
 const MAX_TIMESTAMP_SKEW_MS = 5000;
 
+/**
+ * Compute the SHA3-256 hash of an event's input fields
+ * @param input - Event fields covered by eventHash
+ * @returns Event hash
+ */
+export function hashEventInput(input: EventInput): string {
+    return sha3Concat(
+        input.agentId,
+        input.actionType,
+        input.payloadHash,
+        input.predecessorHash,
+        String(input.timestamp)
+    );
+}
+
+/**
+ * Check whether an action type is reserved for key events
+ */
+function isKeyEventType(actionType: string): actionType is KeyEventType {
+    return actionType === 'key_rotation' || actionType === 'key_revocation';
+}
+
+/**
+ * Options for constructing a registry
+ */
+export interface RegistryOptions {
+    /** Persistence backend; existing state is loaded from it on construction */
+    storage?: StorageAdapter;
+    /** Merkle tree hashing format for a new registry (default: 1) */
+    treeVersion?: TreeFormatVersion;
+}
+
 /**
  * Registry for causally-ordered events with Merkle tree backing
  */
@@ -27,18 +71,216 @@ export class CausalEventRegistry {
     private readonly events: Map<string, CausalEvent> = new Map();
     private readonly eventsByHash: Map<string, CausalEvent> = new Map();
     private readonly tree: MerkleTree;
+    private readonly storage: StorageAdapter | null;
     private lastEventHash: string | null = null;
+    private keyEvents: KeyEventRecord[] = [];
 
     /**
      * Create a new registry for an agent
      * @param agentId - ERC-8004 compliant agent identifier
+     * @param options - Optional storage backend to load from and write through to, and tree format
+     * @throws Error if persisted state is inconsistent, belongs to another agent
+     *   or uses a different tree format than requested
      */
-    constructor(agentId: string) {
+    constructor(agentId: string, options: RegistryOptions = {}) {
         if (!agentId || agentId.trim() === '') {
             throw new Error('agentId is required and cannot be empty');
         }
         this.agentId = agentId;
-        this.tree = new MerkleTree();
+        this.storage = options.storage ?? null;
+
+        const state = this.storage?.load();
+        if (state && state.events.length > 0) {
+            const storedVersion = state.treeVersion ?? 1;
+            if (options.treeVersion !== undefined && options.treeVersion !== storedVersion) {
+                throw new Error(
+                    `Tree format mismatch: storage uses version ${storedVersion}, requested ${options.treeVersion}`
+                );
+            }
+            this.tree = this.restoreState(state, storedVersion);
+        } else {
+            this.tree = new MerkleTree(undefined, {
+                store: this.storage ?? undefined,
+                version: options.treeVersion ?? DEFAULT_TREE_VERSION
+            });
+        }
+    }
+
+    /**
+     * Rebuild a registry from a RegistryExport
+     *
+     * Every event hash is recomputed, predecessor links and tree positions are
+     * checked, and the Merkle tree is rebuilt leaf by leaf so that each event's
+     * recorded root and the exported tree root can be confirmed.
+     *
+     * @param data - Previously exported registry
+     * @param options - Optional (empty) storage backend to write the import to, once it has been validated
+     * @returns Registry with the same events and root hash
+     * @throws Error if any part of the export fails validation
+     */
+    static fromExport(data: RegistryExport, options: RegistryOptions = {}): CausalEventRegistry {
+        const treeVersion = data.tree.version ?? 1;
+        if (options.treeVersion !== undefined && options.treeVersion !== treeVersion) {
+            throw new Error(
+                `Tree format mismatch: export uses version ${treeVersion}, requested ${options.treeVersion}`
+            );
+        }
+
+        const registry = new CausalEventRegistry(data.agentId, { ...options, treeVersion });
+        if (registry.getEventCount() > 0) {
+            throw new Error('Cannot import into a storage backend that already holds events');
+        }
+
+        if (registry.storage) {
+            // Validate the whole export in memory first, so a failed import leaves the storage untouched
+            const validated = CausalEventRegistry.fromExport(data, { treeVersion });
+            for (const event of validated.events.values()) {
+                registry.tree.append(event.eventHash);
+                registry.storeEvent({ ...event });
+            }
+            registry.keyEvents = validated.getKeyEvents();
+            for (const record of registry.keyEvents) {
+                registry.storage.putKeyEvent(record);
+            }
+            return registry;
+        }
+
+        const exportedTree = MerkleTree.fromExport(data.tree);
+        if (exportedTree.getLeafCount() !== data.events.length) {
+            throw new Error(
+                `Registry export mismatch: ${data.events.length} events but ${exportedTree.getLeafCount()} tree leaves`
+            );
+        }
+
+        data.events.forEach((event, index) => {
+            if (event.agentId !== data.agentId) {
+                throw new Error(
+                    `Agent ID mismatch in export: expected ${data.agentId}, got ${event.agentId}`
+                );
+            }
+            if (event.positionInTree !== index) {
+                throw new Error(
+                    `Invalid position for event ${event.causalEventId}: expected ${index}, got ${event.positionInTree}`
+                );
+            }
+            if (registry.events.has(event.causalEventId)) {
+                throw new Error(`Duplicate event ID in export: ${event.causalEventId}`);
+            }
+
+            const eventHash = hashEventInput(event);
+            if (eventHash !== event.eventHash) {
+                throw new Error(`Event hash mismatch for event ${event.causalEventId}`);
+            }
+            if (event.predecessorHash !== null && !registry.eventsByHash.has(event.predecessorHash)) {
+                throw new Error(
+                    `Invalid predecessor hash for event ${event.causalEventId}: ${event.predecessorHash} not found before it`
+                );
+            }
+
+            const treeRootHash = registry.tree.append(eventHash);
+            if (treeRootHash !== event.treeRootHash) {
+                throw new Error(`Tree root mismatch for event ${event.causalEventId}`);
+            }
+
+            registry.storeEvent({ ...event });
+        });
+
+        if (registry.getRootHash() !== data.tree.rootHash) {
+            throw new Error(
+                `Registry export root mismatch: expected ${data.tree.rootHash}, got ${registry.getRootHash()}`
+            );
+        }
+
+        registry.loadKeyEvents(data.keyEvents ?? []);
+        return registry;
+    }
+
+    /**
+     * Rebuild in-memory indexes and the Merkle tree from persisted state
+     * @param state - State loaded from the storage adapter
+     * @param version - Tree format the state was written with
+     * @returns Restored Merkle tree
+     * @throws Error if the state does not describe a consistent registry
+     */
+    private restoreState(state: StoredRegistryState, version: TreeFormatVersion): MerkleTree {
+        if (state.leaves.length < state.events.length) {
+            throw new Error(
+                `Corrupt registry storage: ${state.events.length} events but ${state.leaves.length} leaves`
+            );
+        }
+        // Leaves and nodes are written before their event, so a crash in between
+        // leaves tree records for an event that was never stored
+        const interrupted = state.leaves.length > state.events.length;
+        const leaves = state.leaves.slice(0, state.events.length);
+
+        for (const event of state.events) {
+            if (event.agentId !== this.agentId) {
+                throw new Error(
+                    `Agent ID mismatch in storage: expected ${this.agentId}, got ${event.agentId}`
+                );
+            }
+            if (leaves[event.positionInTree] !== event.eventHash) {
+                throw new Error(
+                    `Corrupt registry storage: event ${event.causalEventId} does not match leaf ${event.positionInTree}`
+                );
+            }
+            this.events.set(event.causalEventId, event);
+            this.eventsByHash.set(event.eventHash, event);
+        }
+
+        // After an interrupted append, the stored nodes on that leaf's path are stale:
+        // rebuild them from the stored leaves (rewriting them to storage)
+        const options = { store: this.storage ?? undefined, version };
+        const tree = interrupted
+            ? new MerkleTree(leaves, options)
+            : MerkleTree.restore(leaves, state.nodes, options);
+
+        // The most recent event recorded the root at its registration time
+        const latest = state.events.reduce((a, b) => (b.positionInTree > a.positionInTree ? b : a));
+        if (tree.getRootHash() !== latest.treeRootHash) {
+            throw new Error(
+                `Corrupt registry storage: restored root ${tree.getRootHash()} does not match ${latest.treeRootHash}`
+            );
+        }
+
+        this.lastEventHash = state.lastEventHash ?? latest.eventHash;
+        // Key records are written before their event, so a crash in between
+        // leaves a record for an event that was never stored
+        const keyEvents = (state.keyEvents ?? []).filter(record => this.eventsByHash.has(record.event.eventHash));
+        this.loadKeyEvents(keyEvents);
+        return tree;
+    }
+
+    /**
+     * Validate persisted or imported key records against the loaded events
+     * @param records - Key records in registration order
+     * @throws Error if a record is invalid, missing, or breaks the key chain
+     */
+    private loadKeyEvents(records: KeyEventRecord[]): void {
+        for (const record of records) {
+            const event = this.eventsByHash.get(record.event.eventHash);
+            if (
+                !event ||
+                event.causalEventId !== record.event.causalEventId ||
+                event.positionInTree !== record.event.positionInTree
+            ) {
+                throw new Error(`Key record refers to unknown event ${record.event.causalEventId}`);
+            }
+        }
+
+        const recorded = new Set(records.map(record => record.event.eventHash));
+        for (const event of this.events.values()) {
+            if (isKeyEventType(event.actionType) && !recorded.has(event.eventHash)) {
+                throw new Error(`Key event ${event.causalEventId} has no key record`);
+            }
+        }
+
+        const first = records[0];
+        if (first) {
+            // Replaying the history checks signatures, ordering and key continuity
+            new KeyHistory(this.agentId, first.previousPublicKey, records, first.scheme);
+        }
+        this.keyEvents = records.map(record => ({ ...record }));
     }
 
     /**
@@ -70,9 +312,154 @@ export class CausalEventRegistry {
         // Validate action type
         const validActionTypes = ['request', 'response', 'error', 'state_transition'];
         if (!validActionTypes.includes(input.actionType)) {
+            if (isKeyEventType(input.actionType)) {
+                throw new Error('Key events must be registered with rotateKey or revokeKey');
+            }
             throw new Error(`Invalid action type: ${input.actionType}`);
         }
 
+        return this.appendEvent(input);
+    }
+
+    /**
+     * Rotate the agent key
+     *
+     * Records a key_rotation event signed by the current key. Tree heads up to
+     * the size before this event remain verifiable with the current key; later
+     * tree heads must be signed with the new key.
+     *
+     * @param currentPrivateKey - Private key of the agent's current key
+     * @param newPublicKey - Public key taking over
+     * @param options - Signature scheme of both keys (default: secp256k1)
+     * @returns Recorded key event
+     * @throws Error if the current key is not the agent's active key or the new key is invalid
+     */
+    rotateKey(
+        currentPrivateKey: string,
+        newPublicKey: string,
+        options: { scheme?: SignatureSchemeId } = {}
+    ): KeyEventRecord {
+        return this.recordKeyEvent('key_rotation', currentPrivateKey, newPublicKey, options.scheme);
+    }
+
+    /**
+     * Revoke the agent key
+     *
+     * Records a key_revocation event signed by the revoked key. Verifiers
+     * reject the revoked key at every tree size, so use this for compromised keys.
+     *
+     * @param privateKey - Private key of the agent's current key
+     * @param replacementPublicKey - Key taking over (optional; without it the agent has no active key)
+     * @param options - Signature scheme of both keys (default: secp256k1)
+     * @returns Recorded key event
+     * @throws Error if the key is not the agent's active key or the replacement is invalid
+     */
+    revokeKey(
+        privateKey: string,
+        replacementPublicKey: string | null = null,
+        options: { scheme?: SignatureSchemeId } = {}
+    ): KeyEventRecord {
+        return this.recordKeyEvent('key_revocation', privateKey, replacementPublicKey, options.scheme);
+    }
+
+    /**
+     * Get all key rotation/revocation records in registration order
+     */
+    getKeyEvents(): KeyEventRecord[] {
+        return this.keyEvents.map(record => ({ ...record }));
+    }
+
+    /**
+     * Sign, register and persist a key announcement, together with a tree head
+     * that proves the position of its event
+     */
+    private recordKeyEvent(
+        type: KeyEventType,
+        privateKey: string,
+        newPublicKey: string | null,
+        schemeId: SignatureSchemeId = DEFAULT_SIGNATURE_SCHEME
+    ): KeyEventRecord {
+        const scheme = getSignatureScheme(schemeId);
+        const previousPublicKey = scheme.getPublicKey(privateKey);
+        const last = this.keyEvents[this.keyEvents.length - 1];
+
+        if (last) {
+            if ((last.scheme ?? DEFAULT_SIGNATURE_SCHEME) !== schemeId) {
+                throw new Error(
+                    `Key events must use the agent key scheme ${last.scheme ?? DEFAULT_SIGNATURE_SCHEME}`
+                );
+            }
+            if (last.newPublicKey === null) {
+                throw new Error('Agent key was revoked without replacement');
+            }
+            if (last.newPublicKey !== previousPublicKey) {
+                throw new Error('Key events must be signed with the current agent key');
+            }
+        }
+        if (type === 'key_rotation' && newPublicKey === null) {
+            throw new Error('Key rotation requires a new public key');
+        }
+        if (newPublicKey !== null) {
+            if (!scheme.isValidPublicKey(newPublicKey)) {
+                throw new Error('Invalid new public key');
+            }
+            if (newPublicKey === previousPublicKey) {
+                throw new Error('New public key must differ from the current key');
+            }
+            const revoked = this.keyEvents.some(
+                record => record.type === 'key_revocation' && record.previousPublicKey === newPublicKey
+            );
+            if (revoked) {
+                throw new Error('Cannot reinstate a revoked key');
+            }
+        }
+
+        const announcement: KeyAnnouncement = { agentId: this.agentId, type, previousPublicKey, newPublicKey };
+        if (schemeId !== DEFAULT_SIGNATURE_SCHEME) {
+            announcement.scheme = schemeId;
+        }
+        const signature = signKeyAnnouncement(announcement, privateKey);
+
+        // The record is persisted before its event: a crash in between leaves a
+        // record without an event, which restoreState drops, rather than a key
+        // event without a record, which could never be loaded
+        let record: KeyEventRecord | undefined;
+        const input: EventInput = {
+            agentId: this.agentId,
+            actionType: type,
+            payloadHash: hashKeyAnnouncement(announcement),
+            predecessorHash: this.lastEventHash,
+            timestamp: Date.now()
+        };
+        this.appendEvent(input, event => {
+            const treeHead: SignedTreeHead = {
+                agentId: this.agentId,
+                treeSize: event.positionInTree + 1,
+                rootHash: event.treeRootHash,
+                issuedAt: Date.now(),
+                treeVersion: this.tree.getVersion()
+            };
+            record = {
+                ...announcement,
+                event,
+                signature,
+                treeHead,
+                treeHeadSignature: signTreeHead(treeHead, privateKey, false, schemeId),
+                proofPath: this.tree.getProofPath(event.positionInTree)
+            };
+            this.storage?.putKeyEvent(record);
+        });
+
+        this.keyEvents.push(record!);
+        return { ...record! };
+    }
+
+    /**
+     * Append a validated event input to the tree and index it
+     * @param input - Validated event input
+     * @param beforeStore - Called once the event is in the tree, before it is stored
+     */
+    private appendEvent(input: EventInput, beforeStore?: (event: CausalEvent) => void): CausalEvent {
         // Generate event ID
         const causalEventId = generateUUIDv7();
 
@@ -87,13 +474,7 @@ export class CausalEventRegistry {
         }
 
         // Compute event hash
-        const eventHash = sha3Concat(
-            input.agentId,
-            input.actionType,
-            input.payloadHash,
-            input.predecessorHash,
-            String(input.timestamp)
-        );
+        const eventHash = hashEventInput(input);
 
         // Get position in tree
         const positionInTree = this.tree.getLeafCount();
@@ -110,14 +491,27 @@ export class CausalEventRegistry {
             treeRootHash
         };
 
-        // Store event
-        this.events.set(causalEventId, event);
-        this.eventsByHash.set(eventHash, event);
-        this.lastEventHash = eventHash;
+        beforeStore?.(event);
+        this.storeEvent(event);
 
         return event;
     }
 
+    /**
+     * Index an event whose hash has already been appended to the tree
+     */
+    private storeEvent(event: CausalEvent): void {
+        this.events.set(event.causalEventId, event);
+        this.eventsByHash.set(event.eventHash, event);
+        this.lastEventHash = event.eventHash;
+
+        if (this.events.size === 1) {
+            this.storage?.setTreeVersion(this.tree.getVersion());
+        }
+        this.storage?.putEvent(event);
+        this.storage?.setLastEventHash(event.eventHash);
+    }
+
     /**
      * Get an event by its causal event ID
      * @param causalEventId - UUIDv7 event identifier
@@ -181,6 +575,27 @@ export class CausalEventRegistry {
         }
     }
 
+    /**
+     * Get one Merkle multiproof covering several events
+     * @param eventIds - Event IDs to prove
+     * @returns Deduplicated sibling hashes (see MerkleTree.getMultiProof) or null if an event is not found
+     */
+    getMultiProof(eventIds: string[]): string[] | null {
+        const positions: number[] = [];
+        for (const eventId of eventIds) {
+            const event = this.events.get(eventId);
+            if (!event) {
+                return null;
+            }
+            positions.push(event.positionInTree);
+        }
+        try {
+            return this.tree.getMultiProof(positions);
+        } catch {
+            return null;
+        }
+    }
+
     /**
      * Get the current Merkle tree root hash
      * @returns Current root hash or empty string if no events
@@ -189,6 +604,42 @@ export class CausalEventRegistry {
         return this.tree.getRootHash();
     }
 
+    /**
+     * Get the root hash the registry had after its first `size` events
+     * @param size - Historical event count
+     * @returns Root hash at that size
+     * @throws Error if size is out of bounds
+     */
+    getRootHashAt(size: number): string {
+        return this.tree.getRootHashAt(size);
+    }
+
+    /**
+     * Prove that the current history extends an earlier one without rewriting it
+     * @param firstSize - Event count the auditor previously observed
+     * @param secondSize - Later event count (default: current count)
+     * @returns Consistency proof between the two tree sizes
+     * @throws Error if sizes are out of bounds
+     */
+    getConsistencyProof(firstSize: number, secondSize: number = this.tree.getLeafCount()): ConsistencyProof {
+        const proofHashes = this.tree.getConsistencyProof(firstSize, secondSize);
+        return {
+            firstSize,
+            secondSize,
+            firstRootHash: this.tree.getRootHashAt(firstSize),
+            secondRootHash: this.tree.getRootHashAt(secondSize),
+            proofHashes,
+            treeVersion: this.tree.getVersion()
+        };
+    }
+
+    /**
+     * Get the Merkle tree hashing format of this registry
+     */
+    getTreeVersion(): TreeFormatVersion {
+        return this.tree.getVersion();
+    }
+
     /**
      * Get the last registered event hash
      * @returns Hash of most recent event or null if empty
@@ -220,11 +671,15 @@ export class CausalEventRegistry {
         const sortedEvents = Array.from(this.events.values())
             .sort((a, b) => a.positionInTree - b.positionInTree);
 
-        return {
+        const data: RegistryExport = {
             events: sortedEvents,
             tree: this.tree.export(),
             agentId: this.agentId
         };
+        if (this.keyEvents.length > 0) {
+            data.keyEvents = this.getKeyEvents();
+        }
+        return data;
     }
 
     /**
@@ -242,7 +697,12 @@ export class CausalEventRegistry {
         return MerkleTree.verifyProof(
             eventHash,
             proofPath,
-            this.tree.getRootHash()
+            this.tree.getRootHash(),
+            {
+                version: this.tree.getVersion(),
+                leafIndex: event.positionInTree,
+                treeSize: this.tree.getLeafCount()
+            }
         );
     }
 }
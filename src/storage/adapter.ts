@@ -0,0 +1,47 @@
+/**
+ * Storage Adapter Interface
+ * Contract for persisting registry events and Merkle tree state
+ * @module storage/adapter
+ */
+
+import type { CausalEvent, KeyEventRecord, StoredRegistryState, TreeFormatVersion } from '../types/index.js';
+import type { MerkleTreeStore } from '../merkle/tree.js';
+
+/**
+ * Persistence backend for a CausalEventRegistry
+ *
+ * Adapters are append-oriented and synchronous so that registration stays
+ * a synchronous operation. The registry writes through to the adapter on
+ * every registration and reads the full state back once, when opened.
+ */
+export interface StorageAdapter extends MerkleTreeStore {
+    /**
+     * Load all previously persisted state
+     * @returns Stored state (empty collections if nothing was persisted)
+     */
+    load(): StoredRegistryState;
+
+    /**
+     * Persist a newly registered event
+     * @param event - Complete causal event record
+     */
+    putEvent(event: CausalEvent): void;
+
+    /**
+     * Persist the pointer to the most recently registered event
+     * @param eventHash - Hash of the latest event
+     */
+    setLastEventHash(eventHash: string | null): void;
+
+    /**
+     * Persist the Merkle tree hashing format (written once, with the first event)
+     * @param version - Tree format version
+     */
+    setTreeVersion(version: TreeFormatVersion): void;
+
+    /**
+     * Persist a key rotation/revocation record (written after its event)
+     * @param record - Signed key record
+     */
+    putKeyEvent(record: KeyEventRecord): void;
+}
@@ -0,0 +1,102 @@
+/**
+ * File Storage Adapter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileStorageAdapter, openFileRegistry } from './file.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { verifyProof } from '../verification/verifier.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+
+describe('FileStorageAdapter', () => {
+    const agentId = '0xAgent';
+    let dir: string;
+    let path: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'causal-verify-'));
+        path = join(dir, 'nested', 'registry.jsonl');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should require a path', () => {
+        expect(() => new FileStorageAdapter('')).toThrow('path is required');
+    });
+
+    it('should load empty state when the file does not exist', () => {
+        const storage = new FileStorageAdapter(path);
+        expect(storage.getPath()).toBe(path);
+        expect(storage.load().events).toEqual([]);
+    });
+
+    it('should append JSON lines and reopen with the same root', () => {
+        const registry = openFileRegistry(agentId, path);
+        let predecessorHash: string | null = null;
+        for (let i = 0; i < 5; i++) {
+            const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3(String(i)), predecessorHash, timestamp: Date.now() });
+            predecessorHash = event.eventHash;
+        }
+
+        const lines = readFileSync(path, 'utf8').trim().split('\n');
+        expect(lines.every(line => JSON.parse(line).kind !== undefined)).toBe(true);
+
+        const reopened = openFileRegistry(agentId, path);
+        expect(reopened).toBeInstanceOf(CausalEventRegistry);
+        expect(reopened.getRootHash()).toBe(registry.getRootHash());
+        expect(reopened.getLastEventHash()).toBe(predecessorHash);
+        expect(reopened.export()).toEqual(registry.export());
+    });
+
+    it('should keep previously issued proofs verifiable after restart', () => {
+        const { privateKey, publicKey } = generateKeyPair();
+        const registry = openFileRegistry(agentId, path);
+        const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p'), predecessorHash: null, timestamp: Date.now() });
+        const proof = new ProofGenerator(registry).generateProof(event.causalEventId, privateKey);
+
+        const reopened = openFileRegistry(agentId, path);
+        expect(reopened.getRootHash()).toBe(proof.treeRootHash);
+        expect(verifyProof(proof, agentId, publicKey).isValid).toBe(true);
+    });
+
+    it('should cut off a truncated final record and keep appending after it', () => {
+        const registry = openFileRegistry(agentId, path);
+        const first = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        appendFileSync(path, '{"kind":"ev');
+
+        const reopened = openFileRegistry(agentId, path);
+        expect(reopened.getEventCount()).toBe(1);
+        expect(readFileSync(path, 'utf8').endsWith('\n')).toBe(true);
+        const second = reopened.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: first.eventHash, timestamp: Date.now() });
+
+        const again = openFileRegistry(agentId, path);
+        expect(again.getEventCount()).toBe(2);
+        expect(again.getRootHash()).toBe(second.treeRootHash);
+    });
+
+    it('should keep a complete final record whose newline was not written', () => {
+        const registry = openFileRegistry(agentId, path);
+        const first = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        writeFileSync(path, readFileSync(path, 'utf8').replace(/\n$/, ''));
+
+        const reopened = openFileRegistry(agentId, path);
+        expect(reopened.getLastEventHash()).toBe(first.eventHash);
+        reopened.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: first.eventHash, timestamp: Date.now() });
+        expect(openFileRegistry(agentId, path).getEventCount()).toBe(2);
+    });
+
+    it('should reject corrupt or unknown records', () => {
+        const file = join(dir, 'corrupt.jsonl');
+        writeFileSync(file, 'garbage\n{"kind":"leaf","index":0,"hash":"0x"}\n');
+        expect(() => new FileStorageAdapter(file).load()).toThrow('Corrupt storage log');
+
+        writeFileSync(file, '{"kind":"other"}\n');
+        expect(() => new FileStorageAdapter(file).load()).toThrow('Unknown storage record');
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Append-Only File Storage Adapter
+ * Persists registry state as a JSON Lines log (Node.js only)
+ * @module storage/file
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, truncateSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { CausalEvent, KeyEventRecord, StoredRegistryState, TreeFormatVersion } from '../types/index.js';
+import type { StorageAdapter } from './adapter.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import type { RegistryOptions } from '../registry/registry.js';
+
+/**
+ * A single line of the append-only log
+ */
+type LogRecord =
+    | { kind: 'event'; event: CausalEvent }
+    | { kind: 'leaf'; index: number; hash: string }
+    | { kind: 'node'; level: number; index: number; hash: string }
+    | { kind: 'last'; hash: string | null }
+    | { kind: 'version'; version: TreeFormatVersion }
+    | { kind: 'key'; record: KeyEventRecord };
+
+/**
+ * Storage adapter writing one JSON record per line to an append-only file
+ *
+ * Records are never rewritten: node updates are appended and the latest
+ * record for a given position wins when the log is replayed. A truncated
+ * trailing line (e.g. from a crash mid-write) is cut off on load, so the
+ * next record starts on a fresh line.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+    private readonly path: string;
+
+    /**
+     * @param path - Path of the JSONL log file (created on first write)
+     */
+    constructor(path: string) {
+        if (!path) {
+            throw new Error('Storage file path is required');
+        }
+        this.path = path;
+    }
+
+    /**
+     * Get the path of the underlying log file
+     */
+    getPath(): string {
+        return this.path;
+    }
+
+    load(): StoredRegistryState {
+        const state: StoredRegistryState = { events: [], leaves: [], nodes: [], lastEventHash: null };
+        if (!existsSync(this.path)) {
+            return state;
+        }
+
+        const nodes = new Map<string, { level: number; index: number; hash: string }>();
+        const keyEvents: KeyEventRecord[] = [];
+        const lines = this.readLines();
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i]!.trim();
+            if (line === '') continue;
+
+            let record: LogRecord;
+            try {
+                record = JSON.parse(line) as LogRecord;
+            } catch {
+                throw new Error(`Corrupt storage log ${this.path} at line ${i + 1}`);
+            }
+
+            switch (record.kind) {
+                case 'event':
+                    state.events.push(record.event);
+                    break;
+                case 'leaf':
+                    state.leaves[record.index] = record.hash;
+                    break;
+                case 'node':
+                    nodes.set(`${record.level}:${record.index}`, {
+                        level: record.level,
+                        index: record.index,
+                        hash: record.hash
+                    });
+                    break;
+                case 'last':
+                    state.lastEventHash = record.hash;
+                    break;
+                case 'version':
+                    state.treeVersion = record.version;
+                    break;
+                case 'key':
+                    keyEvents.push(record.record);
+                    break;
+                default:
+                    throw new Error(`Unknown storage record at line ${i + 1} of ${this.path}`);
+            }
+        }
+
+        state.nodes = Array.from(nodes.values());
+        state.keyEvents = keyEvents;
+        return state;
+    }
+
+    putEvent(event: CausalEvent): void {
+        this.append({ kind: 'event', event });
+    }
+
+    putLeaf(index: number, hash: string): void {
+        this.append({ kind: 'leaf', index, hash });
+    }
+
+    putNode(level: number, index: number, hash: string): void {
+        this.append({ kind: 'node', level, index, hash });
+    }
+
+    setLastEventHash(eventHash: string | null): void {
+        this.append({ kind: 'last', hash: eventHash });
+    }
+
+    setTreeVersion(version: TreeFormatVersion): void {
+        this.append({ kind: 'version', version });
+    }
+
+    putKeyEvent(record: KeyEventRecord): void {
+        this.append({ kind: 'key', record });
+    }
+
+    /**
+     * Read the log's lines, first removing a partially written final record
+     * Without this, the next append would extend the partial line and corrupt
+     * the log in the middle.
+     */
+    private readLines(): string[] {
+        const data = readFileSync(this.path);
+        if (data.length > 0 && data[data.length - 1] !== 0x0a) {
+            const end = data.lastIndexOf(0x0a) + 1;
+            const tail = data.subarray(end).toString('utf8');
+            let complete = true;
+            try {
+                JSON.parse(tail);
+            } catch {
+                complete = false;
+            }
+            if (complete) {
+                // The record made it to disk but its newline did not
+                appendFileSync(this.path, '\n', 'utf8');
+            } else {
+                truncateSync(this.path, end);
+                return data.subarray(0, end).toString('utf8').split('\n');
+            }
+        }
+        return data.toString('utf8').split('\n');
+    }
+
+    private append(record: LogRecord): void {
+        const dir = dirname(this.path);
+        if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true });
+        }
+        appendFileSync(this.path, JSON.stringify(record) + '\n', 'utf8');
+    }
+}
+
+/**
+ * Open (or create) a registry persisted to an append-only file
+ * @param agentId - ERC-8004 compliant agent identifier
+ * @param path - Path of the JSONL log file
+ * @param options - Tree format for a newly created registry
+ * @returns Registry restored from the file, writing through to it
+ */
+export function openFileRegistry(
+    agentId: string,
+    path: string,
+    options: Omit<RegistryOptions, 'storage'> = {}
+): CausalEventRegistry {
+    return new CausalEventRegistry(agentId, { ...options, storage: new FileStorageAdapter(path) });
+}
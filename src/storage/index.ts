@@ -0,0 +1,7 @@
+/**
+ * Storage module exports
+ * @module storage
+ */
+
+export type { StorageAdapter } from './adapter.js';
+export { MemoryStorageAdapter } from './memory.js';
@@ -0,0 +1,112 @@
+/**
+ * In-Memory Storage Adapter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MemoryStorageAdapter } from './memory.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { sha3 } from '../crypto/sha3.js';
+
+describe('MemoryStorageAdapter', () => {
+    const agentId = '0xAgent';
+
+    it('should start empty', () => {
+        const storage = new MemoryStorageAdapter();
+        expect(storage.load()).toEqual({ events: [], leaves: [], nodes: [], lastEventHash: null, keyEvents: [] });
+    });
+
+    it('should reopen a registry with the same state', () => {
+        const storage = new MemoryStorageAdapter();
+        const registry = new CausalEventRegistry(agentId, { storage });
+        const e1 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        const e2 = registry.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: e1.eventHash, timestamp: Date.now() });
+        registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('3'), predecessorHash: e2.eventHash, timestamp: Date.now() });
+
+        const reopened = new CausalEventRegistry(agentId, { storage });
+        expect(reopened.getRootHash()).toBe(registry.getRootHash());
+        expect(reopened.getEventCount()).toBe(3);
+        expect(reopened.getLastEventHash()).toBe(registry.getLastEventHash());
+        expect(reopened.getEvent(e2.causalEventId)).toEqual(e2);
+        expect(reopened.getProofPath(e1.causalEventId)).toEqual(registry.getProofPath(e1.causalEventId));
+        expect(reopened.export().tree).toEqual(registry.export().tree);
+    });
+
+    it('should keep writing through after reopening', () => {
+        const storage = new MemoryStorageAdapter();
+        const registry = new CausalEventRegistry(agentId, { storage });
+        const e1 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+
+        const reopened = new CausalEventRegistry(agentId, { storage });
+        const e2 = reopened.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: e1.eventHash, timestamp: Date.now() });
+
+        const again = new CausalEventRegistry(agentId, { storage });
+        expect(again.getEventCount()).toBe(2);
+        expect(again.getRootHash()).toBe(e2.treeRootHash);
+        expect(again.verifyEventInclusion(e1.eventHash)).toBe(true);
+    });
+
+    it('should reject storage belonging to another agent', () => {
+        const storage = new MemoryStorageAdapter();
+        const registry = new CausalEventRegistry(agentId, { storage });
+        registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+
+        expect(() => new CausalEventRegistry('0xOther', { storage })).toThrow('Agent ID mismatch in storage');
+    });
+
+    it('should reject inconsistent storage', () => {
+        const storage = new MemoryStorageAdapter();
+        const registry = new CausalEventRegistry(agentId, { storage });
+        registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        const second = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('2'), predecessorHash: null, timestamp: Date.now() });
+
+        storage.putNode(1, 0, sha3('tampered'));
+        expect(() => new CausalEventRegistry(agentId, { storage })).toThrow('restored root');
+
+        storage.putEvent({ ...second, positionInTree: 2 });
+        expect(() => new CausalEventRegistry(agentId, { storage })).toThrow('3 events but 2 leaves');
+    });
+
+    it('should recover from a crash between writing tree records and the event', () => {
+        class CrashingStorage extends MemoryStorageAdapter {
+            crash = false;
+            putEvent(event: Parameters<MemoryStorageAdapter['putEvent']>[0]): void {
+                if (this.crash) throw new Error('crash');
+                super.putEvent(event);
+            }
+        }
+        const storage = new CrashingStorage();
+        const registry = new CausalEventRegistry(agentId, { storage });
+        let last = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        last = registry.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('2'), predecessorHash: last.eventHash, timestamp: Date.now() });
+
+        storage.crash = true;
+        expect(() => registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('3'), predecessorHash: last.eventHash, timestamp: Date.now() }))
+            .toThrow('crash');
+        storage.crash = false;
+        expect(storage.load().leaves).toHaveLength(3);
+
+        const reopened = new CausalEventRegistry(agentId, { storage });
+        expect(reopened.getEventCount()).toBe(2);
+        expect(reopened.getRootHash()).toBe(last.treeRootHash);
+        const next = reopened.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('4'), predecessorHash: last.eventHash, timestamp: Date.now() });
+
+        const again = new CausalEventRegistry(agentId, { storage });
+        expect(again.getEventCount()).toBe(3);
+        expect(again.getRootHash()).toBe(next.treeRootHash);
+        expect(again.verifyEventInclusion(next.eventHash)).toBe(true);
+    });
+
+    it('should persist the tree format version', () => {
+        const storage = new MemoryStorageAdapter();
+        const registry = new CausalEventRegistry(agentId, { storage, treeVersion: 2 });
+        registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('1'), predecessorHash: null, timestamp: Date.now() });
+        expect(storage.load().treeVersion).toBe(2);
+
+        const reopened = new CausalEventRegistry(agentId, { storage });
+        expect(reopened.getTreeVersion()).toBe(2);
+        expect(reopened.getRootHash()).toBe(registry.getRootHash());
+        expect(reopened.verifyEventInclusion(registry.getLastEventHash()!)).toBe(true);
+        expect(() => new CausalEventRegistry(agentId, { storage, treeVersion: 1 })).toThrow('Tree format mismatch');
+    });
+});
+
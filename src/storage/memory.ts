@@ -0,0 +1,56 @@
+/**
+ * In-Memory Storage Adapter
+ * Keeps registry state in process memory (lost on restart)
+ * @module storage/memory
+ */
+
+import type { CausalEvent, KeyEventRecord, StoredRegistryState, TreeFormatVersion } from '../types/index.js';
+import type { StorageAdapter } from './adapter.js';
+
+/**
+ * Storage adapter backed by plain in-memory collections
+ * Useful for tests and for sharing state between registry instances
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+    private readonly events: CausalEvent[] = [];
+    private readonly leaves: string[] = [];
+    private readonly nodes: Map<string, { level: number; index: number; hash: string }> = new Map();
+    private lastEventHash: string | null = null;
+    private treeVersion: TreeFormatVersion | undefined;
+    private readonly keyEvents: KeyEventRecord[] = [];
+
+    load(): StoredRegistryState {
+        return {
+            events: this.events.map(event => ({ ...event })),
+            leaves: [...this.leaves],
+            nodes: Array.from(this.nodes.values(), node => ({ ...node })),
+            lastEventHash: this.lastEventHash,
+            treeVersion: this.treeVersion,
+            keyEvents: this.keyEvents.map(record => ({ ...record }))
+        };
+    }
+
+    putEvent(event: CausalEvent): void {
+        this.events.push({ ...event });
+    }
+
+    putLeaf(index: number, hash: string): void {
+        this.leaves[index] = hash;
+    }
+
+    putNode(level: number, index: number, hash: string): void {
+        this.nodes.set(`${level}:${index}`, { level, index, hash });
+    }
+
+    setLastEventHash(eventHash: string | null): void {
+        this.lastEventHash = eventHash;
+    }
+
+    setTreeVersion(version: TreeFormatVersion): void {
+        this.treeVersion = version;
+    }
+
+    putKeyEvent(record: KeyEventRecord): void {
+        this.keyEvents.push({ ...record });
+    }
+}
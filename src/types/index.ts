@@ -5,8 +5,26 @@
 
 /**
  * Valid action types for causal events
+ * Key events are only registered through the registry's rotateKey/revokeKey
  */
-export type ActionType = 'request' | 'response' | 'error' | 'state_transition';
+export type ActionType = 'request' | 'response' | 'error' | 'state_transition' | KeyEventType;
+
+/**
+ * Action types of key management events
+ */
+export type KeyEventType = 'key_rotation' | 'key_revocation';
+
+/**
+ * Merkle tree hashing format
+ * 1: sorted-pair hashing (legacy); 2: RFC 6962 domain-separated, position-binding hashing
+ */
+export type TreeFormatVersion = 1 | 2;
+
+/**
+ * Signature scheme an agent signs with
+ * secp256k1: ECDSA over SHA3-256 hashes (default); ed25519: RFC 8032 PureEdDSA
+ */
+export type SignatureSchemeId = 'secp256k1' | 'ed25519';
 
 /**
  * Input for registering a new causal event
@@ -16,7 +34,7 @@ export interface EventInput {
     agentId: string;
     /** Type of action being recorded */
     actionType: ActionType;
-    /** SHA3-256 hash of the action payload (never raw payload) */
+    /** SHA3-256 hash of the action payload (never raw payload); see hashPayload for standard encodings */
     payloadHash: string;
     /** Hash of immediately preceding causal event (null for root) */
     predecessorHash: string | null;
@@ -50,10 +68,49 @@ export interface ProofPathElement {
     position: 'left' | 'right';
 }
 
+/**
+ * Proof that a later tree is an append-only extension of an earlier one
+ */
+export interface ConsistencyProof {
+    /** Size of the earlier tree */
+    firstSize: number;
+    /** Size of the later tree */
+    secondSize: number;
+    /** Root hash of the earlier tree */
+    firstRootHash: string;
+    /** Root hash of the later tree */
+    secondRootHash: string;
+    /** RFC 6962 consistency proof node hashes */
+    proofHashes: string[];
+    /** Merkle tree hashing format (absent means 1) */
+    treeVersion?: TreeFormatVersion;
+}
+
+/**
+ * Tree state an agent commits to when signing a proof
+ * The agent signature covers the hash of all of these fields
+ */
+export interface SignedTreeHead {
+    /** Agent that owns the tree */
+    agentId: string;
+    /** Number of leaves in the tree */
+    treeSize: number;
+    /** Root hash of the tree at that size */
+    rootHash: string;
+    /** Unix epoch (ms) at which the head was signed */
+    issuedAt: number;
+    /** Merkle tree hashing format */
+    treeVersion: TreeFormatVersion;
+    /** Verifier-supplied challenge this proof was generated for (optional) */
+    nonce?: string;
+}
+
 /**
  * Complete causal proof structure
  */
 export interface CausalProof {
+    /** Proof schema version (absent means causal-v1; see proof/schema) */
+    schemaVersion?: string;
     /** The event being proven */
     targetEvent: CausalEvent;
     /** Merkle inclusion proof path */
@@ -62,12 +119,47 @@ export interface CausalProof {
     causalChain: CausalChainElement[];
     /** Tree root hash at proof generation time */
     treeRootHash: string;
-    /** ECDSA signature over tree root by agent's private key */
+    /** ECDSA signature by agent's private key over the signed tree head (or, for legacy proofs, the bare tree root) */
+    agentSignature: string;
+    /** Tree head covered by the agent signature */
+    signedTreeHead?: SignedTreeHead;
+    /** Merkle tree hashing format (absent means 1) */
+    treeVersion?: TreeFormatVersion;
+    /** Number of leaves in the tree at proof generation time (required for format 2) */
+    treeSize?: number;
+    /** Scheme of the agent signature (absent means secp256k1) */
+    signatureScheme?: SignatureSchemeId;
+    /** Payload preimages of the target event or chain events (not covered by the signature; self-verifying) */
+    disclosures?: PayloadDisclosure[];
+}
+
+/**
+ * Inclusion proof for several events under one signed tree head
+ */
+export interface BatchCausalProof {
+    /** Events being proven, in ascending tree position */
+    events: CausalEvent[];
+    /** Sibling hashes shared by the events' inclusion paths (see MerkleTree.getMultiProof) */
+    multiProof: string[];
+    /** Tree root hash at proof generation time */
+    treeRootHash: string;
+    /** Agent signature over the signed tree head */
     agentSignature: string;
+    /** Tree head covered by the agent signature */
+    signedTreeHead: SignedTreeHead;
+    /** Merkle tree hashing format */
+    treeVersion: TreeFormatVersion;
+    /** Number of leaves in the tree at proof generation time */
+    treeSize: number;
+    /** Scheme of the agent signature (absent means secp256k1) */
+    signatureScheme?: SignatureSchemeId;
 }
 
 /**
  * Simplified event representation for causal chain
+ * With agentId and payloadHash present the element carries every EventInput
+ * field, so its eventHash can be recomputed; with positionInTree and
+ * proofPath its inclusion under the proof's tree root can be checked.
  */
 export interface CausalChainElement {
     /** Event hash */
@@ -78,6 +170,14 @@ export interface CausalChainElement {
     timestamp: number;
     /** Hash of the preceding event */
     predecessorHash: string | null;
+    /** Agent that registered the event (full event data only) */
+    agentId?: string;
+    /** Hash of the event payload (full event data only) */
+    payloadHash?: string;
+    /** Leaf index of the event in the Merkle tree (inclusion proofs only) */
+    positionInTree?: number;
+    /** Merkle inclusion path under the proof's tree root (inclusion proofs only) */
+    proofPath?: ProofPathElement[];
 }
 
 /**
@@ -106,6 +206,36 @@ export interface LightProof {
     causalChain: { eventHash: string; timestamp: number }[];
     /** Current timestamp of proof generation */
     timestamp: number;
+    /** Commitment to the full proof delivered alongside this light proof */
+    fullProofCommitment?: string;
+    /** Agent signature over all other light proof fields */
+    agentSignature?: string;
+    /** Scheme of the agent signature (absent means secp256k1) */
+    signatureScheme?: SignatureSchemeId;
+}
+
+/**
+ * Evidence that an agent delivered a light proof that contradicts its full proof
+ */
+export interface FraudReport {
+    /** Agent claimed by the light proof */
+    agentId: string;
+    /** Target event claimed by the light proof */
+    targetEventHash: string;
+    /** Every detected discrepancy */
+    reasons: string[];
+    /** Unix epoch (ms) at which the mismatch was detected */
+    detectedAt: number;
+}
+
+/**
+ * Light proof with an optional full proof for deferred verification
+ */
+export interface ProofPackage {
+    /** Proof for immediate, metadata-only verification */
+    light: LightProof;
+    /** Complete signed proof for the same target event */
+    full?: CausalProof;
 }
 
 /**
@@ -122,6 +252,8 @@ export interface ProgressiveResult {
     deferredStatus: 'pending' | 'completed' | 'not_requested';
     /** Promise that resolves to final full verification result */
     fullResult?: Promise<VerificationResult>;
+    /** Present when the light and full proofs contradict each other */
+    fraud?: FraudReport;
 }
 
 /**
@@ -154,6 +286,38 @@ export interface TreeExport {
     rootHash: string;
     /** Total number of leaves */
     leafCount: number;
+    /** Merkle tree hashing format (absent means 1) */
+    version?: TreeFormatVersion;
+}
+
+/**
+ * Persisted internal Merkle node
+ */
+export interface MerkleNodeRecord {
+    /** Tree level (leaves are level 0) */
+    level: number;
+    /** Node index within the level */
+    index: number;
+    /** Node hash */
+    hash: string;
+}
+
+/**
+ * Registry state as persisted by a storage adapter
+ */
+export interface StoredRegistryState {
+    /** All persisted events in registration order */
+    events: CausalEvent[];
+    /** All persisted leaf hashes in order */
+    leaves: string[];
+    /** Latest value of every persisted internal node */
+    nodes: MerkleNodeRecord[];
+    /** Hash of the most recently registered event */
+    lastEventHash: string | null;
+    /** Tree hashing format recorded when the registry was created (absent means 1) */
+    treeVersion?: TreeFormatVersion;
+    /** Key rotation/revocation records in registration order */
+    keyEvents?: KeyEventRecord[];
 }
 
 /**
@@ -166,4 +330,153 @@ export interface RegistryExport {
     tree: TreeExport;
     /** Agent ID this registry belongs to */
     agentId: string;
+    /** Key rotation/revocation records (absent in exports without key events) */
+    keyEvents?: KeyEventRecord[];
+}
+
+/**
+ * Key change announced by an agent; its hash is the payloadHash of the key event
+ */
+export interface KeyAnnouncement {
+    /** Agent whose key changes */
+    agentId: string;
+    /** Rotation retires the previous key for later tree sizes; revocation invalidates it entirely */
+    type: KeyEventType;
+    /** Key that signs the announcement (the agent's current key) */
+    previousPublicKey: string;
+    /** Key valid from the announcement on (required for rotation, optional replacement for revocation) */
+    newPublicKey: string | null;
+    /** Signature scheme of both keys (absent means secp256k1) */
+    scheme?: SignatureSchemeId;
 }
+
+/**
+ * Key announcement as recorded in the causal log
+ */
+export interface KeyEventRecord extends KeyAnnouncement {
+    /** Causal event carrying the announcement */
+    event: CausalEvent;
+    /** Signature by previousPublicKey over the announcement hash */
+    signature: string;
+    /** Tree head of size event.positionInTree + 1, whose root is event.treeRootHash */
+    treeHead: SignedTreeHead;
+    /** Signature by previousPublicKey over the tree head */
+    treeHeadSignature: string;
+    /** Inclusion path of the event in that tree head */
+    proofPath: ProofPathElement[];
+}
+
+/**
+ * How string payload data is turned into bytes: UTF-8 text (default) or hex,
+ * which keeps binary payloads JSON-safe
+ */
+export type PayloadEncoding = 'utf8' | 'hex';
+
+/**
+ * HTTP headers as a plain record (Node.js style) or a fetch Headers object
+ */
+export type HeaderSource =
+    | Record<string, string | string[] | number | undefined>
+    | { forEach(callback: (value: string, name: string) => void): void };
+
+/**
+ * Structured payload: SHA3-256 of its RFC 8785 canonical JSON
+ */
+export interface JsonPayload {
+    mode: 'json';
+    /** JSON-compatible value */
+    value: unknown;
+}
+
+/**
+ * Opaque payload: SHA3-256 of the bytes
+ */
+export interface RawPayload {
+    mode: 'raw';
+    data: string | Uint8Array;
+    /** Encoding of string data (default: utf8) */
+    encoding?: PayloadEncoding;
+}
+
+/**
+ * Fields shared by the HTTP modes
+ * The body is given either directly or as its SHA3-256 hash (e.g. from sha3Stream)
+ */
+export interface HttpPayloadFields {
+    /** Message headers; only those named in includeHeaders are hashed */
+    headers?: HeaderSource;
+    /** Header names to hash, case-insensitive (default: DEFAULT_HASHED_HEADERS) */
+    includeHeaders?: readonly string[];
+    /** Message body (absent or null for no body) */
+    body?: string | Uint8Array | null;
+    /** Encoding of a string body (default: utf8) */
+    encoding?: PayloadEncoding;
+    /** SHA3-256 hash of the body, instead of body */
+    bodyHash?: string;
+}
+
+/**
+ * HTTP request: method, URL, selected headers and body
+ */
+export interface HttpRequestPayload extends HttpPayloadFields {
+    mode: 'http-request';
+    /** Request method (hashed upper-case) */
+    method: string;
+    /** Request URL, hashed exactly as given; both parties must use the same form */
+    url: string;
+}
+
+/**
+ * HTTP response: status, selected headers and body
+ */
+export interface HttpResponsePayload extends HttpPayloadFields {
+    mode: 'http-response';
+    /** Status code */
+    status: number;
+}
+
+/**
+ * Payload to hash, tagged with its hashing mode
+ */
+export type PayloadDescriptor = JsonPayload | RawPayload | HttpRequestPayload | HttpResponsePayload;
+
+/**
+ * Field revealed from a field-committed payload
+ */
+export interface DisclosedField {
+    /** Top-level field name */
+    name: string;
+    /** Random salt hiding the field in its commitment (hex) */
+    salt: string;
+    /** Field value */
+    value: unknown;
+}
+
+/**
+ * Whole payload of an event, revealed
+ */
+export interface FullPayloadDisclosure {
+    kind: 'full';
+    /** Event whose payloadHash the payload opens */
+    eventHash: string;
+    /** Payload with its hashing mode (byte data hex-encoded so the bundle is JSON-safe) */
+    payload: PayloadDescriptor;
+}
+
+/**
+ * Selected fields of a field-committed payload, revealed
+ */
+export interface FieldPayloadDisclosure {
+    kind: 'fields';
+    /** Event whose payloadHash the commitments open */
+    eventHash: string;
+    /** Commitments to every payload field, sorted; their hash is the payloadHash */
+    commitments: string[];
+    /** Revealed fields */
+    fields: DisclosedField[];
+}
+
+/**
+ * Preimage of an event's payloadHash, attached to a proof for dispute resolution
+ */
+export type PayloadDisclosure = FullPayloadDisclosure | FieldPayloadDisclosure;
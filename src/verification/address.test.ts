@@ -0,0 +1,57 @@
+/**
+ * Address-Based Verification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { verifyProofByAddress, verifyPrePaymentByAddress, recoverProofSigner } from './address.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+import { publicKeyToAddress } from '../crypto/address.js';
+
+describe('Address-Based Verification', () => {
+    const { privateKey, publicKey } = generateKeyPair();
+    const address = publicKeyToAddress(publicKey);
+
+    function makeProof(agentId: string, key: string, recoverable = true) {
+        const registry = new CausalEventRegistry(agentId);
+        const event = registry.registerEvent({
+            agentId,
+            actionType: 'request',
+            payloadHash: sha3('payload'),
+            predecessorHash: null,
+            timestamp: Date.now()
+        });
+        return new ProofGenerator(registry).generateProof(event.causalEventId, key, undefined, { recoverable });
+    }
+
+    it('should verify a recoverable proof against its address agent ID', () => {
+        const proof = makeProof(address, privateKey);
+        expect(recoverProofSigner(proof)).toBe(publicKey);
+        expect(verifyProofByAddress(proof).isValid).toBe(true);
+        expect(verifyPrePaymentByAddress(proof, { minVerificationDepth: 1 }).isValid).toBe(true);
+    });
+
+    it('should accept agent IDs in any letter case', () => {
+        expect(verifyProofByAddress(makeProof(address.toLowerCase(), privateKey)).isValid).toBe(true);
+    });
+
+    it('should reject proofs signed by a different key', () => {
+        const result = verifyProofByAddress(makeProof(address, generateKeyPair().privateKey));
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatch(/does not match agent ID/);
+    });
+
+    it('should reject non-recoverable signatures and non-address agents', () => {
+        expect(verifyProofByAddress(makeProof(address, privateKey, false)).errors[0]).toMatch(/not recoverable/);
+        expect(verifyProofByAddress(makeProof('0xAgent', privateKey)).errors[0]).toMatch(/not an Ethereum address/);
+    });
+
+    it('should still run the full proof checks', () => {
+        const proof = makeProof(address, privateKey);
+        proof.targetEvent.payloadHash = sha3('tampered');
+        const result = verifyProofByAddress(proof);
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('Target event hash integrity check failed');
+    });
+});
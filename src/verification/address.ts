@@ -0,0 +1,87 @@
+/**
+ * Address-Based Verification
+ * Verifies proofs from agents identified by Ethereum addresses, recovering
+ * the signing key from a 65-byte signature instead of requiring it up front
+ * @module verification/address
+ */
+
+import { CausalProof, VerificationResult, SemanticRules } from '../types/index.js';
+import { recoverSigner, isRecoverableSignature } from '../crypto/ecdsa.js';
+import { isAddress, publicKeyToAddress, addressesEqual } from '../crypto/address.js';
+import { hashTreeHead } from '../proof/tree-head.js';
+import { verifyProof, VerifyProofOptions } from './verifier.js';
+import { verifyPrePayment } from './patterns.js';
+
+/**
+ * Recover the public key that produced a proof's recoverable signature
+ * @param proof - Proof signed with a 65-byte signature
+ * @returns Public key, or null if the signature is not recoverable
+ */
+export function recoverProofSigner(proof: CausalProof): string | null {
+    // Legacy proofs without a tree head signed the bare root
+    const hash = proof.signedTreeHead ? hashTreeHead(proof.signedTreeHead) : proof.treeRootHash;
+    return recoverSigner(hash, proof.agentSignature);
+}
+
+/**
+ * Verify a proof whose agent ID is an Ethereum address
+ * The signer is recovered from the signature and its address must equal
+ * targetEvent.agentId; the proof is then verified with the recovered key
+ * @param proof - The proof to verify
+ * @param options - Additional verification options
+ * @returns Verification result
+ */
+export function verifyProofByAddress(proof: CausalProof, options: VerifyProofOptions = {}): VerificationResult {
+    return verifyWithRecoveredKey(proof, key => verifyProof(proof, proof.targetEvent.agentId, key, options));
+}
+
+/**
+ * verifyPrePayment for agents identified by Ethereum addresses
+ * @param proof - The proof received in the X-Causal-Proof header
+ * @param rules - Semantic rules to enforce (optional)
+ * @param options - Nonce and legacy-signature options passed to verifyProof
+ * @returns Comprehensive verification result
+ */
+export function verifyPrePaymentByAddress(
+    proof: CausalProof,
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
+): VerificationResult {
+    return verifyWithRecoveredKey(proof, key =>
+        verifyPrePayment(proof, proof.targetEvent.agentId, key, rules, options)
+    );
+}
+
+function verifyWithRecoveredKey(
+    proof: CausalProof,
+    verify: (publicKey: string) => VerificationResult
+): VerificationResult {
+    const fail = (error: string): VerificationResult => ({
+        isValid: false,
+        errors: [error],
+        verifiedActions: 0,
+        trustScore: 0
+    });
+
+    const agentId = proof.targetEvent.agentId;
+    if (!isAddress(agentId)) {
+        return fail(`Agent ID ${agentId} is not an Ethereum address`);
+    }
+    if ((proof.signatureScheme ?? 'secp256k1') !== 'secp256k1') {
+        return fail(`Signer recovery is not supported for ${proof.signatureScheme} signatures`);
+    }
+    if (!isRecoverableSignature(proof.agentSignature)) {
+        return fail('Agent signature is not recoverable (expected 65 bytes)');
+    }
+
+    const publicKey = recoverProofSigner(proof);
+    if (publicKey === null) {
+        return fail('Could not recover the agent signer');
+    }
+    const signer = publicKeyToAddress(publicKey);
+    if (!addressesEqual(signer, agentId)) {
+        return fail(`Recovered signer ${signer} does not match agent ID ${agentId}`);
+    }
+
+    return verify(publicKey);
+}
@@ -0,0 +1,92 @@
+/**
+ * Batch Proof Verification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { verifyBatchProof } from './batch.js';
+import { NonceCache } from './nonce.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+import { generateKeyPair as generateEd25519KeyPair } from '../crypto/ed25519.js';
+import { CausalEvent } from '../types/index.js';
+
+describe('Batch proofs', () => {
+    const agentId = '0xBatchAgent';
+    const { privateKey, publicKey } = generateKeyPair();
+
+    const setup = (treeVersion: 1 | 2 = 2) => {
+        const registry = new CausalEventRegistry(agentId, { treeVersion });
+        const events: CausalEvent[] = [];
+        for (let i = 0; i < 9; i++) {
+            events.push(registry.registerEvent({
+                agentId,
+                actionType: i % 2 === 0 ? 'request' : 'response',
+                payloadHash: sha3(`p${i}`),
+                predecessorHash: events[i - 1]?.eventHash ?? null,
+                timestamp: Date.now()
+            }));
+        }
+        return { registry, events, generator: new ProofGenerator(registry) };
+    };
+
+    it('should prove several events with one signature', () => {
+        for (const version of [1, 2] as const) {
+            const { events, generator } = setup(version);
+            const ids = [events[7]!, events[1]!, events[4]!].map(e => e.causalEventId);
+            const proof = generator.generateMultiProof(ids, privateKey);
+
+            expect(proof.events.map(e => e.positionInTree)).toEqual([1, 4, 7]);
+            expect(proof.treeSize).toBe(9);
+            expect(verifyBatchProof(proof, agentId, publicKey)).toEqual({ isValid: true, errors: [], verifiedEvents: 3 });
+        }
+    });
+
+    it('should support Ed25519 and challenge nonces', () => {
+        const { events, generator } = setup();
+        const keys = generateEd25519KeyPair();
+        const cache = new NonceCache();
+        const nonce = cache.issue();
+        const proof = generator.generateMultiProof([events[0]!.causalEventId], keys.privateKey, { scheme: 'ed25519', nonce });
+
+        expect(verifyBatchProof(proof, agentId, keys.publicKey, { nonceCache: cache }).isValid).toBe(true);
+        expect(verifyBatchProof(proof, agentId, keys.publicKey, { nonceCache: cache }).errors)
+            .toContain('Proof nonce was not issued by this verifier, has expired or was already used');
+    });
+
+    it('should reject tampered events, order and multiproofs', () => {
+        const { events, generator } = setup();
+        const ids = [events[2]!.causalEventId, events[3]!.causalEventId];
+
+        const tampered = generator.generateMultiProof(ids, privateKey);
+        tampered.events[0] = { ...tampered.events[0]!, actionType: 'error' };
+        expect(verifyBatchProof(tampered, agentId, publicKey).errors)
+            .toContain(`Event hash integrity check failed for event ${tampered.events[0]!.eventHash}`);
+
+        const swapped = generator.generateMultiProof(ids, privateKey);
+        swapped.events.reverse();
+        expect(verifyBatchProof(swapped, agentId, publicKey).errors)
+            .toContain('Batch events must be in ascending tree position without repeats (index 1)');
+
+        const moved = generator.generateMultiProof(ids, privateKey);
+        moved.events[1] = { ...events[5]! };
+        expect(verifyBatchProof(moved, agentId, publicKey).errors).toContain('Merkle multiproof verification failed');
+
+        const resized = generator.generateMultiProof(ids, privateKey);
+        resized.treeSize = 12;
+        expect(verifyBatchProof(resized, agentId, publicKey).isValid).toBe(false);
+
+        const forged = generator.generateMultiProof(ids, privateKey);
+        expect(verifyBatchProof(forged, '0xOther', publicKey).verifiedEvents).toBe(0);
+        expect(verifyBatchProof(forged, agentId, generateKeyPair().publicKey).errors)
+            .toContain('Agent signature verification failed');
+    });
+
+    it('should reject empty, duplicate and unknown event IDs', () => {
+        const { events, generator } = setup();
+        expect(() => generator.generateMultiProof([], privateKey)).toThrow('at least one event');
+        expect(() => generator.generateMultiProof([events[0]!.causalEventId, events[0]!.causalEventId], privateKey))
+            .toThrow('Duplicate event ID in batch');
+        expect(() => generator.generateMultiProof(['missing'], privateKey)).toThrow('Event missing not found');
+    });
+});
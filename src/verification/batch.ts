@@ -0,0 +1,121 @@
+/**
+ * Batch Proof Verification
+ * Verify many events against one signed tree head and Merkle multiproof in a single pass
+ * @module verification/batch
+ */
+
+import { BatchCausalProof } from '../types/index.js';
+import { isSignatureSchemeId, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import { MerkleTree } from '../merkle/tree.js';
+import { hashEventInput } from '../registry/registry.js';
+import { verifyTreeHeadSignature } from '../proof/tree-head.js';
+import type { VerifyProofOptions } from './verifier.js';
+
+/**
+ * Result of verifying a batch proof
+ */
+export interface BatchVerificationResult {
+    /** Overall validity */
+    isValid: boolean;
+    /** Error messages if invalid */
+    errors: string[];
+    /** Number of events proven (0 if invalid) */
+    verifiedEvents: number;
+}
+
+/**
+ * Verify a batch proof from ProofGenerator.generateMultiProof
+ * Checks the signature once, every event hash, and the inclusion of all
+ * events under the signed root with the shared multiproof
+ * @param proof - The batch proof to verify
+ * @param expectedAgentId - The agent ID that should have signed the proof
+ * @param expectedPublicKey - The public key corresponding to the agent ID
+ * @param options - Verifier challenge and nonce cache
+ * @returns Verification result with details
+ */
+export function verifyBatchProof(
+    proof: BatchCausalProof,
+    expectedAgentId: string,
+    expectedPublicKey: string,
+    options: Pick<VerifyProofOptions, 'expectedNonce' | 'nonceCache'> = {}
+): BatchVerificationResult {
+    const errors: string[] = [];
+    const head = proof.signedTreeHead;
+
+    // 1. Verify each event belongs to the agent and matches its hash
+    if (proof.events.length === 0) {
+        errors.push('Batch proof contains no events');
+    }
+    proof.events.forEach((event, i) => {
+        if (event.agentId !== expectedAgentId) {
+            errors.push(`Agent ID mismatch for event ${event.eventHash}: expected ${expectedAgentId}, got ${event.agentId}`);
+        }
+        if (hashEventInput(event) !== event.eventHash) {
+            errors.push(`Event hash integrity check failed for event ${event.eventHash}`);
+        }
+        const previous = proof.events[i - 1];
+        if (previous && event.positionInTree <= previous.positionInTree) {
+            errors.push(`Batch events must be in ascending tree position without repeats (index ${i})`);
+        }
+    });
+
+    // 2. Verify the signed tree head describes the tree the multiproof was built from
+    if (!head) {
+        errors.push('Missing signed tree head');
+    } else {
+        if (head.agentId !== expectedAgentId) {
+            errors.push(`Signed tree head agent mismatch: expected ${expectedAgentId}, got ${head.agentId}`);
+        }
+        if (head.rootHash !== proof.treeRootHash) {
+            errors.push('Signed tree head root does not match proof tree root');
+        }
+        if (head.treeVersion !== proof.treeVersion) {
+            errors.push(`Signed tree head format mismatch: head uses version ${head.treeVersion}, proof uses ${proof.treeVersion}`);
+        }
+        if (head.treeSize !== proof.treeSize) {
+            errors.push(`Signed tree head size mismatch: head has ${head.treeSize}, proof has ${proof.treeSize}`);
+        }
+
+        // 3. Verify the agent signature once for the whole batch
+        const scheme = proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME;
+        if (!isSignatureSchemeId(scheme)) {
+            errors.push(`Unsupported signature scheme: ${String(scheme)}`);
+        } else if (!verifyTreeHeadSignature(head, proof.agentSignature, expectedPublicKey, scheme)) {
+            errors.push('Agent signature verification failed');
+        }
+    }
+
+    // 3b. Verify the proof answers this verifier's challenge
+    const nonce = head?.nonce;
+    if (options.expectedNonce !== undefined && nonce !== options.expectedNonce) {
+        errors.push('Proof nonce mismatch');
+    }
+    if (options.nonceCache && nonce === undefined) {
+        errors.push('Proof does not carry a nonce');
+    }
+
+    // 4. Verify inclusion of every event with the shared multiproof
+    const included = MerkleTree.verifyMultiProof(
+        proof.events.map(event => ({ index: event.positionInTree, hash: event.eventHash })),
+        proof.multiProof,
+        proof.treeRootHash,
+        { version: proof.treeVersion, treeSize: proof.treeSize }
+    );
+    if (!included) {
+        errors.push('Merkle multiproof verification failed');
+    }
+
+    // 5. Spend the nonce last, so invalid proofs cannot burn outstanding challenges
+    if (options.nonceCache && nonce !== undefined && errors.length === 0) {
+        if (!options.nonceCache.consume(nonce)) {
+            errors.push('Proof nonce was not issued by this verifier, has expired or was already used');
+        }
+    }
+
+    const isValid = errors.length === 0;
+    return {
+        isValid,
+        errors,
+        verifiedEvents: isValid ? proof.events.length : 0
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * Payload Disclosure Verification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { verifyPayloadDisclosure, verifyProofDisclosures } from './disclosure.js';
+import { verifyProof } from './verifier.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { commitPayloadFields, discloseFields, disclosePayload, hashPayload } from '../payload/index.js';
+import { generateKeyPair } from '../crypto/index.js';
+import { CausalEvent } from '../types/index.js';
+
+describe('Payload disclosure verification', () => {
+    const { privateKey, publicKey } = generateKeyPair();
+    const agentId = 'agent-disclosure';
+    const request = { mode: 'json' as const, value: { query: 'price', symbol: 'ETH' } };
+    const committed = commitPayloadFields({ amount: 10, to: '0xabc', note: 'private' });
+
+    const registry = new CausalEventRegistry(agentId);
+    const first = registry.registerEvent({
+        agentId, actionType: 'request', payloadHash: hashPayload(request), predecessorHash: null, timestamp: Date.now()
+    });
+    const target = registry.registerEvent({
+        agentId, actionType: 'state_transition', payloadHash: committed.payloadHash, predecessorHash: first.eventHash, timestamp: Date.now()
+    });
+    const generator = new ProofGenerator(registry);
+
+    it('should verify a full disclosure of a chain event', () => {
+        const proof = generator.generateProof(target.causalEventId, privateKey);
+        const result = verifyPayloadDisclosure(proof, disclosePayload(first, request));
+        expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should verify selected fields of the target event', () => {
+        const proof = generator.generateProof(target.causalEventId, privateKey);
+        const result = verifyPayloadDisclosure(proof, discloseFields(target, committed, ['amount', 'to']));
+        expect(result.valid).toBe(true);
+        expect(result.fields).toEqual({ amount: 10, to: '0xabc' });
+    });
+
+    it('should reject tampered payloads and fields', () => {
+        const proof = generator.generateProof(target.causalEventId, privateKey);
+
+        const full = disclosePayload(first, request);
+        full.payload = { mode: 'json', value: { query: 'price', symbol: 'BTC' } };
+        expect(verifyPayloadDisclosure(proof, full).errors[0]).toContain('does not match the payloadHash');
+
+        const fields = discloseFields(target, committed, ['amount']);
+        fields.fields[0]!.value = 1000;
+        const result = verifyPayloadDisclosure(proof, fields);
+        expect(result.valid).toBe(false);
+        expect(result.errors).toContain('Field amount does not match any commitment');
+        expect(result.fields).toBeUndefined();
+
+        const dropped = discloseFields(target, committed, ['amount']);
+        dropped.commitments = dropped.commitments.slice(1);
+        expect(verifyPayloadDisclosure(proof, dropped).valid).toBe(false);
+    });
+
+    it('should reject disclosures for events outside the proof', () => {
+        const proof = generator.generateProof(target.causalEventId, privateKey, 1);
+        const result = verifyPayloadDisclosure(proof, disclosePayload(first, request));
+        expect(result.errors).toEqual([`Event ${first.eventHash} is not part of the proof`]);
+    });
+
+    it('should check disclosures attached by the generator', () => {
+        const disclosures = [disclosePayload(first, request), discloseFields(target, committed, ['to'])];
+        const proof = generator.generateProof(target.causalEventId, privateKey, undefined, { disclosures });
+        expect(proof.disclosures).toHaveLength(2);
+        expect(verifyProofDisclosures(proof)).toEqual({ valid: true, errors: [] });
+        expect(verifyProof(proof, agentId, publicKey).isValid).toBe(true);
+
+        const forged: CausalEvent = { ...first, payloadHash: hashPayload({ mode: 'json', value: {} }) };
+        proof.disclosures!.push(disclosePayload(forged, { mode: 'json', value: {} }));
+        const result = verifyProofDisclosures(proof);
+        expect(result.valid).toBe(false);
+        expect(result.errors[0]).toMatch(/^Disclosure for event 0x[0-9a-f]+: Disclosed payload does not match/);
+        expect(verifyProof(proof, agentId, publicKey).errors).toEqual(result.errors);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Payload Disclosure Verification
+ * Check that disclosed payloads open the payloadHash of an event in a proof
+ * @module verification/disclosure
+ */
+
+import { CausalProof, PayloadDisclosure } from '../types/index.js';
+import { hashPayload } from '../payload/hash.js';
+import { hashDisclosedField, hashFieldCommitments } from '../payload/disclosure.js';
+import { hashEventInput } from '../registry/registry.js';
+
+/**
+ * Result of verifying a payload disclosure
+ */
+export interface DisclosureVerificationResult {
+    valid: boolean;
+    errors: string[];
+    /** Revealed payload fields by name (field disclosures that verified only) */
+    fields?: Record<string, unknown>;
+}
+
+/**
+ * Verify that a disclosure opens the payloadHash of an event in a proof
+ *
+ * The payloadHash is recomputed from the disclosure. For the target event it
+ * must equal targetEvent.payloadHash; for a chain element, the event hash
+ * recomputed from the element's fields and the target agent must equal its
+ * eventHash. The proof itself is not verified here; use verifyProof for that.
+ * @param proof - Proof containing the disclosed event
+ * @param disclosure - Full payload or selected fields
+ * @returns Validity, list of errors and, for field disclosures, the revealed fields
+ */
+export function verifyPayloadDisclosure(
+    proof: CausalProof,
+    disclosure: PayloadDisclosure
+): DisclosureVerificationResult {
+    const errors: string[] = [];
+
+    // 1. Recompute the payloadHash from the disclosure
+    let payloadHash: string | null = null;
+    let fields: Record<string, unknown> | undefined;
+
+    if (disclosure.kind === 'full') {
+        try {
+            payloadHash = hashPayload(disclosure.payload);
+        } catch (error) {
+            errors.push(`Disclosed payload cannot be hashed: ${(error as Error).message}`);
+        }
+    } else if (disclosure.kind === 'fields') {
+        if (!Array.isArray(disclosure.commitments) || !Array.isArray(disclosure.fields)) {
+            errors.push('Field disclosure must contain commitments and fields');
+        } else {
+            const commitments = new Set(disclosure.commitments);
+            if (commitments.size !== disclosure.commitments.length) {
+                errors.push('Field disclosure contains duplicate commitments');
+            }
+            fields = {};
+            for (const field of disclosure.fields) {
+                if (Object.prototype.hasOwnProperty.call(fields, field.name)) {
+                    errors.push(`Field ${field.name} is disclosed more than once`);
+                    continue;
+                }
+                let commitment: string;
+                try {
+                    commitment = hashDisclosedField(field);
+                } catch (error) {
+                    errors.push(`Field ${field.name} cannot be hashed: ${(error as Error).message}`);
+                    continue;
+                }
+                if (!commitments.has(commitment)) {
+                    errors.push(`Field ${field.name} does not match any commitment`);
+                    continue;
+                }
+                fields[field.name] = field.value;
+            }
+            payloadHash = hashFieldCommitments(disclosure.commitments);
+        }
+    } else {
+        errors.push(`Unknown disclosure kind: ${String((disclosure as { kind?: unknown }).kind)}`);
+    }
+
+    // 2. Match it against the disclosed event
+    if (payloadHash !== null) {
+        const target = proof.targetEvent;
+        const element = proof.causalChain.find(el => el.eventHash === disclosure.eventHash);
+
+        if (target.eventHash === disclosure.eventHash) {
+            if (payloadHash !== target.payloadHash) {
+                errors.push(`Disclosed payload does not match the payloadHash of event ${disclosure.eventHash}`);
+            }
+        } else if (element) {
+            const eventHash = hashEventInput({
+                agentId: target.agentId,
+                actionType: element.actionType,
+                payloadHash,
+                predecessorHash: element.predecessorHash,
+                timestamp: element.timestamp
+            });
+            if (eventHash !== element.eventHash) {
+                errors.push(`Disclosed payload does not match the payloadHash of event ${disclosure.eventHash}`);
+            }
+        } else {
+            errors.push(`Event ${disclosure.eventHash} is not part of the proof`);
+        }
+    }
+
+    const result: DisclosureVerificationResult = { valid: errors.length === 0, errors };
+    if (fields !== undefined && result.valid) {
+        result.fields = fields;
+    }
+    return result;
+}
+
+/**
+ * Verify every disclosure attached to a proof
+ * @param proof - Proof with optional disclosures
+ * @returns Validity and list of errors (valid when there are no disclosures)
+ */
+export function verifyProofDisclosures(proof: CausalProof): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    for (const disclosure of proof.disclosures ?? []) {
+        for (const error of verifyPayloadDisclosure(proof, disclosure).errors) {
+            errors.push(`Disclosure for event ${disclosure.eventHash}: ${error}`);
+        }
+    }
+    return { valid: errors.length === 0, errors };
+}
@@ -8,4 +8,9 @@ export * from './rules.js';
 export * from './patterns.js';
 export * from './light-proof.js';
 export * from './progressive.js';
+export * from './nonce.js';
+export * from './disclosure.js';
+export * from './batch.js';
 
+export * from './resolver.js';
+export * from './address.js';
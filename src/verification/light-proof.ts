@@ -4,7 +4,9 @@
  * @module verification/light-proof
  */
 
-import { LightProof } from '../types/index.js';
+import { LightProof, CausalProof } from '../types/index.js';
+import { getSignatureScheme, isSignatureSchemeId, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import { hashLightProof, commitToFullProof } from '../proof/light-proof.js';
 
 const DEFAULT_MAX_AGE_MS = 300000; // 5 minutes
 const DEFAULT_MIN_DEPTH = 3;
@@ -13,13 +15,13 @@ const DEFAULT_MIN_DEPTH = 3;
  * Verify a lightweight proof for immediate trust
  * @param proof - The light proof to verify
  * @param expectedAgentId - The expected agent ID
- * @param options - Minimum depth and maximum age
+ * @param options - Minimum depth, maximum age and, to require a valid agent signature, the public key
  * @returns boolean indicating if the proof meets immediate trust criteria
  */
 export function verifyLightProof(
     proof: LightProof,
     expectedAgentId: string,
-    options: { maxAgeMs?: number; minDepth?: number } = {}
+    options: { maxAgeMs?: number; minDepth?: number; publicKey?: string } = {}
 ): boolean {
     const maxAge = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
     const minDepth = options.minDepth ?? DEFAULT_MIN_DEPTH;
@@ -49,5 +51,61 @@ export function verifyLightProof(
         }
     }
 
+    // 7. Agent Signature (only when a public key is supplied)
+    if (options.publicKey !== undefined && !verifyLightProofSignature(proof, options.publicKey)) return false;
+
     return true;
 }
+
+/**
+ * Verify the agent signature over a light proof
+ * @param proof - The light proof
+ * @param publicKey - The agent's public key
+ * @returns True if the proof is signed by that key in the scheme it names
+ */
+export function verifyLightProofSignature(proof: LightProof, publicKey: string): boolean {
+    if (!proof.agentSignature) return false;
+    const scheme = proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME;
+    if (!isSignatureSchemeId(scheme)) return false;
+    return getSignatureScheme(scheme).verify(hashLightProof(proof), proof.agentSignature, publicKey);
+}
+
+/**
+ * Check that a light proof describes the same target event and chain as a full proof
+ * Any discrepancy means the agent presented contradictory proofs
+ * @param light - Light proof used for the immediate decision
+ * @param full - Full proof delivered for deferred verification
+ * @returns Validity and list of discrepancies
+ */
+export function verifyLightFullBinding(
+    light: LightProof,
+    full: CausalProof
+): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (light.agentId !== full.targetEvent.agentId) {
+        errors.push(`Light proof agent ${light.agentId} does not match full proof agent ${full.targetEvent.agentId}`);
+    }
+    if (light.targetEventHash !== full.targetEvent.eventHash) {
+        errors.push(`Light proof target ${light.targetEventHash} does not match full proof target ${full.targetEvent.eventHash}`);
+    }
+    if (light.fullProofCommitment !== undefined && light.fullProofCommitment !== commitToFullProof(full)) {
+        errors.push('Light proof commitment does not match the full proof');
+    }
+
+    // Chains may have different depths; compare the overlapping tail (ending at the target)
+    const overlap = Math.min(light.causalChain.length, full.causalChain.length);
+    for (let k = 1; k <= overlap; k++) {
+        const l = light.causalChain[light.causalChain.length - k]!;
+        const f = full.causalChain[full.causalChain.length - k]!;
+        if (l.eventHash !== f.eventHash || l.timestamp !== f.timestamp) {
+            errors.push(`Light proof chain diverges from full proof chain at ${k - 1} events before the target`);
+            break;
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors
+    };
+}
@@ -0,0 +1,99 @@
+/**
+ * Nonce Cache and Challenge Binding Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NonceCache } from './nonce.js';
+import { verifyProof } from './verifier.js';
+import { verifyPrePayment } from './patterns.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { verifyTreeHeadSignature } from '../proof/tree-head.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+
+describe('NonceCache', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should issue unique nonces that can be consumed once', () => {
+        const cache = new NonceCache();
+        const a = cache.issue();
+        const b = cache.issue();
+        expect(a).toMatch(/^0x[0-9a-f]{32}$/);
+        expect(a).not.toBe(b);
+        expect(cache.has(a)).toBe(true);
+
+        expect(cache.consume(a)).toBe(true);
+        expect(cache.consume(a)).toBe(false);
+        expect(cache.consume('0xunknown')).toBe(false);
+        expect(cache.size).toBe(1);
+    });
+
+    it('should expire nonces after the TTL', () => {
+        vi.useFakeTimers();
+        const cache = new NonceCache({ ttlMs: 1000 });
+        const nonce = cache.issue();
+        vi.advanceTimersByTime(1001);
+        expect(cache.consume(nonce)).toBe(false);
+    });
+
+    it('should evict the oldest nonces when full', () => {
+        const cache = new NonceCache({ maxEntries: 2 });
+        const first = cache.issue();
+        cache.issue();
+        cache.issue();
+        expect(cache.size).toBe(2);
+        expect(cache.has(first)).toBe(false);
+        expect(() => new NonceCache({ maxEntries: 0 })).toThrow('maxEntries');
+    });
+});
+
+describe('Challenge binding', () => {
+    const agentId = '0xAgent';
+    const { privateKey, publicKey } = generateKeyPair();
+
+    const createProof = (nonce?: string) => {
+        const registry = new CausalEventRegistry(agentId);
+        const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p'), predecessorHash: null, timestamp: Date.now() });
+        return new ProofGenerator(registry).generateProof(event.causalEventId, privateKey, undefined, { nonce });
+    };
+
+    it('should include the nonce in the signed material', () => {
+        const proof = createProof('0xabc');
+        expect(proof.signedTreeHead!.nonce).toBe('0xabc');
+
+        const stripped = { ...proof.signedTreeHead! };
+        delete stripped.nonce;
+        expect(verifyTreeHeadSignature(stripped, proof.agentSignature, publicKey)).toBe(false);
+    });
+
+    it('should reject a nonce mismatch', () => {
+        const proof = createProof('0xabc');
+        expect(verifyProof(proof, agentId, publicKey, { expectedNonce: '0xabc' }).isValid).toBe(true);
+        expect(verifyProof(proof, agentId, publicKey, { expectedNonce: '0xdef' }).errors).toContain('Proof nonce mismatch');
+        expect(verifyProof(createProof(), agentId, publicKey, { expectedNonce: '0xabc' }).errors).toContain('Proof nonce mismatch');
+    });
+
+    it('should reject replayed proofs through the nonce cache', () => {
+        const cache = new NonceCache();
+        const proof = createProof(cache.issue());
+
+        expect(verifyPrePayment(proof, agentId, publicKey, undefined, { nonceCache: cache }).isValid).toBe(true);
+
+        const replay = verifyPrePayment(proof, agentId, publicKey, undefined, { nonceCache: cache });
+        expect(replay.isValid).toBe(false);
+        expect(replay.errors.some(e => e.includes('already used'))).toBe(true);
+
+        expect(verifyProof(createProof(), agentId, publicKey, { nonceCache: cache }).errors).toContain('Proof does not carry a nonce');
+    });
+
+    it('should not spend the nonce of an invalid proof', () => {
+        const cache = new NonceCache();
+        const nonce = cache.issue();
+        const proof = createProof(nonce);
+
+        expect(verifyProof(proof, '0xOther', publicKey, { nonceCache: cache }).isValid).toBe(false);
+        expect(cache.has(nonce)).toBe(true);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Verifier Nonce Cache
+ * Issues single-use challenges and rejects replayed proofs
+ * @module verification/nonce
+ */
+
+const DEFAULT_TTL_MS = 300000; // 5 minutes
+const DEFAULT_MAX_ENTRIES = 10000;
+const NONCE_BYTES = 16;
+
+export interface NonceCacheOptions {
+    /** How long an issued nonce remains acceptable */
+    ttlMs?: number;
+    /** Maximum outstanding nonces; the oldest are evicted first */
+    maxEntries?: number;
+}
+
+/**
+ * Tracks nonces issued by a verifier so each can be used exactly once
+ */
+export class NonceCache {
+    private readonly ttlMs: number;
+    private readonly maxEntries: number;
+    private readonly outstanding: Map<string, number> = new Map(); // nonce -> expiry (ms)
+
+    /**
+     * @param options - Expiry and capacity limits
+     */
+    constructor(options: NonceCacheOptions = {}) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        if (this.maxEntries < 1) {
+            throw new Error('maxEntries must be at least 1');
+        }
+    }
+
+    /**
+     * Issue a fresh challenge nonce to send to a prover
+     * @returns 0x-prefixed random hex nonce
+     */
+    issue(): string {
+        if (typeof crypto === 'undefined' || !crypto.getRandomValues) {
+            // SECURITY: Do not fall back to Math.random() - it is cryptographically insecure
+            throw new Error(
+                'Secure random number generator unavailable. ' +
+                'crypto.getRandomValues() is required for nonce generation.'
+            );
+        }
+        const bytes = new Uint8Array(NONCE_BYTES);
+        crypto.getRandomValues(bytes);
+        const nonce = '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+        this.purgeExpired();
+        while (this.outstanding.size >= this.maxEntries) {
+            const oldest = this.outstanding.keys().next().value as string;
+            this.outstanding.delete(oldest);
+        }
+        this.outstanding.set(nonce, Date.now() + this.ttlMs);
+        return nonce;
+    }
+
+    /**
+     * Check whether a nonce is outstanding without consuming it
+     * @param nonce - Nonce to check
+     */
+    has(nonce: string): boolean {
+        const expiry = this.outstanding.get(nonce);
+        return expiry !== undefined && expiry >= Date.now();
+    }
+
+    /**
+     * Consume a nonce; succeeds only once per issued, unexpired nonce
+     * @param nonce - Nonce presented by the prover
+     * @returns True if the nonce was outstanding and is now spent
+     */
+    consume(nonce: string): boolean {
+        const valid = this.has(nonce);
+        this.outstanding.delete(nonce);
+        return valid;
+    }
+
+    /**
+     * Number of outstanding (possibly expired) nonces
+     */
+    get size(): number {
+        return this.outstanding.size;
+    }
+
+    private purgeExpired(): void {
+        const now = Date.now();
+        for (const [nonce, expiry] of this.outstanding) {
+            if (expiry < now) {
+                this.outstanding.delete(nonce);
+            }
+        }
+    }
+}
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import { verifyPrePayment } from './patterns.js';
 import { CausalEventRegistry } from '../registry/registry.js';
 import { ProofGenerator } from '../proof/generator.js';
+import { NonceCache } from './nonce.js';
 import { generateKeyPair, sha3 } from '../crypto/index.js';
 
 describe('Verification Patterns', () => {
@@ -69,4 +70,35 @@ describe('Verification Patterns', () => {
         // Trust score now uses granular calculation (0.2 base + chain length + recency)
         expect(result.trustScore).toBeGreaterThan(0.4);
     });
+
+    it('should spend the nonce only once the semantic rules pass', () => {
+        const registry = new CausalEventRegistry(agentId);
+        const generator = new ProofGenerator(registry);
+        const nonceCache = new NonceCache();
+        const nonce = nonceCache.issue();
+
+        const event = registry.registerEvent({
+            agentId,
+            actionType: 'response',
+            payloadHash: sha3('p1'),
+            predecessorHash: null,
+            timestamp: Date.now()
+        });
+        const proof = generator.generateProof(event.causalEventId, privateKey, undefined, { nonce });
+
+        const failed = verifyPrePayment(proof, agentId, publicKey, { requestMustPrecedeResponse: true }, { nonceCache });
+        expect(failed.isValid).toBe(false);
+        expect(nonceCache.has(nonce)).toBe(true);
+
+        expect(verifyPrePayment(proof, agentId, publicKey, {}, { nonceCache }).isValid).toBe(true);
+        expect(nonceCache.has(nonce)).toBe(false);
+
+        const replay = verifyPrePayment(proof, agentId, publicKey, {}, { nonceCache });
+        expect(replay.isValid).toBe(false);
+        expect(replay.errors).toEqual(['Proof nonce was not issued by this verifier, has expired or was already used']);
+
+        const unchallenged = generator.generateProof(event.causalEventId, privateKey);
+        expect(verifyPrePayment(unchallenged, agentId, publicKey, {}, { nonceCache }).errors)
+            .toEqual(['Proof does not carry a nonce']);
+    });
 });
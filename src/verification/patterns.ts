@@ -5,7 +5,7 @@
  */
 
 import { CausalProof, VerificationResult, SemanticRules } from '../types/index.js';
-import { verifyProof } from './verifier.js';
+import { verifyProof, consumeProofNonce, VerifyProofOptions } from './verifier.js';
 import { SemanticRulesEngine } from './rules.js';
 
 /**
@@ -16,16 +16,21 @@ import { SemanticRulesEngine } from './rules.js';
  * @param agentId - The expected agent identity
  * @param publicKey - The agent's public key
  * @param rules - Semantic rules to enforce (optional)
+ * @param options - Nonce and legacy-signature options passed to verifyProof
  * @returns Comprehensive verification result
  */
 export function verifyPrePayment(
     proof: CausalProof,
     agentId: string,
     publicKey: string,
-    rules?: SemanticRules
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
 ): VerificationResult {
-    // 1. Basic Stateless Verification (Merkle + Signature + Integrity)
-    const result = verifyProof(proof, agentId, publicKey);
+    // 1. Basic Stateless Verification (Merkle + Signature + Integrity + Nonce match)
+    // The nonce is spent only after the rules pass, so a proof that breaks
+    // them does not burn the verifier's outstanding challenge
+    const { nonceCache, ...proofOptions } = options;
+    const result = verifyProof(proof, agentId, publicKey, proofOptions);
 
     if (!result.isValid) {
         return result;
@@ -46,6 +51,19 @@ export function verifyPrePayment(
         }
     }
 
+    // 3. Spend the nonce
+    if (nonceCache) {
+        const nonceError = consumeProofNonce(proof, nonceCache);
+        if (nonceError !== null) {
+            return {
+                isValid: false,
+                errors: [nonceError],
+                verifiedActions: result.verifiedActions,
+                trustScore: 0
+            };
+        }
+    }
+
     return result;
 }
 
@@ -56,9 +74,10 @@ export function verifyPostPayment(
     proof: CausalProof,
     agentId: string,
     publicKey: string,
-    rules?: SemanticRules
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
 ): VerificationResult {
     // For now, post-payment follows the same logic, but could include 
     // additional checks like settlement confirmation in the future.
-    return verifyPrePayment(proof, agentId, publicKey, rules);
+    return verifyPrePayment(proof, agentId, publicKey, rules, options);
 }
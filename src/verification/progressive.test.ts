@@ -8,11 +8,14 @@ import {
     ProofGenerator,
     generateKeyPair,
     sha3,
-    ProgressiveVerifier
+    ProgressiveVerifier,
+    commitToFullProof,
+    verifyLightProof,
+    verifyLightFullBinding
 } from '../index.js';
 
 describe('Progressive Verification', () => {
-    it('should grant immediate trust for valid light proofs', async () => {
+    it('should grant immediate trust to unsigned light proofs only when allowed', async () => {
         const { privateKey } = generateKeyPair();
         const agentId = '0xAgent';
         const registry = new CausalEventRegistry(agentId);
@@ -43,7 +46,15 @@ describe('Progressive Verification', () => {
 
         const verifier = new ProgressiveVerifier();
 
-        const result = await verifier.verify({ light: lightProof, full: fullProof }, { agentId });
+        const denied = await verifier.verify({ light: lightProof, full: fullProof }, { agentId });
+        expect(denied.canProceed).toBe(false);
+        expect(denied.reason).toBe('light_verification_failed');
+
+        const result = await verifier.verify(
+            { light: lightProof, full: fullProof },
+            { agentId },
+            { allowUnsignedLightProof: true }
+        );
 
         expect(result.canProceed).toBe(true);
         expect(result.immediateTrust).toBe(0.7);
@@ -60,7 +71,7 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId }, { isHighValue: true, minDepth: 1 });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { isHighValue: true, minDepth: 1, allowUnsignedLightProof: true });
 
         expect(result.canProceed).toBe(false);
         expect(result.reason).toBe('high_value_requires_full_verification');
@@ -76,7 +87,7 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { allowUnsignedLightProof: true });
 
         expect(result.canProceed).toBe(false);
         expect(result.reason).toBe('light_verification_failed');
@@ -95,7 +106,7 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 2 });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 2, allowUnsignedLightProof: true });
         expect(result.canProceed).toBe(false);
     });
 
@@ -112,7 +123,7 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 2 });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 2, allowUnsignedLightProof: true });
         expect(result.canProceed).toBe(false);
     });
 
@@ -148,7 +159,7 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { allowUnsignedLightProof: true });
         expect(result.canProceed).toBe(false);
     });
 
@@ -162,7 +173,115 @@ describe('Progressive Verification', () => {
         };
 
         const verifier = new ProgressiveVerifier();
-        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 1 });
+        const result = await verifier.verify({ light: lightProof }, { agentId }, { minDepth: 1, allowUnsignedLightProof: true });
         expect(result.canProceed).toBe(false);
     });
+
+    describe('light/full binding', () => {
+        const agentId = '0xAgent';
+        const { privateKey, publicKey } = generateKeyPair();
+
+        const setup = () => {
+            const registry = new CausalEventRegistry(agentId);
+            for (let i = 0; i < 3; i++) {
+                registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3(i.toString()), predecessorHash: registry.getLastEventHash(), timestamp: Date.now() });
+            }
+            const events = registry.export().events;
+            return { generator: new ProofGenerator(registry), events };
+        };
+
+        it('should accept a signed, bound proof package', async () => {
+            const { generator, events } = setup();
+            const pkg = generator.generateProofPackage(events[2]!.causalEventId, privateKey);
+
+            expect(pkg.light.fullProofCommitment).toBe(commitToFullProof(pkg.full!));
+            expect(verifyLightFullBinding(pkg.light, pkg.full!).valid).toBe(true);
+
+            const result = await new ProgressiveVerifier().verify(pkg, { agentId, publicKey });
+            expect(result.canProceed).toBe(true);
+            expect(result.fraud).toBeUndefined();
+        });
+
+        it('should reject unsigned or tampered light proofs by default', async () => {
+            const { generator, events } = setup();
+            const pkg = generator.generateProofPackage(events[2]!.causalEventId, privateKey);
+            const verifier = new ProgressiveVerifier();
+            const allowUnsigned = { allowUnsignedLightProof: true };
+
+            const unsigned = { ...pkg.light, agentSignature: undefined };
+            expect((await verifier.verify({ light: unsigned }, { agentId, publicKey })).canProceed).toBe(false);
+            expect((await verifier.verify({ light: unsigned }, { agentId, publicKey }, allowUnsigned)).canProceed).toBe(true);
+
+            // A signature that is present is checked even when unsigned proofs are allowed
+            const tampered = { ...pkg.light, timestamp: pkg.light.timestamp + 1 };
+            expect((await verifier.verify({ light: tampered }, { agentId, publicKey })).canProceed).toBe(false);
+            expect((await verifier.verify({ light: tampered }, { agentId, publicKey }, allowUnsigned)).canProceed).toBe(false);
+
+            expect((await verifier.verify({ light: pkg.light }, { agentId })).canProceed).toBe(false);
+            expect((await verifier.verify({ light: pkg.light }, { agentId }, allowUnsigned)).canProceed).toBe(true);
+            expect(verifyLightProof(generator.generateLightProof(events[2]!.causalEventId, 3, privateKey), agentId, { publicKey })).toBe(true);
+        });
+
+        it('should report fraud when the light proof targets another event', async () => {
+            const { generator, events } = setup();
+            const light = generator.generateLightProof(events[2]!.causalEventId, 3, privateKey);
+            const full = generator.generateProof(events[1]!.causalEventId, privateKey);
+
+            const result = await new ProgressiveVerifier().verify({ light, full }, { agentId, publicKey });
+            expect(result.canProceed).toBe(false);
+            expect(result.reason).toBe('light_full_proof_mismatch');
+            expect(result.immediateTrust).toBe(0.0);
+            expect(result.fraud!.targetEventHash).toBe(events[2]!.eventHash);
+            expect(result.fraud!.reasons.some(r => r.includes('does not match full proof target'))).toBe(true);
+
+            const fullResult = await result.fullResult!;
+            expect(fullResult.isValid).toBe(false);
+            expect(fullResult.trustScore).toBe(0.0);
+        });
+
+        it('should not blame the agent for light proofs it did not sign', async () => {
+            const { generator, events } = setup();
+            const full = generator.generateProof(events[1]!.causalEventId, privateKey);
+            const verifier = new ProgressiveVerifier();
+
+            const forgeries = [
+                generator.generateLightProof(events[2]!.causalEventId),
+                generator.generateLightProof(events[2]!.causalEventId, 3, generateKeyPair().privateKey)
+            ];
+            for (const light of forgeries) {
+                const result = await verifier.verify({ light, full }, { agentId, publicKey }, { allowUnsignedLightProof: true });
+                expect(result.canProceed).toBe(false);
+                expect(result.reason).toBe('light_verification_failed');
+                expect(result.fraud).toBeUndefined();
+                expect((await result.fullResult!).isValid).toBe(false);
+            }
+
+            // Nor when the full proof does not verify
+            const light = generator.generateLightProof(events[2]!.causalEventId, 3, privateKey);
+            const forgedFull = { ...full, agentSignature: full.agentSignature.replace(/.$/, c => (c === '0' ? '1' : '0')) };
+            const result = await verifier.verify({ light, full: forgedFull }, { agentId, publicKey });
+            expect(result.reason).toBe('light_verification_failed');
+            expect(result.fraud).toBeUndefined();
+        });
+
+        it('should report fraud when the full proof is swapped after commitment', async () => {
+            const { generator, events } = setup();
+            const pkg = generator.generateProofPackage(events[2]!.causalEventId, privateKey);
+            const swapped = generator.generateProof(events[2]!.causalEventId, privateKey);
+
+            const result = await new ProgressiveVerifier().verify({ light: pkg.light, full: swapped }, { agentId, publicKey });
+            expect(result.reason).toBe('light_full_proof_mismatch');
+            expect(result.fraud!.reasons).toContain('Light proof commitment does not match the full proof');
+        });
+
+        it('should detect diverging chains', () => {
+            const { generator, events } = setup();
+            const pkg = generator.generateProofPackage(events[2]!.causalEventId, privateKey);
+            const light = { ...pkg.light, fullProofCommitment: undefined, causalChain: pkg.light.causalChain.map((el, i) => (i === 0 ? { ...el, eventHash: sha3('x') } : el)) };
+            const binding = verifyLightFullBinding(light, pkg.full!);
+            expect(binding.valid).toBe(false);
+            expect(binding.errors[0]).toContain('diverges');
+        });
+    });
 });
+
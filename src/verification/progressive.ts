@@ -5,13 +5,13 @@
  */
 
 import {
-    LightProof,
-    CausalProof,
+    ProofPackage,
     ProgressiveResult,
-    VerificationResult
+    VerificationResult,
+    FraudReport
 } from '../types/index.js';
 import { verifyProof } from './verifier.js';
-import { verifyLightProof } from './light-proof.js';
+import { verifyLightProof, verifyLightProofSignature, verifyLightFullBinding } from './light-proof.js';
 
 export interface ProgressiveOptions {
     /** Whether to automatically trigger full verification in the background */
@@ -22,6 +22,12 @@ export interface ProgressiveOptions {
     minDepth?: number;
     /** Max age for light trust */
     maxAgeMs?: number;
+    /**
+     * Grant immediate trust to light proofs that carry no agent signature, or
+     * when no public key is known (default: false). A signature that is
+     * present is always checked when context.publicKey is supplied
+     */
+    allowUnsignedLightProof?: boolean;
 }
 
 /**
@@ -35,7 +41,7 @@ export class ProgressiveVerifier {
      * @param options - Progressive options
      */
     async verify(
-        proofPackage: { light: LightProof; full?: CausalProof },
+        proofPackage: ProofPackage,
         context: { agentId: string; publicKey?: string },
         options: ProgressiveOptions = {}
     ): Promise<ProgressiveResult> {
@@ -43,13 +49,37 @@ export class ProgressiveVerifier {
         const autoVerifyFull = options.autoVerifyFull ?? true;
         const isHighValue = options.isHighValue ?? false;
 
-        // 1. Immediate Light Verification
-        const immediateValid = verifyLightProof(light, context.agentId, {
-            minDepth: options.minDepth,
-            maxAgeMs: options.maxAgeMs
-        });
+        // 1. Immediate Light Verification (metadata, then the agent signature)
+        const signatureChecked = context.publicKey !== undefined && light.agentSignature !== undefined;
+        const lightSigned = signatureChecked && verifyLightProofSignature(light, context.publicKey!);
+        const immediateValid =
+            verifyLightProof(light, context.agentId, { minDepth: options.minDepth, maxAgeMs: options.maxAgeMs }) &&
+            (lightSigned || (!signatureChecked && (options.allowUnsignedLightProof ?? false)));
+
+        // 1b. Light/full binding: a mismatch is fraud only when the agent signed
+        // both proofs; anyone can make up an unsigned light proof
+        let mismatch: string[] = [];
+        let fullVerification: VerificationResult | undefined;
+        let fraud: FraudReport | undefined;
+        if (full) {
+            const binding = verifyLightFullBinding(light, full);
+            if (!binding.valid) {
+                mismatch = binding.errors;
+                if (lightSigned) {
+                    fullVerification = verifyProof(full, context.agentId, context.publicKey!);
+                    if (fullVerification.isValid) {
+                        fraud = {
+                            agentId: light.agentId,
+                            targetEventHash: light.targetEventHash,
+                            reasons: binding.errors,
+                            detectedAt: Date.now()
+                        };
+                    }
+                }
+            }
+        }
 
-        const canProceedImmediately = immediateValid && !isHighValue;
+        const canProceedImmediately = immediateValid && !isHighValue && mismatch.length === 0;
 
         // 2. Setup Deferred Full Verification
         let fullResult: Promise<VerificationResult> | undefined;
@@ -60,20 +90,37 @@ export class ProgressiveVerifier {
             // Offload to next event loop tick to ensure immediate return is truly fast
             fullResult = new Promise((resolve) => {
                 setTimeout(() => {
-                    const result = verifyProof(full!, context.agentId, context.publicKey!);
+                    const result = fullVerification ?? verifyProof(full!, context.agentId, context.publicKey!);
+                    if (mismatch.length > 0) {
+                        resolve({
+                            isValid: false,
+                            errors: [...result.errors, ...mismatch],
+                            verifiedActions: result.verifiedActions,
+                            trustScore: 0.0
+                        });
+                        return;
+                    }
                     resolve(result);
                 }, 0);
             });
         }
 
+        let reason: string;
+        if (fraud) {
+            reason = 'light_full_proof_mismatch';
+        } else if (!immediateValid || mismatch.length > 0) {
+            reason = 'light_verification_failed';
+        } else {
+            reason = isHighValue ? 'high_value_requires_full_verification' : 'immediate_trust_granted';
+        }
+
         return {
             canProceed: canProceedImmediately,
-            reason: immediateValid
-                ? (isHighValue ? 'high_value_requires_full_verification' : 'immediate_trust_granted')
-                : 'light_verification_failed',
-            immediateTrust: immediateValid ? 0.7 : 0.0, // Baseline trust for light proof
+            reason,
+            immediateTrust: immediateValid && mismatch.length === 0 ? 0.7 : 0.0, // Baseline trust for light proof
             deferredStatus,
-            fullResult
+            fullResult,
+            fraud
         };
     }
 }
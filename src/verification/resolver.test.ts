@@ -0,0 +1,106 @@
+/**
+ * Resolver-Based Verification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    verifyProofWithResolver,
+    verifyPrePaymentWithResolver,
+    getProofSigningTime
+} from './resolver.js';
+import { NonceCache } from './nonce.js';
+import { MemoryKeyResolver } from '../identity/memory.js';
+import { CausalEventRegistry } from '../registry/registry.js';
+import { ProofGenerator } from '../proof/generator.js';
+import { signTreeHead } from '../proof/tree-head.js';
+import { generateKeyPair, sha3 } from '../crypto/index.js';
+
+describe('Resolver-Based Verification', () => {
+    const agentId = '0xAgent';
+    const oldPair = generateKeyPair();
+    const newPair = generateKeyPair();
+
+    function makeProof(privateKey: string, nonce?: string) {
+        const registry = new CausalEventRegistry(agentId);
+        const event = registry.registerEvent({
+            agentId,
+            actionType: 'request',
+            payloadHash: sha3('payload'),
+            predecessorHash: null,
+            timestamp: Date.now()
+        });
+        return new ProofGenerator(registry).generateProof(event.causalEventId, privateKey, 10, { nonce });
+    }
+
+    it('should accept a proof signed by any key valid at signing time', async () => {
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [{ publicKey: oldPair.publicKey }, { publicKey: newPair.publicKey }]
+        });
+
+        expect((await verifyProofWithResolver(makeProof(oldPair.privateKey), agentId, resolver)).isValid).toBe(true);
+        expect((await verifyProofWithResolver(makeProof(newPair.privateKey), agentId, resolver)).isValid).toBe(true);
+    });
+
+    it('should reject proofs signed with a key outside its validity window', async () => {
+        const proof = makeProof(oldPair.privateKey);
+        const signedAt = getProofSigningTime(proof);
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [
+                { publicKey: oldPair.publicKey, validUntil: signedAt },
+                { publicKey: newPair.publicKey, validFrom: signedAt }
+            ]
+        });
+
+        const result = await verifyProofWithResolver(proof, agentId, resolver);
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('Agent signature verification failed');
+    });
+
+    it('should reject an expired key signing a proof backdated into its window', async () => {
+        const expiredAt = Date.now() - 60_000;
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [{ publicKey: oldPair.publicKey, validFrom: expiredAt - 60_000, validUntil: expiredAt }]
+        });
+
+        const proof = makeProof(oldPair.privateKey);
+        const backdated = { ...proof.signedTreeHead!, issuedAt: expiredAt - 1000 };
+        proof.signedTreeHead = backdated;
+        proof.agentSignature = signTreeHead(backdated, oldPair.privateKey);
+        expect(getProofSigningTime(proof)).toBe(expiredAt - 1000);
+
+        const result = await verifyProofWithResolver(proof, agentId, resolver);
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatch(/No key registered for agent 0xAgent valid at/);
+    });
+
+    it('should report agents without valid keys', async () => {
+        const result = await verifyProofWithResolver(makeProof(oldPair.privateKey), agentId, new MemoryKeyResolver());
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatch(/No key registered for agent 0xAgent/);
+    });
+
+    it('should not spend the nonce on keys that do not match', async () => {
+        const nonceCache = new NonceCache();
+        const nonce = nonceCache.issue();
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [{ publicKey: oldPair.publicKey }, { publicKey: newPair.publicKey }]
+        });
+
+        const result = await verifyPrePaymentWithResolver(makeProof(newPair.privateKey, nonce), agentId, resolver, undefined, {
+            nonceCache
+        });
+        expect(result.isValid).toBe(true);
+        expect(nonceCache.has(nonce)).toBe(false);
+    });
+
+    it('should return semantic failures of the signing key without trying others', async () => {
+        const resolver = new MemoryKeyResolver({
+            [agentId]: [{ publicKey: oldPair.publicKey }, { publicKey: newPair.publicKey }]
+        });
+        const result = await verifyPrePaymentWithResolver(makeProof(oldPair.privateKey), agentId, resolver, {
+            minVerificationDepth: 5
+        });
+        expect(result.isValid).toBe(false);
+        expect(result.errors).not.toContain('Agent signature verification failed');
+    });
+});
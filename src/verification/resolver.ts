@@ -0,0 +1,189 @@
+/**
+ * Resolver-Based Verification
+ * Verifies proofs against the keys a KeyResolver holds for the agent
+ * @module verification/resolver
+ */
+
+import { CausalProof, VerificationResult, SemanticRules } from '../types/index.js';
+import type { KeyResolver } from '../identity/resolver.js';
+import { isKeyValidAt, resolveValidKeys } from '../identity/resolver.js';
+import { DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
+import type { KeyHistory } from '../identity/rotation.js';
+import { verifyProof, VerifyProofOptions } from './verifier.js';
+import { verifyPrePayment, verifyPostPayment } from './patterns.js';
+
+const SIGNATURE_ERROR = 'Agent signature verification failed';
+
+/**
+ * Moment a proof claims to have been signed
+ * The signed tree head's issue time, falling back to the target event timestamp
+ * @param proof - Proof to date
+ * @returns Unix epoch milliseconds
+ */
+export function getProofSigningTime(proof: CausalProof): number {
+    return proof.signedTreeHead?.issuedAt ?? proof.targetEvent.timestamp;
+}
+
+/**
+ * Verify a proof with the agent's keys from a resolver
+ * @param proof - The proof to verify
+ * @param agentId - The agent ID that should have signed the proof
+ * @param resolver - Source of the agent's keys
+ * @param options - Additional verification options
+ * @returns Verification result for the key that signed the proof
+ */
+export function verifyProofWithResolver(
+    proof: CausalProof,
+    agentId: string,
+    resolver: KeyResolver,
+    options: VerifyProofOptions = {}
+): Promise<VerificationResult> {
+    return verifyWithResolvedKeys(proof, agentId, resolver, key => verifyProof(proof, agentId, key, options));
+}
+
+/**
+ * verifyPrePayment with the agent's keys from a resolver
+ * @param proof - The proof received in the X-Causal-Proof header
+ * @param agentId - The expected agent identity
+ * @param resolver - Source of the agent's keys
+ * @param rules - Semantic rules to enforce (optional)
+ * @param options - Nonce and legacy-signature options passed to verifyProof
+ * @returns Comprehensive verification result
+ */
+export function verifyPrePaymentWithResolver(
+    proof: CausalProof,
+    agentId: string,
+    resolver: KeyResolver,
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
+): Promise<VerificationResult> {
+    return verifyWithResolvedKeys(proof, agentId, resolver, key =>
+        verifyPrePayment(proof, agentId, key, rules, options)
+    );
+}
+
+/**
+ * verifyPostPayment with the agent's keys from a resolver
+ */
+export function verifyPostPaymentWithResolver(
+    proof: CausalProof,
+    agentId: string,
+    resolver: KeyResolver,
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
+): Promise<VerificationResult> {
+    return verifyWithResolvedKeys(proof, agentId, resolver, key =>
+        verifyPostPayment(proof, agentId, key, rules, options)
+    );
+}
+
+/**
+ * Verify a proof with the key its agent's key history assigns to the proof's tree size
+ * Proofs signed before a rotation stay valid; proofs signed with a revoked key are rejected
+ * @param proof - The proof to verify
+ * @param agentId - The agent ID that should have signed the proof
+ * @param history - Key history replayed from the agent's key records
+ * @param options - Additional verification options
+ * @returns Verification result
+ */
+export function verifyProofWithKeyHistory(
+    proof: CausalProof,
+    agentId: string,
+    history: KeyHistory,
+    options: VerifyProofOptions = {}
+): VerificationResult {
+    return verifyWithHistoryKey(proof, agentId, history, key => verifyProof(proof, agentId, key, options));
+}
+
+/**
+ * verifyPrePayment with the key its agent's key history assigns to the proof's tree size
+ * @param proof - The proof received in the X-Causal-Proof header
+ * @param agentId - The expected agent identity
+ * @param history - Key history replayed from the agent's key records
+ * @param rules - Semantic rules to enforce (optional)
+ * @param options - Nonce and legacy-signature options passed to verifyProof
+ * @returns Comprehensive verification result
+ */
+export function verifyPrePaymentWithKeyHistory(
+    proof: CausalProof,
+    agentId: string,
+    history: KeyHistory,
+    rules?: SemanticRules,
+    options: VerifyProofOptions = {}
+): VerificationResult {
+    return verifyWithHistoryKey(proof, agentId, history, key =>
+        verifyPrePayment(proof, agentId, key, rules, options)
+    );
+}
+
+function verifyWithHistoryKey(
+    proof: CausalProof,
+    agentId: string,
+    history: KeyHistory,
+    verify: (publicKey: string) => VerificationResult
+): VerificationResult {
+    const fail = (error: string): VerificationResult => ({
+        isValid: false,
+        errors: [error],
+        verifiedActions: 0,
+        trustScore: 0
+    });
+
+    if (history.getAgentId() !== agentId) {
+        return fail(`Key history belongs to ${history.getAgentId()}, not ${agentId}`);
+    }
+    const scheme = proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME;
+    if (scheme !== history.getScheme()) {
+        return fail(`Key history holds ${history.getScheme()} keys, but the proof is signed with ${scheme}`);
+    }
+    const treeSize = proof.signedTreeHead?.treeSize ?? proof.treeSize;
+    if (treeSize === undefined) {
+        return fail('Proof does not state its tree size');
+    }
+    const publicKey = history.getKeyAt(treeSize);
+    if (publicKey === null) {
+        return fail(`No unrevoked key for agent ${agentId} at tree size ${treeSize}`);
+    }
+    return verify(publicKey);
+}
+
+/**
+ * Try every key valid both at signing time and now, of the scheme the proof
+ * names, until one matches the signature
+ * The signer chooses the signing time, so checking it alone would let an
+ * expired or compromised key backdate its proofs into its old window.
+ * Once a key's signature checks out its result is final, so semantic or
+ * nonce failures are not retried against other keys
+ */
+async function verifyWithResolvedKeys(
+    proof: CausalProof,
+    agentId: string,
+    resolver: KeyResolver,
+    verify: (publicKey: string) => VerificationResult
+): Promise<VerificationResult> {
+    const signedAt = getProofSigningTime(proof);
+    const now = Date.now();
+    const scheme = proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME;
+    const keys = (await resolveValidKeys(resolver, agentId, signedAt))
+        .filter(key => isKeyValidAt(key, now))
+        .filter(key => (key.scheme ?? DEFAULT_SIGNATURE_SCHEME) === scheme);
+
+    if (keys.length === 0) {
+        return {
+            isValid: false,
+            errors: [`No key registered for agent ${agentId} valid at ${signedAt} and at ${now} for ${scheme} signatures`],
+            verifiedActions: 0,
+            trustScore: 0
+        };
+    }
+
+    let firstFailure: VerificationResult | null = null;
+    for (const key of keys) {
+        const result = verify(key.publicKey);
+        if (result.isValid || !result.errors.includes(SIGNATURE_ERROR)) {
+            return result;
+        }
+        firstFailure ??= result;
+    }
+    return firstFailure as VerificationResult;
+}
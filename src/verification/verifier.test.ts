@@ -3,11 +3,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { verifyProof, verifyCausalChain, verifyMerkleInclusion } from './verifier.js';
+import { verifyProof, verifyCausalChain, verifyChainEvents, verifyMerkleInclusion } from './verifier.js';
 import { verifyPrePayment, verifyPostPayment } from './patterns.js';
 import { CausalEventRegistry } from '../registry/registry.js';
 import { ProofGenerator } from '../proof/generator.js';
-import { generateKeyPair, sha3 } from '../crypto/index.js';
+import { generateKeyPair, sha3, sign } from '../crypto/index.js';
 import { CausalProof } from '../types/index.js';
 
 describe('Stateless Verification', () => {
@@ -57,6 +57,61 @@ describe('Stateless Verification', () => {
             expect(result.errors).toContain('Merkle inclusion proof verification failed');
         });
 
+        it('should authenticate positionInTree with tree format 2', () => {
+            const registry = new CausalEventRegistry(agentId, { treeVersion: 2 });
+            const generator = new ProofGenerator(registry);
+            const e1 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p1'), predecessorHash: null, timestamp: Date.now() });
+            const e2 = registry.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('p2'), predecessorHash: e1.eventHash, timestamp: Date.now() });
+            registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p3'), predecessorHash: e2.eventHash, timestamp: Date.now() });
+
+            const proof = generator.generateProof(e2.causalEventId, privateKey);
+            expect(proof.treeVersion).toBe(2);
+            expect(proof.treeSize).toBe(3);
+            expect(verifyProof(proof, agentId, publicKey).isValid).toBe(true);
+
+            const moved = { ...proof, targetEvent: { ...proof.targetEvent, positionInTree: 0 } };
+            expect(verifyProof(moved, agentId, publicKey).errors).toContain('Merkle inclusion proof verification failed');
+        });
+
+        it('should reject a signed tree head replayed for another agent or size', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const generator = new ProofGenerator(registry);
+            const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p1'), predecessorHash: null, timestamp: Date.now() });
+            const proof = generator.generateProof(event.causalEventId, privateKey);
+
+            const otherAgent = { ...proof, signedTreeHead: { ...proof.signedTreeHead!, agentId: '0xOther' } };
+            const otherResult = verifyProof(otherAgent, agentId, publicKey);
+            expect(otherResult.errors).toContain('Agent signature verification failed');
+            expect(otherResult.errors.some(e => e.includes('Signed tree head agent mismatch'))).toBe(true);
+
+            const resized = { ...proof, treeSize: 5 };
+            expect(verifyProof(resized, agentId, publicKey).errors.some(e => e.includes('Signed tree head size mismatch'))).toBe(true);
+
+            const otherRoot = { ...proof, treeRootHash: sha3('other') };
+            expect(verifyProof(otherRoot, agentId, publicKey).errors).toContain('Signed tree head root does not match proof tree root');
+
+            const otherFormat = { ...proof, treeVersion: 2 as const };
+            expect(verifyProof(otherFormat, agentId, publicKey).errors.some(e => e.includes('Signed tree head format mismatch'))).toBe(true);
+
+            const outside = { ...proof, targetEvent: { ...proof.targetEvent, positionInTree: 1 } };
+            expect(verifyProof(outside, agentId, publicKey).errors.some(e => e.includes('outside signed tree size'))).toBe(true);
+        });
+
+        it('should only accept legacy root signatures when allowed', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const generator = new ProofGenerator(registry);
+            const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p1'), predecessorHash: null, timestamp: Date.now() });
+            const { signedTreeHead, ...rest } = generator.generateProof(event.causalEventId, privateKey);
+            const legacy: CausalProof = { ...rest, agentSignature: sign(rest.treeRootHash, privateKey) };
+
+            expect(signedTreeHead).toBeDefined();
+            expect(verifyProof(legacy, agentId, publicKey).errors).toContain('Missing signed tree head');
+            expect(verifyProof(legacy, agentId, publicKey, { allowUnsignedTreeHead: true }).isValid).toBe(true);
+
+            legacy.agentSignature = '0x' + '0'.repeat(128);
+            expect(verifyProof(legacy, agentId, publicKey, { allowUnsignedTreeHead: true }).isValid).toBe(false);
+        });
+
         it('should reject proof with empty causal chain', () => {
             const registry = new CausalEventRegistry(agentId);
             const generator = new ProofGenerator(registry);
@@ -112,6 +167,61 @@ describe('Stateless Verification', () => {
         });
     });
 
+    describe('verifyChainEvents', () => {
+        const buildProof = (treeVersion: 1 | 2) => {
+            const registry = new CausalEventRegistry(agentId, { treeVersion });
+            const generator = new ProofGenerator(registry);
+            const e1 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p1'), predecessorHash: null, timestamp: Date.now() });
+            const e2 = registry.registerEvent({ agentId, actionType: 'response', payloadHash: sha3('p2'), predecessorHash: e1.eventHash, timestamp: Date.now() });
+            const e3 = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p3'), predecessorHash: e2.eventHash, timestamp: Date.now() });
+            return generator.generateProof(e3.causalEventId, privateKey, undefined, {
+                includeEventData: true,
+                includeInclusionProofs: true
+            });
+        };
+
+        it('should accept chains with full event data and inclusion paths', () => {
+            for (const version of [1, 2] as const) {
+                const proof = buildProof(version);
+                expect(proof.causalChain[0]).toMatchObject({ agentId, payloadHash: sha3('p1'), positionInTree: 0 });
+                expect(verifyChainEvents(proof, { requireEventData: true, requireInclusion: true })).toEqual({ valid: true, errors: [] });
+                expect(verifyProof(proof, agentId, publicKey, { requireChainEventData: true, requireChainInclusion: true }).isValid).toBe(true);
+            }
+        });
+
+        it('should detect fabricated predecessor action types and timestamps', () => {
+            const proof = buildProof(2);
+            proof.causalChain[1]!.actionType = 'error';
+            proof.causalChain[0]!.timestamp -= 1;
+            const result = verifyProof(proof, agentId, publicKey);
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain(`Chain event hash integrity check failed at index 0: ${proof.causalChain[0]!.eventHash}`);
+            expect(result.errors).toContain(`Chain event hash integrity check failed at index 1: ${proof.causalChain[1]!.eventHash}`);
+        });
+
+        it('should detect chain events outside the signed tree', () => {
+            const proof = buildProof(2);
+            proof.causalChain[0]!.positionInTree = 1;
+            expect(verifyChainEvents(proof).errors).toEqual(['Merkle inclusion proof verification failed for chain event at index 0']);
+
+            const other = buildProof(1);
+            other.causalChain[1]!.proofPath = proof.causalChain[1]!.proofPath;
+            expect(verifyChainEvents(other).valid).toBe(false);
+        });
+
+        it('should require event data and inclusion paths only when asked', () => {
+            const registry = new CausalEventRegistry(agentId);
+            const event = registry.registerEvent({ agentId, actionType: 'request', payloadHash: sha3('p1'), predecessorHash: null, timestamp: Date.now() });
+            const proof = new ProofGenerator(registry).generateProof(event.causalEventId, privateKey);
+
+            expect(verifyChainEvents(proof).valid).toBe(true);
+            expect(verifyChainEvents(proof, { requireEventData: true, requireInclusion: true }).errors).toEqual([
+                'Chain event at index 0 does not carry its event data',
+                'Chain event at index 0 does not carry an inclusion proof'
+            ]);
+        });
+    });
+
     describe('verifyMerkleInclusion', () => {
         it('should verify directly', () => {
             const registry = new CausalEventRegistry(agentId);
@@ -8,23 +8,53 @@ import {
     CausalProof,
     VerificationResult,
     ProofPathElement,
-    CausalChainElement
+    CausalChainElement,
+    ConsistencyProof
 } from '../types/index.js';
-import { verify as verifySignature } from '../crypto/ecdsa.js';
+import { getSignatureScheme, isSignatureSchemeId, DEFAULT_SIGNATURE_SCHEME } from '../crypto/signature.js';
 import { MerkleTree } from '../merkle/tree.js';
+import type { InclusionOptions } from '../merkle/tree.js';
 import { sha3Concat } from '../crypto/sha3.js';
+import { hashEventInput } from '../registry/registry.js';
+import { verifyTreeHeadSignature } from '../proof/tree-head.js';
+import { verifyProofDisclosures } from './disclosure.js';
+import type { NonceCache } from './nonce.js';
+
+/**
+ * Options for full proof verification
+ */
+export interface VerifyProofOptions {
+    /**
+     * Accept legacy proofs without a signed tree head, whose signature covers
+     * only the bare tree root (replayable across agents and trees; default: false)
+     */
+    allowUnsignedTreeHead?: boolean;
+    /** Challenge the verifier issued for this request; the signed tree head must carry it */
+    expectedNonce?: string;
+    /**
+     * Cache of nonces issued by this verifier; the proof's nonce is consumed
+     * once the proof is otherwise valid, so a replayed proof is rejected
+     */
+    nonceCache?: NonceCache;
+    /** Require agentId and payloadHash on every chain element (default: false) */
+    requireChainEventData?: boolean;
+    /** Require a Merkle inclusion path on every chain element (default: false) */
+    requireChainInclusion?: boolean;
+}
 
 /**
  * Verify a complete causal proof
  * @param proof - The proof to verify
  * @param expectedAgentId - The agent ID that should have signed the proof
  * @param expectedPublicKey - The public key corresponding to the agent ID
+ * @param options - Additional verification options
  * @returns Verification result with details
  */
 export function verifyProof(
     proof: CausalProof,
     expectedAgentId: string,
-    expectedPublicKey: string
+    expectedPublicKey: string,
+    options: VerifyProofOptions = {}
 ): VerificationResult {
     const errors: string[] = [];
     let verifiedActions = 0;
@@ -34,24 +64,46 @@ export function verifyProof(
         errors.push(`Agent ID mismatch: expected ${expectedAgentId}, got ${proof.targetEvent.agentId}`);
     }
 
-    // 2. Verify Merkle Inclusion Proof
+    // 2. Verify Merkle Inclusion Proof (format 2 also binds positionInTree)
     const isIncluded = MerkleTree.verifyProof(
         proof.targetEvent.eventHash,
         proof.proofPath,
-        proof.treeRootHash
+        proof.treeRootHash,
+        {
+            version: proof.treeVersion ?? 1,
+            leafIndex: proof.targetEvent.positionInTree,
+            treeSize: proof.treeSize ?? proof.signedTreeHead?.treeSize
+        }
     );
     if (!isIncluded) {
         errors.push('Merkle inclusion proof verification failed');
     }
 
-    // 3. Verify Agent Signature
-    const isSignatureValid = verifySignature(
-        proof.treeRootHash,
-        proof.agentSignature,
-        expectedPublicKey
-    );
-    if (!isSignatureValid) {
-        errors.push('Agent signature verification failed');
+    // 3. Verify Agent Signature over the signed tree head, with the scheme the proof names
+    const head = proof.signedTreeHead;
+    const scheme = proof.signatureScheme ?? DEFAULT_SIGNATURE_SCHEME;
+    if (!isSignatureSchemeId(scheme)) {
+        errors.push(`Unsupported signature scheme: ${String(scheme)}`);
+    } else if (head) {
+        errors.push(...checkTreeHead(proof, expectedAgentId));
+        if (!verifyTreeHeadSignature(head, proof.agentSignature, expectedPublicKey, scheme)) {
+            errors.push('Agent signature verification failed');
+        }
+    } else if (options.allowUnsignedTreeHead) {
+        if (!getSignatureScheme(scheme).verify(proof.treeRootHash, proof.agentSignature, expectedPublicKey)) {
+            errors.push('Agent signature verification failed');
+        }
+    } else {
+        errors.push('Missing signed tree head');
+    }
+
+    // 3b. Verify the proof answers this verifier's challenge
+    const nonce = head?.nonce;
+    if (options.expectedNonce !== undefined && nonce !== options.expectedNonce) {
+        errors.push('Proof nonce mismatch');
+    }
+    if (options.nonceCache && nonce === undefined) {
+        errors.push('Proof does not carry a nonce');
     }
 
     // 4. Verify target event hash matches its content
@@ -74,6 +126,25 @@ export function verifyProof(
         verifiedActions = proof.causalChain.length;
     }
 
+    // 5b. Recompute chain event hashes and check their inclusion where the proof allows it
+    errors.push(...verifyChainEvents(proof, {
+        requireEventData: options.requireChainEventData,
+        requireInclusion: options.requireChainInclusion
+    }).errors);
+
+    // 5c. Attached payload disclosures must open the events they name
+    if (proof.disclosures !== undefined) {
+        errors.push(...verifyProofDisclosures(proof).errors);
+    }
+
+    // 6. Spend the nonce last, so invalid proofs cannot burn outstanding challenges
+    if (options.nonceCache && nonce !== undefined && errors.length === 0) {
+        const nonceError = consumeProofNonce(proof, options.nonceCache);
+        if (nonceError !== null) {
+            errors.push(nonceError);
+        }
+    }
+
     const isValid = errors.length === 0;
 
     // HIGH-003: Granular trust scoring based on multiple factors
@@ -91,6 +162,54 @@ export function verifyProof(
     };
 }
 
+/**
+ * Spend the nonce a proof's signed tree head carries
+ * For callers that run further checks after verifyProof: verify without the
+ * cache, then consume once every check has passed
+ * @param proof - Proof answering one of the verifier's challenges
+ * @param nonceCache - Cache the nonce was issued from
+ * @returns Error message, or null if the nonce was outstanding and is now used
+ */
+export function consumeProofNonce(proof: CausalProof, nonceCache: NonceCache): string | null {
+    const nonce = proof.signedTreeHead?.nonce;
+    if (nonce === undefined) {
+        return 'Proof does not carry a nonce';
+    }
+    if (!nonceCache.consume(nonce)) {
+        return 'Proof nonce was not issued by this verifier, has expired or was already used';
+    }
+    return null;
+}
+
+/**
+ * Check that a proof's signed tree head describes the tree the proof was built from
+ * @param proof - Proof carrying a signed tree head
+ * @param expectedAgentId - Agent that should own the tree
+ * @returns Error messages (empty if consistent)
+ */
+function checkTreeHead(proof: CausalProof, expectedAgentId: string): string[] {
+    const head = proof.signedTreeHead!;
+    const errors: string[] = [];
+
+    if (head.agentId !== expectedAgentId) {
+        errors.push(`Signed tree head agent mismatch: expected ${expectedAgentId}, got ${head.agentId}`);
+    }
+    if (head.rootHash !== proof.treeRootHash) {
+        errors.push('Signed tree head root does not match proof tree root');
+    }
+    if (head.treeVersion !== (proof.treeVersion ?? 1)) {
+        errors.push(`Signed tree head format mismatch: head uses version ${head.treeVersion}, proof uses ${proof.treeVersion ?? 1}`);
+    }
+    if (proof.treeSize !== undefined && head.treeSize !== proof.treeSize) {
+        errors.push(`Signed tree head size mismatch: head has ${head.treeSize}, proof has ${proof.treeSize}`);
+    }
+    if (proof.targetEvent.positionInTree >= head.treeSize) {
+        errors.push(`Target event position ${proof.targetEvent.positionInTree} is outside signed tree size ${head.treeSize}`);
+    }
+
+    return errors;
+}
+
 /**
  * Calculate granular trust score based on chain characteristics
  * @param chain - The verified causal chain
@@ -179,17 +298,93 @@ export function verifyCausalChain(
     };
 }
 
+/**
+ * Check chain elements that carry full event data or inclusion paths
+ * Elements with agentId and payloadHash must hash to their eventHash, and
+ * elements with a proofPath must be included under the proof's tree root, so
+ * an agent cannot invent the action types or timestamps of earlier events.
+ * @param proof - Proof whose causal chain is checked
+ * @param options - Whether every element must carry event data or an inclusion path
+ * @returns Validity and list of errors
+ */
+export function verifyChainEvents(
+    proof: CausalProof,
+    options: { requireEventData?: boolean; requireInclusion?: boolean } = {}
+): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const treeSize = proof.treeSize ?? proof.signedTreeHead?.treeSize;
+
+    proof.causalChain.forEach((element, i) => {
+        if (element.payloadHash !== undefined) {
+            if (element.agentId !== proof.targetEvent.agentId) {
+                errors.push(`Chain event at index ${i} belongs to agent ${String(element.agentId)}, not ${proof.targetEvent.agentId}`);
+            } else if (hashEventInput({
+                agentId: element.agentId,
+                actionType: element.actionType,
+                payloadHash: element.payloadHash,
+                predecessorHash: element.predecessorHash,
+                timestamp: element.timestamp
+            }) !== element.eventHash) {
+                errors.push(`Chain event hash integrity check failed at index ${i}: ${element.eventHash}`);
+            }
+        } else if (options.requireEventData) {
+            errors.push(`Chain event at index ${i} does not carry its event data`);
+        }
+
+        if (element.proofPath !== undefined) {
+            const included = Number.isInteger(element.positionInTree) && MerkleTree.verifyProof(
+                element.eventHash,
+                element.proofPath,
+                proof.treeRootHash,
+                { version: proof.treeVersion ?? 1, leafIndex: element.positionInTree, treeSize }
+            );
+            if (!included) {
+                errors.push(`Merkle inclusion proof verification failed for chain event at index ${i}`);
+            }
+        } else if (options.requireInclusion) {
+            errors.push(`Chain event at index ${i} does not carry an inclusion proof`);
+        }
+    });
+
+    return { valid: errors.length === 0, errors };
+}
+
 /**
  * Verify Merkle inclusion for a single hash
  * @param hash - Hash to verify
  * @param proofPath - Merkle proof path
  * @param rootHash - Expected root hash
+ * @param options - Tree format and, for format 2, leaf index and tree size
  * @returns True if included
  */
 export function verifyMerkleInclusion(
     hash: string,
     proofPath: ProofPathElement[],
-    rootHash: string
+    rootHash: string,
+    options: InclusionOptions = {}
 ): boolean {
-    return MerkleTree.verifyProof(hash, proofPath, rootHash);
+    return MerkleTree.verifyProof(hash, proofPath, rootHash, options);
+}
+
+/**
+ * Verify that a tree history is an append-only extension of an earlier one
+ * @param proof - Consistency proof between two tree sizes
+ * @param trustedFirstRoot - Root previously observed at `proof.firstSize` (optional)
+ * @returns True if the proof is valid and matches the trusted root
+ */
+export function verifyConsistencyProof(
+    proof: ConsistencyProof,
+    trustedFirstRoot?: string
+): boolean {
+    if (trustedFirstRoot !== undefined && trustedFirstRoot !== proof.firstRootHash) {
+        return false;
+    }
+    return MerkleTree.verifyConsistency(
+        proof.firstSize,
+        proof.secondSize,
+        proof.firstRootHash,
+        proof.secondRootHash,
+        proof.proofHashes,
+        proof.treeVersion ?? 1
+    );
 }
@@ -13,6 +13,7 @@ export default defineConfig({
                 'dist',
                 'examples',
                 '**/*.test.ts',
+                '**/*.bench.ts',
                 'vitest.config.ts'
             ],
             thresholds: {